@@ -0,0 +1,29 @@
+import { createLocalAdapter } from './local.js';
+import { createRedisAdapter } from './redis.js';
+import type { Adapter, DeliverFunction } from './types.js';
+
+export type { Adapter, DeliverFunction } from './types.js';
+export { createLocalAdapter } from './local.js';
+export { createRedisAdapter } from './redis.js';
+
+// Pick the adapter from the environment: ADAPTER=local (default) or ADAPTER=redis
+export function createAdapterFromEnv(
+  deliver: DeliverFunction,
+  env: NodeJS.ProcessEnv = process.env
+): Adapter {
+  switch (env.ADAPTER ?? 'local') {
+    case 'local':
+      return createLocalAdapter(deliver);
+    case 'redis':
+      if (env.STORAGE !== 'redis') {
+        console.warn('ADAPTER=redis without STORAGE=redis; rooms and users stay on this node');
+      }
+      return createRedisAdapter({
+        url: env.REDIS_URL ?? 'redis://localhost:6379',
+        keyPrefix: env.REDIS_KEY_PREFIX,
+        deliver,
+      });
+    default:
+      throw new Error(`Unknown ADAPTER "${env.ADAPTER}", expected "local" or "redis"`);
+  }
+}
@@ -0,0 +1,34 @@
+import type { Adapter, DeliverFunction } from './types.js';
+
+// Single-process adapter: every user is connected to this node
+export function createLocalAdapter(deliver: DeliverFunction): Adapter {
+  const members = new Map<string, Set<string>>(); // roomId -> userIds
+
+  return {
+    addMember: (roomId, userId) => {
+      const roomMembers = members.get(roomId) ?? new Set<string>();
+      roomMembers.add(userId);
+      members.set(roomId, roomMembers);
+    },
+    removeMember: (roomId, userId) => {
+      const roomMembers = members.get(roomId);
+      roomMembers?.delete(userId);
+      if (roomMembers?.size === 0) members.delete(roomId);
+    },
+    getMembers: async (roomId) => Array.from(members.get(roomId) ?? []),
+
+    // Delivery goes straight to the local sockets, so presence needs no bookkeeping
+    attach: () => {},
+    detach: () => {},
+    isAttachedElsewhere: async () => false,
+
+    sendToUser: (userId, message) => deliver(userId, message),
+    broadcastToRoom: (roomId, message, excludeUser) => {
+      members.get(roomId)?.forEach((userId) => {
+        if (userId !== excludeUser) deliver(userId, message);
+      });
+    },
+
+    close: async () => {},
+  };
+}
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ServerMessage } from '@vestream/shared';
+import { type FakeRedis, startFakeRedis } from '../testing/redis.js';
+import type { Adapter } from './types.js';
+import { createRedisAdapter } from './redis.js';
+
+// Any message will do; the username tells them apart
+function chat(username: string): ServerMessage {
+  return {
+    type: 'TYPING_START',
+    payload: { roomId: 'room-1', userId: 'someone', username },
+    timestamp: new Date(0).toISOString(),
+  };
+}
+
+describe('createRedisAdapter', () => {
+  let redis: FakeRedis;
+  const adapters: Adapter[] = [];
+  let delivered: { node: string; userId: string; message: ServerMessage }[];
+
+  // One adapter per node, each recording what it hands to its own sockets
+  function createNode(node: string) {
+    const adapter = createRedisAdapter({
+      url: redis.url,
+      deliver: (userId, message) => delivered.push({ node, userId, message }),
+    });
+    adapters.push(adapter);
+    return adapter;
+  }
+
+  // Subscriptions are set up in the background; wait until the server has them
+  async function subscribed(count: number) {
+    await vi.waitFor(() =>
+      expect(redis.commands.filter(([name]) => name === 'SUBSCRIBE').length).toBe(count)
+    );
+  }
+
+  beforeEach(async () => {
+    redis = await startFakeRedis();
+    delivered = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(adapters.splice(0).map((adapter) => adapter.close()));
+    await redis.close();
+  });
+
+  it('shares room membership between nodes', async () => {
+    const a = createNode('a');
+    const b = createNode('b');
+    a.addMember('room-1', 'alice');
+    b.addMember('room-1', 'bob');
+    b.addMember('room-2', 'carol');
+
+    await vi.waitFor(async () =>
+      expect((await a.getMembers('room-1')).sort()).toEqual(['alice', 'bob'])
+    );
+
+    a.removeMember('room-1', 'bob');
+    await vi.waitFor(async () => expect(await b.getMembers('room-1')).toEqual(['alice']));
+  });
+
+  it('broadcasts to the members attached to every node', async () => {
+    const a = createNode('a');
+    const b = createNode('b');
+    a.attach('alice', 'room-1');
+    b.attach('bob', 'room-1');
+    b.attach('carol', 'room-2');
+    await subscribed(6);
+
+    a.broadcastToRoom('room-1', chat('hello'));
+
+    await vi.waitFor(() => expect(delivered).toHaveLength(2));
+    expect(delivered.map(({ node, userId }) => `${node}:${userId}`).sort()).toEqual([
+      'a:alice',
+      'b:bob',
+    ]);
+  });
+
+  it('leaves out the excluded user on other nodes', async () => {
+    const a = createNode('a');
+    const b = createNode('b');
+    a.attach('alice', 'room-1');
+    b.attach('bob', 'room-1');
+    b.attach('dave', 'room-1');
+    await subscribed(5);
+
+    a.broadcastToRoom('room-1', chat('hello'), 'bob');
+
+    await vi.waitFor(() => expect(delivered).toHaveLength(2));
+    expect(delivered.map(({ userId }) => userId).sort()).toEqual(['alice', 'dave']);
+  });
+
+  it('sends to a user on another node, in order', async () => {
+    const a = createNode('a');
+    const b = createNode('b');
+    b.attach('bob', 'room-1');
+    await subscribed(2);
+
+    a.sendToUser('bob', chat('first'));
+    a.sendToUser('bob', chat('second'));
+
+    await vi.waitFor(() => expect(delivered).toHaveLength(2));
+    expect(delivered.map(({ node, message }) => [node, message])).toEqual([
+      ['b', chat('first')],
+      ['b', chat('second')],
+    ]);
+  });
+
+  it('stops delivering to users once they are detached', async () => {
+    const a = createNode('a');
+    const b = createNode('b');
+    b.attach('bob', 'room-1');
+    await subscribed(2);
+    b.detach('bob');
+    await vi.waitFor(() =>
+      expect(redis.commands.filter(([name]) => name === 'UNSUBSCRIBE').length).toBe(2)
+    );
+
+    a.sendToUser('bob', chat('hello'));
+    a.broadcastToRoom('room-1', chat('hello'));
+    // A marker sent after them shows they have been handled
+    b.attach('carol', 'room-2');
+    await subscribed(4);
+    a.sendToUser('carol', chat('marker'));
+
+    await vi.waitFor(() => expect(delivered).toHaveLength(1));
+    expect(delivered[0]).toMatchObject({ userId: 'carol', message: chat('marker') });
+  });
+
+  it('ignores malformed messages on its channels', async () => {
+    const a = createNode('a');
+    const b = createNode('b');
+    b.attach('bob', 'room-1');
+    await subscribed(2);
+
+    redis.publish('vestream:room:room-1', 'not json');
+    redis.publish('vestream:user:bob', '{"origin":');
+    a.sendToUser('bob', chat('marker'));
+
+    await vi.waitFor(() => expect(delivered).toHaveLength(1));
+    expect(delivered[0]).toMatchObject({ userId: 'bob', message: chat('marker') });
+  });
+
+  it('tells whether a user is attached to another node', async () => {
+    const a = createNode('a');
+    const b = createNode('b');
+    a.attach('alice', 'room-1');
+    await subscribed(2);
+
+    expect(await a.isAttachedElsewhere('alice')).toBe(false);
+    expect(await b.isAttachedElsewhere('alice')).toBe(true);
+    expect(await b.isAttachedElsewhere('bob')).toBe(false);
+
+    a.detach('alice');
+    await vi.waitFor(async () => expect(await b.isAttachedElsewhere('alice')).toBe(false));
+  });
+});
@@ -0,0 +1,135 @@
+import { randomUUID } from 'crypto';
+import type { ServerMessage } from '@vestream/shared';
+import type { Adapter, DeliverFunction } from './types.js';
+import { createRespConnection, type RespValue } from './resp.js';
+
+export interface RedisAdapterOptions {
+  url: string;
+  keyPrefix?: string;
+  deliver: DeliverFunction;
+}
+
+interface Envelope {
+  origin: string; // node that published it; that node has already delivered locally
+  message: ServerMessage;
+  excludeUser?: string;
+}
+
+// Adapter for several nodes sharing a Redis (or Redis-protocol compatible) server.
+// Membership lives in a set per room; each node subscribes to the channels of
+// the rooms and users attached to it. Recipients on the publishing node are
+// served directly, so per-recipient ordering holds on both paths.
+export function createRedisAdapter({
+  url,
+  keyPrefix = 'vestream',
+  deliver,
+}: RedisAdapterOptions): Adapter {
+  const nodeId = randomUUID();
+  const attachedRooms = new Map<string, string>(); // userId -> roomId
+  const localMembers = new Map<string, Set<string>>(); // roomId -> attached userIds
+
+  const membersKey = (roomId: string) => `${keyPrefix}:room:${roomId}:members`;
+  const roomChannel = (roomId: string) => `${keyPrefix}:room:${roomId}`;
+  const userChannel = (userId: string) => `${keyPrefix}:user:${userId}`;
+  const roomChannelPrefix = `${keyPrefix}:room:`;
+  const userChannelPrefix = `${keyPrefix}:user:`;
+
+  const logError = (error: Error) => console.error('Redis adapter error:', error.message);
+  const publisher = createRespConnection({ url, onError: logError });
+  const subscriber = createRespConnection({ url, onPush: handlePush, onError: logError });
+
+  function deliverToRoom(roomId: string, message: ServerMessage, excludeUser?: string) {
+    localMembers.get(roomId)?.forEach((userId) => {
+      if (userId !== excludeUser) deliver(userId, message);
+    });
+  }
+
+  function handlePush([kind, channel, data]: RespValue[]) {
+    if (kind !== 'message' || typeof channel !== 'string' || typeof data !== 'string') return;
+
+    let envelope: Envelope;
+    try {
+      envelope = JSON.parse(data);
+    } catch {
+      logError(new Error(`Ignoring malformed message on ${channel}`));
+      return;
+    }
+    if (envelope.origin === nodeId) return;
+
+    if (channel.startsWith(userChannelPrefix)) {
+      const userId = channel.slice(userChannelPrefix.length);
+      if (attachedRooms.has(userId)) deliver(userId, envelope.message);
+    } else if (channel.startsWith(roomChannelPrefix)) {
+      deliverToRoom(
+        channel.slice(roomChannelPrefix.length),
+        envelope.message,
+        envelope.excludeUser
+      );
+    }
+  }
+
+  function publish(channel: string, envelope: Envelope) {
+    publisher.command('PUBLISH', channel, JSON.stringify(envelope)).catch(logError);
+  }
+
+  return {
+    addMember: (roomId, userId) => {
+      publisher.command('SADD', membersKey(roomId), userId).catch(logError);
+    },
+    removeMember: (roomId, userId) => {
+      publisher.command('SREM', membersKey(roomId), userId).catch(logError);
+    },
+    getMembers: async (roomId) => {
+      const members = await publisher.command('SMEMBERS', membersKey(roomId));
+      return Array.isArray(members)
+        ? members.filter((m): m is string => typeof m === 'string')
+        : [];
+    },
+
+    attach: (userId, roomId) => {
+      if (attachedRooms.get(userId) === roomId) return;
+      attachedRooms.set(userId, roomId);
+      subscriber.subscribe(userChannel(userId));
+
+      const roomMembers = localMembers.get(roomId) ?? new Set<string>();
+      if (roomMembers.size === 0) subscriber.subscribe(roomChannel(roomId));
+      roomMembers.add(userId);
+      localMembers.set(roomId, roomMembers);
+    },
+    detach: (userId) => {
+      const roomId = attachedRooms.get(userId);
+      if (roomId === undefined) return;
+      attachedRooms.delete(userId);
+      subscriber.unsubscribe(userChannel(userId));
+
+      const roomMembers = localMembers.get(roomId);
+      roomMembers?.delete(userId);
+      if (roomMembers?.size === 0) {
+        localMembers.delete(roomId);
+        subscriber.unsubscribe(roomChannel(roomId));
+      }
+    },
+    // Every node subscribes to the channels of the users attached to it, this one included
+    isAttachedElsewhere: async (userId) => {
+      const reply = await publisher.command('PUBSUB', 'NUMSUB', userChannel(userId));
+      const subscribers = Array.isArray(reply) && typeof reply[1] === 'number' ? reply[1] : 0;
+      return subscribers > (attachedRooms.has(userId) ? 1 : 0);
+    },
+
+    sendToUser: (userId, message) => {
+      if (attachedRooms.has(userId)) {
+        deliver(userId, message);
+      } else {
+        publish(userChannel(userId), { origin: nodeId, message });
+      }
+    },
+    broadcastToRoom: (roomId, message, excludeUser) => {
+      deliverToRoom(roomId, message, excludeUser);
+      publish(roomChannel(roomId), { origin: nodeId, message, excludeUser });
+    },
+
+    close: async () => {
+      await Promise.all([publisher.close(), subscriber.close()]);
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import { connect } from 'net';
+
+// A minimal client for the Redis serialization protocol (RESP2): enough for
+// the set and pub/sub commands the adapter needs, against Redis or anything
+// that speaks the protocol.
+
+export type RespValue = string | number | null | RespValue[];
+
+export class RespError extends Error {}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n${args
+    .map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`)
+    .join('')}`;
+}
+
+// Parse one value from the buffer; returns undefined until it is complete
+function parseValue(
+  buffer: Buffer,
+  offset: number
+): { value: RespValue | RespError; offset: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseValue(buffer, position);
+        if (!item) return undefined;
+        items.push(item.value instanceof RespError ? item.value.message : item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new RespError(`Unexpected RESP type byte "${type}"`);
+  }
+}
+
+export interface RespConnectionOptions {
+  url: string; // redis://[:password@]host:port
+  onPush?: (value: RespValue[]) => void; // pub/sub messages on a subscribed connection
+  onError?: (error: Error) => void;
+}
+
+export interface RespConnection {
+  command(...args: string[]): Promise<RespValue>;
+  // Subscriptions are acknowledged through onPush like any other pushed message
+  subscribe(...channels: string[]): void;
+  unsubscribe(...channels: string[]): void;
+  close(): Promise<void>;
+}
+
+export function createRespConnection({
+  url,
+  onPush,
+  onError,
+}: RespConnectionOptions): RespConnection {
+  const { hostname, port, password } = new URL(url);
+  const socket = connect({ host: hostname || 'localhost', port: Number(port) || 6379 });
+  const pending: PendingReply[] = [];
+  let buffer = Buffer.alloc(0);
+  let subscribed = false;
+
+  function fail(error: Error) {
+    pending.splice(0).forEach((reply) => reply.reject(error));
+    onError?.(error);
+  }
+
+  function handleValue(value: RespValue | RespError) {
+    // In subscribe mode the server pushes arrays that answer no command
+    if (subscribed && Array.isArray(value)) {
+      onPush?.(value);
+      return;
+    }
+
+    const reply = pending.shift();
+    if (!reply) return;
+    if (value instanceof RespError) {
+      reply.reject(value);
+    } else {
+      reply.resolve(value);
+    }
+  }
+
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    let parsed = parseValue(buffer, 0);
+    while (parsed) {
+      buffer = buffer.subarray(parsed.offset);
+      handleValue(parsed.value);
+      parsed = buffer.length > 0 ? parseValue(buffer, 0) : undefined;
+    }
+  });
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('RESP connection closed')));
+
+  const connection: RespConnection = {
+    command: (...args) =>
+      new Promise((resolve, reject) => {
+        pending.push({ resolve, reject });
+        socket.write(encodeCommand(args));
+      }),
+    subscribe: (...channels) => {
+      subscribed = true;
+      socket.write(encodeCommand(['SUBSCRIBE', ...channels]));
+    },
+    unsubscribe: (...channels) => {
+      socket.write(encodeCommand(['UNSUBSCRIBE', ...channels]));
+    },
+    close: () =>
+      new Promise((resolve) => {
+        socket.removeAllListeners('close');
+        socket.end(resolve);
+      }),
+  };
+
+  // Writes made before the socket connects are buffered by Node, so AUTH goes first
+  if (password) {
+    connection.command('AUTH', decodeURIComponent(password)).catch(fail);
+  }
+
+  return connection;
+}
@@ -0,0 +1,24 @@
+import type { ServerMessage } from '@vestream/shared';
+
+// Hands a message to the socket of a user connected to this node, if there is one
+export type DeliverFunction = (userId: string, message: ServerMessage) => void;
+
+// Cross-node fan-out and signaling routing. Every node runs one adapter; users
+// are attached to the node that holds their socket, and messages addressed to a
+// user or a room reach them wherever that is.
+export interface Adapter {
+  // Room membership, shared by every node
+  addMember(roomId: string, userId: string): void;
+  removeMember(roomId: string, userId: string): void;
+  getMembers(roomId: string): Promise<string[]>;
+
+  // The user's socket is now on / no longer on this node
+  attach(userId: string, roomId: string): void;
+  detach(userId: string): void;
+  isAttachedElsewhere(userId: string): Promise<boolean>; // to another node, which owns their slot
+
+  sendToUser(userId: string, message: ServerMessage): void;
+  broadcastToRoom(roomId: string, message: ServerMessage, excludeUser?: string): void;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,68 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { AttachmentStore, StoredAttachment } from './types.js';
+
+// Attachment ids are server-made UUIDs; anything else never reaches the file system
+const ATTACHMENT_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const ROOM_DIRECTORY_PREFIX = 'room-';
+
+// Keeps each room's files in room-<roomId>/ under the directory, every file next to
+// a <id>.json with its metadata
+export function createDiskAttachmentStore(directory: string): AttachmentStore {
+  mkdirSync(directory, { recursive: true });
+
+  // The prefix keeps room ids such as ".." from naming a directory of their own
+  function roomDirectory(roomId: string) {
+    return join(directory, `${ROOM_DIRECTORY_PREFIX}${encodeURIComponent(roomId)}`);
+  }
+
+  function filePath(roomId: string, attachmentId: string) {
+    return ATTACHMENT_ID.test(attachmentId) ? join(roomDirectory(roomId), attachmentId) : undefined;
+  }
+
+  function writeMetadata(attachment: StoredAttachment) {
+    const path = filePath(attachment.roomId, attachment.id);
+    if (!path) throw new Error(`Invalid attachment id ${attachment.id}`);
+    writeFileSync(`${path}.json`, JSON.stringify(attachment));
+    return path;
+  }
+
+  return {
+    save: (attachment, data) => {
+      mkdirSync(roomDirectory(attachment.roomId), { recursive: true });
+      const path = writeMetadata(attachment);
+      writeFileSync(path, data);
+    },
+
+    get: (roomId, attachmentId) => {
+      const path = filePath(roomId, attachmentId);
+      if (!path || !existsSync(`${path}.json`)) return undefined;
+      return JSON.parse(readFileSync(`${path}.json`, 'utf8'));
+    },
+
+    read: (roomId, attachmentId) => {
+      const path = filePath(roomId, attachmentId);
+      return path && existsSync(path) ? readFileSync(path) : undefined;
+    },
+
+    update: (attachment) => {
+      writeMetadata(attachment);
+    },
+
+    delete: (roomId, attachmentId) => {
+      const path = filePath(roomId, attachmentId);
+      if (!path) return;
+      rmSync(path, { force: true });
+      rmSync(`${path}.json`, { force: true });
+    },
+
+    deleteRoom: (roomId) => {
+      rmSync(roomDirectory(roomId), { recursive: true, force: true });
+    },
+
+    listRoomIds: () =>
+      readdirSync(directory)
+        .filter((name) => name.startsWith(ROOM_DIRECTORY_PREFIX))
+        .map((name) => decodeURIComponent(name.slice(ROOM_DIRECTORY_PREFIX.length))),
+  };
+}
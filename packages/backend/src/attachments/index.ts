@@ -0,0 +1,38 @@
+import { join } from 'path';
+import { createDiskAttachmentStore } from './disk.js';
+import type { AttachmentLimits, AttachmentStore } from './types.js';
+
+export type { AttachmentLimits, AttachmentStore, StoredAttachment } from './types.js';
+export { toAttachment } from './types.js';
+export { createDiskAttachmentStore } from './disk.js';
+
+// Types that browsers can't be talked into running as a page; SVG and HTML stay out
+export const DEFAULT_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+];
+
+// Keep uploads in ATTACHMENTS_DIR, by default next to the file storage's data
+export function createAttachmentStoreFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): AttachmentStore {
+  return createDiskAttachmentStore(
+    env.ATTACHMENTS_DIR ?? join(env.STORAGE_DIR ?? './data', 'attachments')
+  );
+}
+
+// Read ATTACHMENT_MAX_BYTES and ATTACHMENT_TYPES (comma-separated MIME types)
+export function createAttachmentLimitsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): AttachmentLimits {
+  return {
+    maxBytes: Number(env.ATTACHMENT_MAX_BYTES) || 5 * 1024 * 1024,
+    allowedTypes: env.ATTACHMENT_TYPES
+      ? env.ATTACHMENT_TYPES.split(',').map((type) => type.trim().toLowerCase())
+      : DEFAULT_ATTACHMENT_TYPES,
+  };
+}
@@ -0,0 +1,31 @@
+import type { Attachment } from '@vestream/shared';
+
+// An uploaded file's metadata as kept by the server
+export interface StoredAttachment extends Attachment {
+  roomId: string;
+  uploadedBy: string; // userId
+  uploadedAt: string;
+  messageId?: string; // set once it is sent; a file goes out in one message only
+}
+
+// Where uploaded files are kept. Attachments belong to a room and go with its chat history.
+// Synchronous like Store, so handlers keep their ordering guarantees
+export interface AttachmentStore {
+  save(attachment: StoredAttachment, data: Buffer): void;
+  get(roomId: string, attachmentId: string): StoredAttachment | undefined;
+  read(roomId: string, attachmentId: string): Buffer | undefined;
+  update(attachment: StoredAttachment): void; // metadata only
+  delete(roomId: string, attachmentId: string): void;
+  deleteRoom(roomId: string): void;
+  listRoomIds(): string[]; // rooms that have attachments
+}
+
+export interface AttachmentLimits {
+  maxBytes: number;
+  allowedTypes: string[]; // MIME types
+}
+
+// The part of a stored attachment that goes out in chat messages
+export function toAttachment({ id, name, mimeType, size, url }: StoredAttachment): Attachment {
+  return { id, name, mimeType, size, url };
+}
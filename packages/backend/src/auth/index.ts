@@ -0,0 +1,20 @@
+import { randomBytes } from 'crypto';
+import { createTokenSigner, type TokenSigner } from './token.js';
+
+export type { TokenClaims, TokenSigner } from './token.js';
+export { createTokenSigner } from './token.js';
+export { hashPassword, verifyPassword } from './password.js';
+
+// Build the token signer from AUTH_SECRET and AUTH_TOKEN_TTL_MS (default 7 days)
+export function createTokenSignerFromEnv(env: NodeJS.ProcessEnv = process.env): TokenSigner {
+  let secret = env.AUTH_SECRET;
+  if (!secret) {
+    console.warn('AUTH_SECRET is not set; tokens will not survive a restart or work across nodes');
+    secret = randomBytes(32).toString('base64url');
+  }
+
+  return createTokenSigner({
+    secret,
+    ttlMs: Number(env.AUTH_TOKEN_TTL_MS) || 7 * 24 * 60 * 60 * 1000,
+  });
+}
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createTokenSigner } from './token.js';
+
+describe('createTokenSigner', () => {
+  const signer = createTokenSigner({ secret: 'test-secret', ttlMs: 60_000 });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('verifies the tokens it signs', () => {
+    const token = signer.sign({ sub: 'account-1', username: 'alice' });
+    expect(signer.verify(token)).toMatchObject({ sub: 'account-1', username: 'alice' });
+  });
+
+  it('accepts tokens signed by another signer with the same secret', () => {
+    const other = createTokenSigner({ secret: 'test-secret', ttlMs: 60_000 });
+    expect(signer.verify(other.sign({ sub: 'account-1', username: 'alice' }))).toBeDefined();
+  });
+
+  it('refuses tokens signed with another secret', () => {
+    const other = createTokenSigner({ secret: 'other-secret', ttlMs: 60_000 });
+    expect(signer.verify(other.sign({ sub: 'account-1', username: 'alice' }))).toBeUndefined();
+  });
+
+  it('refuses tokens whose claims were changed', () => {
+    const [, signature] = signer.sign({ sub: 'account-1', username: 'alice' }).split('.');
+    const claims = Buffer.from(
+      JSON.stringify({ sub: 'account-2', username: 'mallory', exp: Date.now() + 60_000 })
+    ).toString('base64url');
+    expect(signer.verify(`${claims}.${signature}`)).toBeUndefined();
+  });
+
+  it('refuses malformed tokens', () => {
+    const token = signer.sign({ sub: 'account-1', username: 'alice' });
+    expect(signer.verify('')).toBeUndefined();
+    expect(signer.verify('not-a-token')).toBeUndefined();
+    expect(signer.verify(`${token}.extra`)).toBeUndefined();
+  });
+
+  it('refuses tokens once they expire', () => {
+    vi.useFakeTimers();
+    const token = signer.sign({ sub: 'account-1', username: 'alice' });
+
+    vi.advanceTimersByTime(59_999);
+    expect(signer.verify(token)).toBeDefined();
+    vi.advanceTimersByTime(1);
+    expect(signer.verify(token)).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// What an access token vouches for
+export interface TokenClaims {
+  sub: string; // account id
+  username: string;
+  exp: number; // expiry, in milliseconds since the epoch
+}
+
+export interface TokenSigner {
+  sign(claims: Omit<TokenClaims, 'exp'>): string;
+  verify(token: string): TokenClaims | undefined; // undefined if forged, malformed or expired
+}
+
+// Stateless access tokens: "<claims>.<signature>", the claims as base64url JSON
+// signed with HMAC-SHA256. Any node holding the same secret can verify them.
+export function createTokenSigner({
+  secret,
+  ttlMs,
+}: {
+  secret: string;
+  ttlMs: number;
+}): TokenSigner {
+  function signature(encodedClaims: string) {
+    return createHmac('sha256', secret).update(encodedClaims).digest();
+  }
+
+  return {
+    sign: (claims) => {
+      const encodedClaims = Buffer.from(
+        JSON.stringify({ ...claims, exp: Date.now() + ttlMs })
+      ).toString('base64url');
+      return `${encodedClaims}.${signature(encodedClaims).toString('base64url')}`;
+    },
+
+    verify: (token) => {
+      const [encodedClaims, encodedSignature, ...rest] = token.split('.');
+      if (!encodedClaims || !encodedSignature || rest.length > 0) return undefined;
+
+      const expected = signature(encodedClaims);
+      const actual = Buffer.from(encodedSignature, 'base64url');
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return undefined;
+      }
+
+      try {
+        const claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf8'));
+        if (typeof claims.sub !== 'string' || typeof claims.username !== 'string') return undefined;
+        if (typeof claims.exp !== 'number' || claims.exp <= Date.now()) return undefined;
+        return claims as TokenClaims;
+      } catch {
+        return undefined;
+      }
+    },
+  };
+}
@@ -0,0 +1,657 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { type FakeRedis, startFakeRedis } from './testing/redis.js';
+import { type TestServer, connect, register, startServer } from './testing/server.js';
+
+describe('invites', () => {
+  let server: TestServer;
+
+  // Starting the server process takes a few seconds
+  beforeAll(async () => {
+    server = await startServer();
+  }, 30_000);
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  // Each test signs up its own users, so no account is still held by an earlier test's room
+  async function signIn(username: string) {
+    return connect(server, await register(server, username));
+  }
+
+  // Open a private room and create an invite to it
+  async function openPrivateRoom(roomId: string, maxUses?: number) {
+    const broadcaster = await signIn(`host-${roomId}`);
+    broadcaster.send('JOIN_ROOM', { roomId, role: 'broadcaster', private: true });
+    await broadcaster.next('ROOM_JOINED');
+    broadcaster.send('CREATE_INVITE', { roomId, expiresInMs: 60_000, maxUses });
+    const { invite } = (await broadcaster.next('INVITE_CREATED')).payload;
+    return { broadcaster, invite };
+  }
+
+  async function joinAsViewer(username: string, roomId: string, invite?: string) {
+    const viewer = await signIn(username);
+    viewer.send('JOIN_ROOM', { roomId, role: 'viewer', invite });
+    return viewer;
+  }
+
+  it('keeps viewers without an invite out of private rooms', async () => {
+    const { broadcaster } = await openPrivateRoom('room-a');
+
+    const viewer = await joinAsViewer('viewer-a', 'room-a');
+    expect((await viewer.next('ERROR')).payload.code).toBe('ROOM_LOCKED');
+
+    [viewer, broadcaster].forEach((client) => client.close());
+  });
+
+  it('admits viewers with an invite until its uses run out', async () => {
+    const { broadcaster, invite } = await openPrivateRoom('room-b', 2);
+
+    const first = await joinAsViewer('viewer-b1', 'room-b', invite.token);
+    expect((await first.next('ROOM_JOINED')).payload.room.id).toBe('room-b');
+    const second = await joinAsViewer('viewer-b2', 'room-b', invite.token);
+    expect((await second.next('ROOM_JOINED')).payload.room.id).toBe('room-b');
+
+    const third = await joinAsViewer('viewer-b3', 'room-b', invite.token);
+    expect((await third.next('ERROR')).payload).toMatchObject({
+      code: 'INVALID_INVITE',
+      field: 'payload.invite',
+    });
+
+    [first, second, third, broadcaster].forEach((client) => client.close());
+  });
+
+  it('refuses invites to another room', async () => {
+    const c = await openPrivateRoom('room-c');
+    const d = await openPrivateRoom('room-d');
+
+    const viewer = await joinAsViewer('viewer-c', 'room-d', c.invite.token);
+    expect((await viewer.next('ERROR')).payload.code).toBe('INVALID_INVITE');
+
+    [viewer, c.broadcaster, d.broadcaster].forEach((client) => client.close());
+  });
+
+  it('only lets the broadcaster create invites', async () => {
+    const { broadcaster, invite } = await openPrivateRoom('room-e');
+    const viewer = await joinAsViewer('viewer-e', 'room-e', invite.token);
+    await viewer.next('ROOM_JOINED');
+
+    viewer.send('CREATE_INVITE', { roomId: 'room-e', expiresInMs: 60_000 });
+    expect((await viewer.next('ERROR')).payload.code).toBe('INVALID_ROLE');
+
+    [viewer, broadcaster].forEach((client) => client.close());
+  });
+});
+
+describe('moderation', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer();
+  }, 30_000);
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  async function joinRoom(token: string, roomId: string, role: 'broadcaster' | 'viewer') {
+    const client = await connect(server, token);
+    client.send('JOIN_ROOM', { roomId, role });
+    return { client, user: (await client.next('ROOM_JOINED')).payload.user };
+  }
+
+  // A broadcaster and a viewer in a room of their own, with the viewer's token for rejoining
+  async function openRoom(roomId: string) {
+    const host = await joinRoom(await register(server, `host-${roomId}`), roomId, 'broadcaster');
+    await host.client.next('BAN_LIST'); // the empty one every moderator gets on joining
+    const token = await register(server, `viewer-${roomId}`);
+    const viewer = await joinRoom(token, roomId, 'viewer');
+    return { host, viewer, token };
+  }
+
+  it('kicks a viewer, who can join again', async () => {
+    const { host, viewer, token } = await openRoom('mod-1');
+
+    host.client.send('KICK_USER', { roomId: 'mod-1', userId: viewer.user.id, reason: 'spam' });
+    expect((await viewer.client.next('MODERATION_ACTION')).payload).toMatchObject({
+      action: 'kick',
+      moderator: 'host-mod-1',
+      reason: 'spam',
+    });
+    expect((await host.client.next('USER_LEFT')).payload.user.id).toBe(viewer.user.id);
+
+    const again = await joinRoom(token, 'mod-1', 'viewer');
+    expect(again.user.id).toBe(viewer.user.id);
+
+    [host, viewer, again].forEach(({ client }) => client.close());
+  });
+
+  it('bans a viewer until the ban is lifted', async () => {
+    const { host, viewer, token } = await openRoom('mod-2');
+
+    host.client.send('BAN_USER', { roomId: 'mod-2', userId: viewer.user.id });
+    expect((await viewer.client.next('MODERATION_ACTION')).payload.action).toBe('ban');
+    const { bans } = (await host.client.next('BAN_LIST')).payload;
+    expect(bans.map((ban) => ban.userId)).toEqual([viewer.user.id]);
+
+    const banned = await connect(server, token);
+    banned.send('JOIN_ROOM', { roomId: 'mod-2', role: 'viewer' });
+    expect((await banned.next('ERROR')).payload.code).toBe('BANNED');
+
+    host.client.send('UNBAN_USER', { roomId: 'mod-2', userId: viewer.user.id });
+    expect((await host.client.next('BAN_LIST')).payload.bans).toEqual([]);
+    banned.send('JOIN_ROOM', { roomId: 'mod-2', role: 'viewer' });
+    await banned.next('ROOM_JOINED');
+
+    [host.client, viewer.client, banned].forEach((client) => client.close());
+  });
+
+  it('mutes a viewer in chat until unmuted', async () => {
+    const { host, viewer } = await openRoom('mod-3');
+    const chat = (content: string) =>
+      viewer.client.send('CHAT_MESSAGE', { message: { content, type: 'public' } });
+
+    host.client.send('MUTE_USER', { roomId: 'mod-3', userId: viewer.user.id, muted: true });
+    expect((await viewer.client.next('MODERATION_ACTION')).payload.action).toBe('mute');
+    chat('can you hear me?');
+    expect((await viewer.client.next('ERROR')).payload.code).toBe('MUTED');
+
+    host.client.send('MUTE_USER', { roomId: 'mod-3', userId: viewer.user.id, muted: false });
+    expect((await viewer.client.next('MODERATION_ACTION')).payload.action).toBe('unmute');
+    chat('and now?');
+    expect((await host.client.next('CHAT_MESSAGE_RECEIVED')).payload.message.content).toBe(
+      'and now?'
+    );
+
+    [host, viewer].forEach(({ client }) => client.close());
+  });
+
+  it('leaves moderation to the broadcaster and moderators, who cannot act on each other', async () => {
+    const { host, viewer } = await openRoom('mod-4');
+    const other = await joinRoom(await register(server, 'other-mod-4'), 'mod-4', 'viewer');
+
+    viewer.client.send('KICK_USER', { roomId: 'mod-4', userId: other.user.id });
+    expect((await viewer.client.next('ERROR')).payload.code).toBe('INVALID_ROLE');
+
+    host.client.send('SET_MODERATOR', { roomId: 'mod-4', userId: viewer.user.id, moderator: true });
+    host.client.send('SET_MODERATOR', { roomId: 'mod-4', userId: other.user.id, moderator: true });
+    await other.client.next('BAN_LIST');
+    viewer.client.send('KICK_USER', { roomId: 'mod-4', userId: other.user.id });
+    expect((await viewer.client.next('ERROR')).payload.code).toBe('INVALID_ROLE');
+    viewer.client.send('KICK_USER', { roomId: 'mod-4', userId: host.user.id });
+    expect((await viewer.client.next('ERROR')).payload.code).toBe('INVALID_ROLE');
+
+    [host, viewer, other].forEach(({ client }) => client.close());
+  });
+});
+
+describe('chat', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer();
+  }, 30_000);
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  async function joinRoom(username: string, roomId: string, role: 'broadcaster' | 'viewer') {
+    const client = await connect(server, await register(server, username));
+    client.send('JOIN_ROOM', { roomId, role });
+    return { client, user: (await client.next('ROOM_JOINED')).payload.user };
+  }
+  type Joined = Awaited<ReturnType<typeof joinRoom>>;
+
+  it('delivers a private message to its recipient and sender only', async () => {
+    const host = await joinRoom('pm-host-1', 'pm-1', 'broadcaster');
+    const sender = await joinRoom('pm-sender-1', 'pm-1', 'viewer');
+    const bystander = await joinRoom('pm-bystander-1', 'pm-1', 'viewer');
+
+    sender.client.send('CHAT_MESSAGE', {
+      message: { content: 'psst', type: 'private', recipientId: host.user.id, roomId: 'pm-1' },
+    });
+    expect((await host.client.next('CHAT_MESSAGE_RECEIVED')).payload.message.content).toBe('psst');
+    expect((await sender.client.next('CHAT_MESSAGE_RECEIVED')).payload.message.content).toBe(
+      'psst'
+    );
+    await expect(bystander.client.next('CHAT_MESSAGE_RECEIVED', 500)).rejects.toThrow();
+
+    [host, sender, bystander].forEach(({ client }) => client.close());
+  });
+
+  it('refuses a private message without a recipient', async () => {
+    const host = await joinRoom('pm-host-2', 'pm-2', 'broadcaster');
+
+    host.client.send('CHAT_MESSAGE', {
+      message: { content: 'to whom?', type: 'private', roomId: 'pm-2' },
+    });
+    expect((await host.client.next('ERROR')).payload).toMatchObject({
+      code: 'INVALID_MESSAGE',
+      field: 'payload.message.recipientId',
+    });
+
+    host.client.close();
+  });
+
+  it('refuses a recipient in another room', async () => {
+    const host = await joinRoom('pm-host-3', 'pm-3', 'broadcaster');
+    const elsewhere = await joinRoom('pm-host-4', 'pm-4', 'broadcaster');
+
+    host.client.send('CHAT_MESSAGE', {
+      message: { content: 'psst', type: 'private', recipientId: elsewhere.user.id, roomId: 'pm-3' },
+    });
+    expect((await host.client.next('ERROR')).payload).toMatchObject({
+      code: 'USER_NOT_FOUND',
+      field: 'payload.message.recipientId',
+    });
+    await expect(elsewhere.client.next('CHAT_MESSAGE_RECEIVED', 500)).rejects.toThrow();
+
+    [host, elsewhere].forEach(({ client }) => client.close());
+  });
+
+  it('pages forward from a message, but not from one that is gone', async () => {
+    const host = await joinRoom('history-host-1', 'history-1', 'broadcaster');
+    const sent = [];
+    for (const content of ['one', 'two', 'three']) {
+      host.client.send('CHAT_MESSAGE', { message: { content, type: 'public' } });
+      sent.push((await host.client.next('CHAT_MESSAGE_RECEIVED')).payload.message);
+    }
+
+    host.client.send('GET_CHAT_HISTORY', { roomId: 'history-1', after: sent[0].id, limit: 1 });
+    const page = (await host.client.next('CHAT_HISTORY')).payload;
+    expect(page.messages.map((m) => m.content)).toEqual(['two']);
+    expect(page).toMatchObject({ after: sent[0].id, total: 3, hasMore: true });
+
+    host.client.send('GET_CHAT_HISTORY', { roomId: 'history-1', after: 'unknown', limit: 1 });
+    expect((await host.client.next('ERROR')).payload).toMatchObject({
+      code: 'MESSAGE_NOT_FOUND',
+      field: 'payload.after',
+    });
+    const response = await fetch(`${server.url}/api/rooms/history-1/messages?after=unknown`);
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ code: 'MESSAGE_NOT_FOUND' });
+
+    host.client.close();
+  });
+
+  // The host's copy of a message the viewer sends to the room
+  async function postAsViewer(room: { host: Joined; viewer: Joined }, content: string) {
+    room.viewer.client.send('CHAT_MESSAGE', { message: { content, type: 'public' } });
+    return (await room.host.client.next('CHAT_MESSAGE_RECEIVED')).payload.message;
+  }
+
+  it('only lets the author edit a message', async () => {
+    const host = await joinRoom('edit-host-1', 'edit-1', 'broadcaster');
+    const viewer = await joinRoom('edit-viewer-1', 'edit-1', 'viewer');
+    const message = await postAsViewer({ host, viewer }, 'helo');
+
+    host.client.send('CHAT_MESSAGE_EDIT', { messageId: message.id, content: 'hijacked' });
+    expect((await host.client.next('ERROR')).payload.code).toBe('INVALID_ROLE');
+
+    viewer.client.send('CHAT_MESSAGE_EDIT', { messageId: message.id, content: 'hello' });
+    const edited = (await host.client.next('CHAT_MESSAGE_UPDATED')).payload.message;
+    expect(edited).toMatchObject({ id: message.id, content: 'hello' });
+    expect(edited.editedAt).toBeDefined();
+
+    [host, viewer].forEach(({ client }) => client.close());
+  });
+
+  it('lets the author and moderators delete a message, and nobody change it after', async () => {
+    const host = await joinRoom('delete-host-1', 'delete-1', 'broadcaster');
+    const viewer = await joinRoom('delete-viewer-1', 'delete-1', 'viewer');
+    const other = await joinRoom('delete-other-1', 'delete-1', 'viewer');
+    const first = await postAsViewer({ host, viewer }, 'first');
+    const second = await postAsViewer({ host, viewer }, 'second');
+
+    other.client.send('CHAT_MESSAGE_DELETE', { messageId: first.id });
+    expect((await other.client.next('ERROR')).payload.code).toBe('INVALID_ROLE');
+
+    viewer.client.send('CHAT_MESSAGE_DELETE', { messageId: first.id });
+    expect((await host.client.next('CHAT_MESSAGE_UPDATED')).payload.message).toMatchObject({
+      id: first.id,
+      content: '',
+      deleted: true,
+    });
+    await viewer.client.next('CHAT_MESSAGE_UPDATED');
+    host.client.send('CHAT_MESSAGE_DELETE', { messageId: second.id });
+    expect((await viewer.client.next('CHAT_MESSAGE_UPDATED')).payload.message).toMatchObject({
+      id: second.id,
+      deleted: true,
+    });
+
+    viewer.client.send('CHAT_MESSAGE_EDIT', { messageId: second.id, content: 'back' });
+    expect((await viewer.client.next('ERROR')).payload.code).toBe('MESSAGE_NOT_FOUND');
+
+    [host, viewer, other].forEach(({ client }) => client.close());
+  });
+});
+
+describe('slash commands', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer();
+  }, 30_000);
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  async function joinRoom(username: string, roomId: string, role: 'broadcaster' | 'viewer') {
+    const client = await connect(server, await register(server, username));
+    client.send('JOIN_ROOM', { roomId, role });
+    const user = (await client.next('ROOM_JOINED')).payload.user;
+    const chat = (content: string, attachmentIds?: string[]) =>
+      client.send('CHAT_MESSAGE', { message: { content, type: 'public', attachmentIds } });
+    return { client, user, chat };
+  }
+
+  it('leaves the moderator commands to the broadcaster and moderators', async () => {
+    const host = await joinRoom('cmd-host-1', 'cmd-1', 'broadcaster');
+    const viewer = await joinRoom('cmd-viewer-1', 'cmd-1', 'viewer');
+    const other = await joinRoom('cmd-other-1', 'cmd-1', 'viewer');
+
+    for (const command of ['/clear', '/topic hijacked', '/kick cmd-other-1']) {
+      viewer.chat(command);
+      expect((await viewer.client.next('ERROR')).payload.code).toBe('INVALID_ROLE');
+    }
+
+    host.client.send('SET_MODERATOR', { roomId: 'cmd-1', userId: viewer.user.id, moderator: true });
+    await viewer.client.next('BAN_LIST');
+    viewer.chat('/topic Movie night');
+    expect((await other.client.next('CHAT_MESSAGE_RECEIVED')).payload.message.content).toBe(
+      'cmd-viewer-1 set the topic: Movie night'
+    );
+
+    host.chat('/clear');
+    expect((await other.client.next('CHAT_CLEARED')).payload.clearedBy).toBe('cmd-host-1');
+
+    [host, viewer, other].forEach(({ client }) => client.close());
+  });
+
+  it('lets everyone use the other commands', async () => {
+    const host = await joinRoom('cmd-host-2', 'cmd-2', 'broadcaster');
+    const viewer = await joinRoom('cmd-viewer-2', 'cmd-2', 'viewer');
+
+    viewer.chat('/me waves');
+    expect((await host.client.next('CHAT_MESSAGE_RECEIVED')).payload.message).toMatchObject({
+      content: 'waves',
+      kind: 'action',
+    });
+    viewer.chat('/w cmd-host-2 psst');
+    expect((await host.client.next('CHAT_MESSAGE_RECEIVED')).payload.message).toMatchObject({
+      content: 'psst',
+      type: 'private',
+    });
+    viewer.chat('//me is not a command');
+    expect((await host.client.next('CHAT_MESSAGE_RECEIVED')).payload.message.content).toBe(
+      '/me is not a command'
+    );
+
+    [host, viewer].forEach(({ client }) => client.close());
+  });
+
+  it('lists only the commands the user may run when one is unknown', async () => {
+    const host = await joinRoom('cmd-host-3', 'cmd-3', 'broadcaster');
+    const viewer = await joinRoom('cmd-viewer-3', 'cmd-3', 'viewer');
+
+    viewer.chat('/dance');
+    const { message } = (await viewer.client.next('CHAT_MESSAGE_RECEIVED')).payload;
+    expect(message).toMatchObject({ kind: 'system', recipientId: viewer.user.id });
+    expect(message.content).toContain('/me');
+    expect(message.content).not.toContain('/clear');
+
+    host.chat('/dance');
+    expect((await host.client.next('CHAT_MESSAGE_RECEIVED')).payload.message.content).toContain(
+      '/clear'
+    );
+
+    [host, viewer].forEach(({ client }) => client.close());
+  });
+
+  it('refuses commands sent with attachments', async () => {
+    const host = await joinRoom('cmd-host-4', 'cmd-4', 'broadcaster');
+
+    host.chat('/me uploads', ['attachment-1']);
+    expect((await host.client.next('ERROR')).payload).toMatchObject({
+      code: 'INVALID_ATTACHMENT',
+      field: 'payload.message.attachmentIds',
+    });
+
+    host.client.close();
+  });
+});
+
+describe('attachments', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer();
+  }, 30_000);
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  async function joinRoom(username: string, roomId: string, role: 'broadcaster' | 'viewer') {
+    const client = await connect(server, await register(server, username));
+    client.send('JOIN_ROOM', { roomId, role });
+    const { user, resumeToken } = (await client.next('ROOM_JOINED')).payload;
+    return { client, user, resumeToken };
+  }
+
+  function upload(roomId: string, resumeToken: string, type = 'text/plain') {
+    return fetch(`${server.url}/api/rooms/${roomId}/attachments`, {
+      method: 'POST',
+      headers: { 'Content-Type': type, 'X-File-Name': 'notes.txt', 'X-Resume-Token': resumeToken },
+      body: 'some notes',
+    });
+  }
+
+  it('sends an upload once, with a message from the uploader', async () => {
+    const host = await joinRoom('file-host-1', 'file-1', 'broadcaster');
+    const viewer = await joinRoom('file-viewer-1', 'file-1', 'viewer');
+    const response = await upload('file-1', viewer.resumeToken);
+    expect(response.status).toBe(201);
+    const { id } = (await response.json()) as { id: string };
+    const attach = (sender: typeof host) =>
+      sender.client.send('CHAT_MESSAGE', {
+        message: { content: '', type: 'public', attachmentIds: [id] },
+      });
+
+    attach(host);
+    expect((await host.client.next('ERROR')).payload).toMatchObject({
+      code: 'INVALID_ATTACHMENT',
+      field: 'payload.message.attachmentIds',
+    });
+
+    attach(viewer);
+    const { message } = (await host.client.next('CHAT_MESSAGE_RECEIVED')).payload;
+    expect(message.attachments?.map((attachment) => attachment.name)).toEqual(['notes.txt']);
+    const file = await fetch(`${server.url}${message.attachments![0].url}`);
+    expect(await file.text()).toBe('some notes');
+
+    attach(viewer);
+    expect((await viewer.client.next('ERROR')).payload.code).toBe('INVALID_ATTACHMENT');
+
+    [host, viewer].forEach(({ client }) => client.close());
+  });
+
+  it('only takes uploads of allowed types from users in the room', async () => {
+    const host = await joinRoom('file-host-2', 'file-2', 'broadcaster');
+    const elsewhere = await joinRoom('file-host-3', 'file-3', 'broadcaster');
+
+    expect((await upload('file-2', elsewhere.resumeToken)).status).toBe(401);
+    expect((await upload('file-2', 'not-a-token')).status).toBe(401);
+    expect((await upload('file-2', host.resumeToken, 'text/html')).status).toBe(415);
+
+    [host, elsewhere].forEach(({ client }) => client.close());
+  });
+});
+
+describe('direct messages', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer();
+  }, 30_000);
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  async function joinRoom(username: string, roomId: string, role: 'broadcaster' | 'viewer') {
+    const client = await connect(server, await register(server, username));
+    client.send('JOIN_ROOM', { roomId, role });
+    return { client, user: (await client.next('ROOM_JOINED')).payload.user };
+  }
+
+  it('only marks messages of the conversation read', async () => {
+    const host = await joinRoom('dm-host-1', 'dm-1', 'broadcaster');
+    const viewer = await joinRoom('dm-viewer-1', 'dm-1', 'viewer');
+    const other = await joinRoom('dm-other-1', 'dm-1', 'viewer');
+    const sendTo = async (from: typeof host, content: string) => {
+      from.client.send('SEND_DIRECT_MESSAGE', { recipientId: viewer.user.id, content });
+      return (await viewer.client.next('DIRECT_MESSAGE_RECEIVED')).payload;
+    };
+
+    const first = await sendTo(host, 'one');
+    const elsewhere = await sendTo(other, 'not this one');
+    viewer.client.send('MARK_THREAD_READ', {
+      peerId: host.user.id,
+      messageId: elsewhere.message.id,
+    });
+    expect((await viewer.client.next('ERROR')).payload).toMatchObject({
+      code: 'MESSAGE_NOT_FOUND',
+      field: 'payload.messageId',
+    });
+    expect((await sendTo(host, 'two')).thread.unreadCount).toBe(2);
+
+    viewer.client.send('MARK_THREAD_READ', { peerId: host.user.id, messageId: first.message.id });
+    // Answered after the mark, so the host's next message can't overtake it
+    viewer.client.send('GET_DIRECT_MESSAGES', { peerId: host.user.id });
+    await viewer.client.next('DIRECT_MESSAGES');
+    expect((await sendTo(host, 'three')).thread.unreadCount).toBe(2);
+
+    [host, viewer, other].forEach(({ client }) => client.close());
+  });
+
+  it('pages back through a conversation', async () => {
+    const host = await joinRoom('dm-host-2', 'dm-2', 'broadcaster');
+    const viewer = await joinRoom('dm-viewer-2', 'dm-2', 'viewer');
+    const sent = [];
+    for (const content of ['one', 'two', 'three']) {
+      host.client.send('SEND_DIRECT_MESSAGE', { recipientId: viewer.user.id, content });
+      sent.push((await viewer.client.next('DIRECT_MESSAGE_RECEIVED')).payload.message);
+    }
+    const contents = (messages: { content: string }[]) => messages.map((m) => m.content);
+
+    viewer.client.send('GET_DIRECT_MESSAGES', { peerId: host.user.id, limit: 2 });
+    const recent = (await viewer.client.next('DIRECT_MESSAGES')).payload;
+    expect(contents(recent.messages)).toEqual(['two', 'three']);
+    expect(recent.hasMore).toBe(true);
+
+    viewer.client.send('GET_DIRECT_MESSAGES', {
+      peerId: host.user.id,
+      before: sent[1].id,
+      limit: 2,
+    });
+    const older = (await viewer.client.next('DIRECT_MESSAGES')).payload;
+    expect(contents(older.messages)).toEqual(['one']);
+    expect(older).toMatchObject({ before: sent[1].id, hasMore: false });
+
+    [host, viewer].forEach(({ client }) => client.close());
+  });
+});
+
+describe('several nodes sharing redis', () => {
+  let redis: FakeRedis;
+  let a: TestServer;
+  let b: TestServer;
+
+  beforeAll(async () => {
+    redis = await startFakeRedis();
+    const env = {
+      ADAPTER: 'redis',
+      STORAGE: 'redis',
+      REDIS_URL: redis.url,
+      SESSION_GRACE_PERIOD_MS: '500',
+    };
+    // One at a time, as each takes most of the CPU while starting
+    a = await startServer(env);
+    b = await startServer(env);
+  }, 60_000);
+
+  afterAll(async () => {
+    await a?.stop();
+    await b?.stop();
+    await redis?.close();
+  });
+
+  // Accounts are shared too, so it doesn't matter which node they are created on
+  async function joinRoom(
+    server: TestServer,
+    username: string,
+    roomId: string,
+    role: 'broadcaster' | 'viewer'
+  ) {
+    const client = await connect(server, await register(a, username));
+    client.send('JOIN_ROOM', { roomId, role });
+    return client;
+  }
+
+  it('lets viewers join a room opened on another node and chat across nodes', async () => {
+    const broadcaster = await joinRoom(a, 'host-1', 'shared-1', 'broadcaster');
+    await broadcaster.next('ROOM_JOINED');
+
+    const viewer = await joinRoom(b, 'viewer-1', 'shared-1', 'viewer');
+    const joined = (await viewer.next('ROOM_JOINED')).payload;
+    expect(joined.room.users.map((user) => user.username)).toEqual(['host-1', 'viewer-1']);
+    expect((await broadcaster.next('USER_JOINED')).payload.user.username).toBe('viewer-1');
+
+    viewer.send('CHAT_MESSAGE', {
+      message: { content: 'hello', type: 'public', roomId: 'shared-1' },
+    });
+    expect((await broadcaster.next('CHAT_MESSAGE_RECEIVED')).payload.message.content).toBe('hello');
+
+    [viewer, broadcaster].forEach((client) => client.close());
+  });
+
+  it('tells viewers on another node about a stream that is already running', async () => {
+    const broadcaster = await joinRoom(a, 'host-2', 'shared-2', 'broadcaster');
+    const { user } = (await broadcaster.next('ROOM_JOINED')).payload;
+    broadcaster.send('STREAM_READY', { roomId: 'shared-2', userId: user.id });
+
+    // The stream is announced through the shared store, so give it a moment to get there
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const viewer = await joinRoom(b, 'viewer-2', 'shared-2', 'viewer');
+    await viewer.next('ROOM_JOINED');
+    expect((await viewer.next('BROADCASTER_READY')).payload.broadcaster.id).toBe(user.id);
+
+    [viewer, broadcaster].forEach((client) => client.close());
+  });
+
+  it('keeps a session resumed on another node', async () => {
+    const broadcaster = await joinRoom(a, 'host-3', 'shared-3', 'broadcaster');
+    await broadcaster.next('ROOM_JOINED');
+    const token = await register(a, 'viewer-3');
+    const viewer = await connect(b, token);
+    viewer.send('JOIN_ROOM', { roomId: 'shared-3', role: 'viewer' });
+    const { resumeToken } = (await viewer.next('ROOM_JOINED')).payload;
+
+    // Dropped on b, back on a; b's grace period runs out meanwhile
+    viewer.close();
+    const resumed = await connect(a, token);
+    resumed.send('RESUME_SESSION', { token: resumeToken });
+    expect((await resumed.next('SESSION_RESUMED')).payload.user.username).toBe('viewer-3');
+
+    await expect(broadcaster.next('USER_LEFT', 1_500)).rejects.toThrow('No USER_LEFT');
+    resumed.send('CHAT_MESSAGE', {
+      message: { content: 'back', type: 'public', roomId: 'shared-3' },
+    });
+    expect((await broadcaster.next('CHAT_MESSAGE_RECEIVED')).payload.message.content).toBe('back');
+
+    [resumed, broadcaster].forEach((client) => client.close());
+  }, 15_000);
+});
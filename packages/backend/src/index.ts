@@ -2,98 +2,208 @@ import express from 'express';
 import { createServer } from 'http';
 import { WebSocket, WebSocketServer } from 'ws';
 import cors from 'cors';
+import { randomBytes } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import type {
-  WSMessage,
+  AccountInfo,
+  ErrorPayload,
   User,
   Room,
-  JoinRoomPayload,
-  RTCSignalPayload,
-  RoomJoinedPayload,
-  UserJoinedPayload,
-  UserLeftPayload,
-  RoomStatePayload,
-  ErrorPayload,
+  RoomDetails,
+  RoomInvite,
+  RoomMute,
+  ViewerStats,
+  RoomStats,
   ChatMessage,
-  ChatMessagePayload,
+  ChatCommand,
+  MessagePage,
+  DirectMessage,
+  DirectThread,
+  SessionDescriptionData,
+  IceCandidateData,
+  ClientMessage,
+  ClientMessageType,
+  ClientPayloadMap,
+  ServerMessage,
+  ServerMessageType,
+  ServerPayloadMap,
 } from '@vestream/shared';
+import {
+  MAX_MESSAGE_PAGE_SIZE,
+  MAX_TOPIC_LENGTH,
+  SFU_USER_ID,
+  credentialsSchema,
+  parseClientMessage,
+} from '@vestream/shared';
+import {
+  type MessageQuery,
+  type StoredDirectThread,
+  createStoreFromEnv,
+  getDirectThreadId,
+} from './storage/index.js';
+import { createAdapterFromEnv } from './adapter/index.js';
+import { createTokenSignerFromEnv, hashPassword, verifyPassword } from './auth/index.js';
+import {
+  type ConnectionLimiter,
+  type TokenBucket,
+  createConnectionLimiter,
+  createLimitsConfigFromEnv,
+  createTokenBucket,
+} from './limits/index.js';
+import {
+  type StoredAttachment,
+  createAttachmentLimitsFromEnv,
+  createAttachmentStoreFromEnv,
+  toAttachment,
+} from './attachments/index.js';
+import { createSfuFromEnv } from './sfu/index.js';
 
 const app = express();
 const server = createServer(app);
-const wss = new WebSocketServer({ server });
+const limits = createLimitsConfigFromEnv();
+// Larger frames are refused by ws, which closes the connection with 1009
+const wss = new WebSocketServer({ noServer: true, maxPayload: limits.maxPayloadBytes });
 
 // Middleware
 app.use(cors());
 app.use(express.json());
 
-// In-memory storage
-const rooms = new Map<string, Room>();
-const users = new Map<string, User>();
+// Rooms, users, sessions and chat history live in the store; sockets and timers are per-process
+const store = await createStoreFromEnv();
+const tokens = createTokenSignerFromEnv();
 const connections = new Map<string, WebSocket>();
-const activeStreams = new Map<string, boolean>(); // roomId -> hasActiveStream
-const chatMessages = new Map<string, ChatMessage[]>(); // roomId -> messages
+const viewerStats = new Map<string, Map<string, ViewerStats>>(); // roomId -> viewerId -> last report
+const removalTimers = new Map<string, NodeJS.Timeout>(); // userId -> pending removal
+const attachments = createAttachmentStoreFromEnv();
+const attachmentLimits = createAttachmentLimitsFromEnv();
+const uploadBuckets = new Map<string, TokenBucket>(); // userId -> upload budget
+
+// Uploads go to disk, so each user gets a few at once and one more every 5 seconds
+const UPLOAD_RATE = { burst: 5, perSecond: 0.2 };
+
+// How long a disconnected user's slot (role, username, broadcaster seat) is held for RESUME_SESSION
+const SESSION_GRACE_PERIOD_MS = Number(process.env.SESSION_GRACE_PERIOD_MS) || 30_000;
+
+// Half-open TCP connections never report a close, so every socket is pinged each interval and
+// terminated when the pong doesn't come back in time; its user then goes through the normal close path
+const HEARTBEAT_INTERVAL_MS = Number(process.env.HEARTBEAT_INTERVAL_MS) || 30_000;
+const HEARTBEAT_TIMEOUT_MS = Number(process.env.HEARTBEAT_TIMEOUT_MS) || 10_000;
+
+// A typing indicator ends by itself unless TYPING_START is repeated within this time;
+// clients repeat it every few seconds while the user keeps typing
+const TYPING_TIMEOUT_MS = 6_000;
+const typingTimers = new Map<string, NodeJS.Timeout>(); // userId -> pending TYPING_STOP
+
+// Per-socket state shared by the message handlers
+interface Connection {
+  ws: WebSocket;
+  account?: AccountInfo; // set when the handshake carried a valid token; guests have none
+  userId?: string;
+}
+
+type MessageHandler<T extends ClientMessageType> = (
+  connection: Connection,
+  payload: ClientPayloadMap[T],
+  type: T
+) => void | Promise<void>;
+
+const handlers: { [K in ClientMessageType]?: MessageHandler<K> } = {};
+
+// Register the handler for a client message type
+function on<T extends ClientMessageType>(type: T, handler: MessageHandler<T>) {
+  handlers[type] = handler as (typeof handlers)[T];
+}
+
+function dispatch(connection: Connection, message: ClientMessage) {
+  const handler = handlers[message.type] as MessageHandler<typeof message.type> | undefined;
+  Promise.resolve(handler?.(connection, message.payload, message.type)).catch((error) => {
+    console.error(`Error handling ${message.type}:`, error);
+  });
+}
 
 // Helper function to send WebSocket messages
-function sendMessage(ws: WebSocket, message: WSMessage) {
+function sendMessage(ws: WebSocket, message: ServerMessage) {
   ws.send(JSON.stringify(message));
 }
 
-function broadcastToRoom(roomId: string, message: WSMessage, excludeUser?: string) {
-  const room = rooms.get(roomId);
-  if (!room) return;
+function createMessage<T extends ServerMessageType>(type: T, payload: ServerPayloadMap[T]) {
+  return { type, payload, timestamp: new Date().toISOString() } as ServerMessage;
+}
 
-  const userIds = [...(room.broadcaster ? [room.broadcaster] : []), ...room.viewers];
-  userIds.forEach((userId) => {
-    if (excludeUser && userId === excludeUser) return;
-    const userWs = connections.get(userId);
-    if (userWs) {
-      sendMessage(userWs, message);
-    }
-  });
+// Reply on a specific socket, e.g. to a client that has not joined a room yet
+function send<T extends ServerMessageType>(ws: WebSocket, type: T, payload: ServerPayloadMap[T]) {
+  sendMessage(ws, createMessage(type, payload));
+}
+
+// Fan-out goes through the adapter so it reaches users connected to other nodes
+const adapter = createAdapterFromEnv((userId, message) => {
+  const userWs = connections.get(userId);
+  if (userWs) {
+    sendMessage(userWs, message);
+  }
+});
+
+// Forwards media in sfu rooms; its answers reach the user like any other signal
+const sfu = createSfuFromEnv((roomId, userId, answer) => {
+  sendToUser(userId, 'ANSWER', { sender: SFU_USER_ID, receiver: userId, roomId, data: answer });
+});
+
+function sendToUser<T extends ServerMessageType>(
+  userId: string,
+  type: T,
+  payload: ServerPayloadMap[T]
+) {
+  adapter.sendToUser(userId, createMessage(type, payload));
+}
+
+function broadcastToRoom<T extends ServerMessageType>(
+  roomId: string,
+  type: T,
+  payload: ServerPayloadMap[T],
+  excludeUser?: string
+) {
+  adapter.broadcastToRoom(roomId, createMessage(type, payload), excludeUser);
 }
 
 function isUsernameTaken(roomId: string, username: string): boolean {
-  const room = rooms.get(roomId);
+  const room = store.getRoom(roomId);
   if (!room) return false;
 
-  const usersInRoom = Array.from(users.values()).filter(user => user.roomId === roomId);
+  const usersInRoom = store.listUsers(roomId);
   return usersInRoom.some(user => user.username.toLowerCase() === username.toLowerCase());
 }
 
 // Helper to notify a new viewer about active broadcaster
 function notifyViewerOfBroadcaster(roomId: string, viewerId: string) {
-  const room = rooms.get(roomId);
+  const room = store.getRoom(roomId);
   if (!room || !room.broadcaster) return;
-  
-  const broadcaster = users.get(room.broadcaster);
-  const viewerWs = connections.get(viewerId);
-  
-  if (broadcaster && viewerWs) {
+
+  const broadcaster = store.getUser(room.broadcaster);
+
+  if (broadcaster) {
     console.log(`Notifying viewer ${viewerId} about broadcaster ${broadcaster.id} in room ${roomId}`);
-    sendMessage(viewerWs, {
-      type: 'BROADCASTER_READY',
-      payload: {
-        broadcaster: broadcaster,
-      },
-      timestamp: new Date().toISOString(),
-    });
+    sendToUser(viewerId, 'BROADCASTER_READY', { broadcaster });
+    const state = store.getRoomStream(roomId)?.mediaState;
+    if (state) {
+      sendToUser(viewerId, 'MEDIA_STATE', { roomId, userId: broadcaster.id, state });
+    }
   }
 }
 
 // Helper function to get room with user details
-function getRoomWithUsers(roomId: string) {
-  const room = rooms.get(roomId);
+function getRoomWithUsers(roomId: string): RoomDetails | null {
+  const room = store.getRoom(roomId);
   if (!room) return null;
 
   // Collect all users in the room
   const roomUsers: User[] = [];
   if (room.broadcaster) {
-    const broadcaster = users.get(room.broadcaster);
+    const broadcaster = store.getUser(room.broadcaster);
     if (broadcaster) roomUsers.push(broadcaster);
   }
-  
+
   room.viewers.forEach(viewerId => {
-    const viewer = users.get(viewerId);
+    const viewer = store.getUser(viewerId);
     if (viewer) roomUsers.push(viewer);
   });
 
@@ -103,10 +213,231 @@ function getRoomWithUsers(roomId: string) {
   };
 }
 
-// Function to get recent chat messages for a room
-function getRoomMessages(roomId: string, limit = 50) {
-  const messages = chatMessages.get(roomId) || [];
-  return messages.slice(-limit); // Return only the most recent messages
+// Private and password-protected rooms only admit users with the password or an invite
+function isRoomLocked(room: Room) {
+  return Boolean(room.private || room.hasPassword);
+}
+
+function findUsableInvite(token: string, roomId: string): RoomInvite | undefined {
+  const invite = store.getInvite(token);
+  if (!invite || invite.roomId !== roomId) return undefined;
+  if (Date.parse(invite.expiresAt) <= Date.now()) return undefined;
+  if (invite.maxUses !== undefined && invite.uses >= invite.maxUses) return undefined;
+  return invite;
+}
+
+function isModerator(room: Room, userId: string) {
+  return room.broadcaster === userId || Boolean(room.moderators?.includes(userId));
+}
+
+// The mute keeping a user from chatting, if any; timeouts that have run out don't count
+function getActiveMute(room: Room, userId: string): RoomMute | undefined {
+  return room.mutes?.find(
+    (mute) => mute.userId === userId && (!mute.until || Date.parse(mute.until) > Date.now())
+  );
+}
+
+// Replace a user's mute, dropping timeouts that have run out along the way
+function setMute(room: Room, userId: string, mute?: RoomMute) {
+  const mutes = (room.mutes ?? []).filter(
+    (m) => m.userId !== userId && getActiveMute(room, m.userId) === m
+  );
+  room.mutes = mute ? [...mutes, mute] : mutes;
+  store.saveRoom(room);
+}
+
+// Account holders are banned by account id, guests by username
+function isBanned(roomId: string, username: string, accountId?: string) {
+  return store
+    .listBans(roomId)
+    .some((ban) =>
+      accountId
+        ? ban.userId === accountId
+        : ban.guest && ban.username.toLowerCase() === username.toLowerCase()
+    );
+}
+
+// Moderators see the ban list; send it whenever it may have changed for them
+function sendBanList(roomId: string) {
+  const room = store.getRoom(roomId);
+  if (!room) return;
+
+  const bans = store.listBans(roomId);
+  [room.broadcaster, ...(room.moderators ?? [])].forEach((userId) => {
+    if (userId) sendToUser(userId, 'BAN_LIST', { roomId, bans });
+  });
+}
+
+// One page of a room's chat history, the most recent messages unless the query has a cursor,
+// which has to be in the history. Private messages only reach the user they were sent to or
+// from, and none without a user
+function getMessagePage(roomId: string, { limit = 50, ...query }: MessageQuery = {}): MessagePage {
+  // One message more than asked for tells whether the history goes on beyond the page
+  const messages = store.getMessages(roomId, { ...query, limit: limit + 1 });
+  const hasMore = messages.length > limit;
+  if (hasMore) {
+    // Forward pages run oldest first from the cursor, the others end at the newest message
+    messages.splice(query.after !== undefined ? limit : 0, 1);
+  }
+
+  return { messages, total: store.countMessages(roomId, query.visibleTo), hasMore };
+}
+
+// Messages sent after the given one; falls back to the recent history if it is unknown
+function getMessagesSince(roomId: string, userId: string, lastMessageId?: string) {
+  return lastMessageId
+    ? store.getMessages(roomId, {
+        after: lastMessageId,
+        limit: MAX_MESSAGE_PAGE_SIZE,
+        visibleTo: userId,
+      })
+    : getMessagePage(roomId, { visibleTo: userId }).messages;
+}
+
+// A direct thread from one participant's point of view
+function toDirectThread(thread: StoredDirectThread, userId: string): DirectThread {
+  const peer = thread.participants.find((participant) => participant.id !== userId)!;
+  const lastRead = thread.lastRead[userId];
+  const unread = store
+    .getDirectMessages(thread.id, { after: lastRead, limit: MAX_MESSAGE_PAGE_SIZE })
+    .filter((message) => message.senderId !== userId);
+
+  return {
+    peer,
+    lastMessage: store.getDirectMessages(thread.id, { limit: 1 })[0],
+    unreadCount: unread.length,
+  };
+}
+
+// The user's conversations, most recently active first
+function sendDirectThreads(ws: WebSocket, userId: string) {
+  const threads = store
+    .listDirectThreads(userId)
+    .map((thread) => toDirectThread(thread, userId))
+    .sort((a, b) => (b.lastMessage?.timestamp ?? '').localeCompare(a.lastMessage?.timestamp ?? ''));
+  send(ws, 'DIRECT_THREADS', { threads });
+}
+
+// Issue a fresh resume token for a connected user, revoking the previous one
+function issueResumeToken(userId: string): string {
+  clearTimeout(removalTimers.get(userId));
+  removalTimers.delete(userId);
+
+  const resumeToken = randomBytes(32).toString('base64url');
+  store.saveSession({ userId, resumeToken });
+  return resumeToken;
+}
+
+// Tell the room that the user stopped typing, if they were
+function stopTyping(userId: string) {
+  const timer = typingTimers.get(userId);
+  if (!timer) return;
+  clearTimeout(timer);
+  typingTimers.delete(userId);
+
+  const user = store.getUser(userId);
+  if (user) {
+    const payload = { roomId: user.roomId, userId, username: user.username };
+    broadcastToRoom(user.roomId, 'TYPING_STOP', payload, userId);
+  }
+}
+
+// Remove a user from their room for good and tell everyone else
+function removeUser(userId: string) {
+  stopTyping(userId);
+  const user = store.getUser(userId);
+  if (user) {
+    // If it's a broadcaster, their stream ends with them
+    if (user.role === 'broadcaster') {
+      store.deleteRoomStream(user.roomId);
+      viewerStats.delete(user.roomId);
+    } else {
+      viewerStats.get(user.roomId)?.delete(userId);
+    }
+    sfu.removeUser(user.roomId, userId);
+
+    const room = store.getRoom(user.roomId);
+    if (room) {
+      if (user.role === 'broadcaster') {
+        room.broadcaster = undefined;
+      } else {
+        room.viewers = room.viewers.filter((id) => id !== userId);
+      }
+      // Guest ids don't come back, so their mutes, moderator status and conversations can go
+      if (user.guest) {
+        room.moderators = room.moderators?.filter((id) => id !== userId);
+        room.mutes = room.mutes?.filter((mute) => mute.userId !== userId);
+        store.listDirectThreads(userId).forEach((thread) => store.deleteDirectThread(thread.id));
+      }
+      store.saveRoom(room);
+      store.deleteUser(userId);
+      adapter.removeMember(user.roomId, userId);
+
+      // Notify others in the room about the user leaving and send updated room state
+      const roomWithUsers = getRoomWithUsers(user.roomId);
+      broadcastToRoom(
+        user.roomId,
+        'USER_LEFT',
+        {
+          user,
+          room: roomWithUsers,
+        },
+        userId
+      );
+
+      // Remove empty rooms and their chat history
+      if (!room.broadcaster && room.viewers.length === 0) {
+        store.deleteRoom(user.roomId);
+        attachments.deleteRoom(user.roomId);
+        sfu.closeRoom(user.roomId);
+      } else if (roomWithUsers) {
+        // Send updated room state
+        broadcastToRoom(user.roomId, 'ROOM_STATE', { room: roomWithUsers });
+      }
+    }
+  }
+
+  clearTimeout(removalTimers.get(userId));
+  removalTimers.delete(userId);
+  uploadBuckets.delete(userId);
+  store.deleteSession(userId);
+  store.deleteUser(userId);
+  adapter.detach(userId);
+  connections.delete(userId);
+}
+
+// Keep a disconnected user's slot until the grace period runs out
+function holdSession(userId: string) {
+  if (!store.getSession(userId)) {
+    removeUser(userId);
+    return;
+  }
+
+  clearTimeout(removalTimers.get(userId));
+  removalTimers.set(
+    userId,
+    setTimeout(async () => {
+      removalTimers.delete(userId);
+      // They may have resumed on another node, which holds their slot now
+      if (await adapter.isAttachedElsewhere(userId).catch(() => false)) return;
+      console.log(`Session for user ${userId} expired`);
+      removeUser(userId);
+    }, SESSION_GRACE_PERIOD_MS)
+  );
+}
+
+// Resolve an access token to the account it was issued for
+function authenticate(token: string): AccountInfo | undefined {
+  const claims = tokens.verify(token);
+  const account = claims ? store.getAccount(claims.sub) : undefined;
+  return account ? { id: account.id, username: account.username } : undefined;
+}
+
+function issueAuthResponse(account: AccountInfo) {
+  return {
+    token: tokens.sign({ sub: account.id, username: account.username }),
+    account: { id: account.id, username: account.username },
+  };
 }
 
 // REST endpoints
@@ -114,334 +445,1573 @@ app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok' });
 });
 
+// Create an account and sign it in
+app.post('/api/auth/register', async (req, res, next) => {
+  const result = credentialsSchema(req.body, '');
+  if (!result.success) {
+    const error: ErrorPayload = {
+      code: 'INVALID_MESSAGE',
+      message: result.message,
+      field: result.field,
+    };
+    res.status(400).json(error);
+    return;
+  }
+
+  const username = result.data.username.trim();
+  const usernameTaken: ErrorPayload = { code: 'USER_EXISTS', message: 'Username is already taken' };
+  if (store.findAccountByUsername(username)) {
+    res.status(409).json(usernameTaken);
+    return;
+  }
+
+  try {
+    const passwordHash = await hashPassword(result.data.password);
+    // Someone may have registered the same name while the password was hashing
+    if (store.findAccountByUsername(username)) {
+      res.status(409).json(usernameTaken);
+      return;
+    }
+
+    const account = { id: uuidv4(), username, passwordHash, createdAt: new Date().toISOString() };
+    store.saveAccount(account);
+    console.log(`Account ${username} registered`);
+    res.status(201).json(issueAuthResponse(account));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/auth/login', async (req, res, next) => {
+  const result = credentialsSchema(req.body, '');
+  const account = result.success
+    ? store.findAccountByUsername(result.data.username.trim())
+    : undefined;
+
+  try {
+    const valid =
+      result.success &&
+      account &&
+      (await verifyPassword(result.data.password, account.passwordHash));
+    if (!valid) {
+      const error: ErrorPayload = {
+        code: 'INVALID_CREDENTIALS',
+        message: 'Invalid username or password',
+      };
+      res.status(401).json(error);
+      return;
+    }
+
+    res.json(issueAuthResponse(account));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The account behind a request's `Authorization: Bearer <token>` header
+function getBearerAccount(req: express.Request) {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+  return scheme === 'Bearer' && token ? authenticate(token) : undefined;
+}
+
+// The account behind a Bearer token; lets clients check a stored token is still good
+app.get('/api/auth/me', (req, res) => {
+  const account = getBearerAccount(req);
+  if (!account) {
+    const error: ErrorPayload = { code: 'AUTH_REQUIRED', message: 'Missing or invalid token' };
+    res.status(401).json(error);
+    return;
+  }
+
+  res.json(account);
+});
+
 app.get('/api/rooms', (_req, res) => {
-  res.json(Array.from(rooms.values()));
+  res.json(store.listRooms().filter((room) => !room.private));
 });
 
 // Get chat messages for a room
 app.get('/api/rooms/:roomId/messages', (req, res) => {
   const { roomId } = req.params;
-  const limit = parseInt(req.query.limit as string) || 50;
-  
-  const messages = getRoomMessages(roomId, limit);
-  res.json(messages);
+  const room = store.getRoom(roomId);
+  if (room && isRoomLocked(room)) {
+    const error: ErrorPayload = { code: 'ROOM_LOCKED', message: 'Room history is not public' };
+    res.status(403).json(error);
+    return;
+  }
+
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, MAX_MESSAGE_PAGE_SIZE);
+  const before = typeof req.query.before === 'string' ? req.query.before : undefined;
+  const after = typeof req.query.after === 'string' ? req.query.after : undefined;
+  if (after !== undefined && !store.getMessage(roomId, after)) {
+    const error: ErrorPayload = {
+      code: 'MESSAGE_NOT_FOUND',
+      message: 'That message is no longer in the history',
+      field: 'after',
+    };
+    res.status(404).json(error);
+    return;
+  }
+
+  res.json(getMessagePage(roomId, { limit, before, after }));
+});
+
+// The latest connection stats of every viewer in the room, for its broadcaster only. Reports are
+// kept by the instance the viewer is connected to
+app.get('/api/rooms/:roomId/stats', (req, res) => {
+  const { roomId } = req.params;
+  const account = getBearerAccount(req);
+  if (!account) {
+    const error: ErrorPayload = { code: 'AUTH_REQUIRED', message: 'Missing or invalid token' };
+    res.status(401).json(error);
+    return;
+  }
+  const room = store.getRoom(roomId);
+  if (!room) {
+    const error: ErrorPayload = { code: 'ROOM_NOT_FOUND', message: 'Room not found' };
+    res.status(404).json(error);
+    return;
+  }
+  if (room.broadcaster !== account.id) {
+    const error: ErrorPayload = {
+      code: 'INVALID_ROLE',
+      message: "Only the room's broadcaster can see its stats",
+    };
+    res.status(403).json(error);
+    return;
+  }
+
+  const stats: RoomStats = {
+    roomId,
+    viewers: Array.from(viewerStats.get(roomId)?.values() ?? []),
+  };
+  res.json(stats);
+});
+
+// The user behind a session's resume token, for requests made outside the WebSocket
+function findSessionUser(resumeToken: string | undefined) {
+  const session = resumeToken ? store.findSessionByToken(resumeToken) : undefined;
+  return session ? store.getUser(session.userId) : undefined;
+}
+
+// X-File-Name is URI-encoded since headers can't carry most of Unicode; only the last part of
+// a path is kept
+function parseFileName(header: string | undefined) {
+  let name = '';
+  try {
+    name = decodeURIComponent(header ?? '');
+  } catch {
+    // Malformed encoding; fall back to the default name
+  }
+  name = (name.split(/[\\/]/).pop() ?? '').replace(/\p{Cc}/gu, '').trim();
+  return name.slice(0, 200) || 'file';
+}
+
+const readAttachmentBody = express.raw({ type: () => true, limit: attachmentLimits.maxBytes });
+
+// Upload a file for a chat message. The body is the file itself, Content-Type its type and
+// X-File-Name its URI-encoded name. X-Resume-Token is the uploader's session, which must be
+// in the room. Nobody else sees the file until a CHAT_MESSAGE lists it in attachmentIds
+app.post('/api/rooms/:roomId/attachments', (req, res, next) => {
+  const { roomId } = req.params;
+  const user = findSessionUser(req.get('X-Resume-Token'));
+  if (!user || user.roomId !== roomId) {
+    const error: ErrorPayload = {
+      code: 'SESSION_EXPIRED',
+      message: 'Join the room to share files in it',
+    };
+    res.status(401).json(error);
+    return;
+  }
+
+  const mimeType = (req.get('Content-Type') ?? '').split(';')[0].trim().toLowerCase();
+  if (!attachmentLimits.allowedTypes.includes(mimeType)) {
+    const error: ErrorPayload = {
+      code: 'INVALID_ATTACHMENT',
+      message: `Files of type ${mimeType || 'unknown'} can't be shared`,
+    };
+    res.status(415).json(error);
+    return;
+  }
+
+  let bucket = uploadBuckets.get(user.id);
+  if (!bucket) {
+    bucket = createTokenBucket(UPLOAD_RATE);
+    uploadBuckets.set(user.id, bucket);
+  }
+  if (!bucket.take()) {
+    const error: ErrorPayload = {
+      code: 'RATE_LIMITED',
+      message: 'Too many uploads, slow down',
+      retryAfterMs: bucket.retryAfterMs(),
+    };
+    res.status(429).json(error);
+    return;
+  }
+
+  readAttachmentBody(req, res, (bodyError?: unknown) => {
+    const data: unknown = req.body;
+    if (bodyError || !Buffer.isBuffer(data) || data.length === 0) {
+      const status = (bodyError as { status?: number } | undefined)?.status ?? 400;
+      const maxMegabytes = (attachmentLimits.maxBytes / 1024 / 1024).toFixed(1).replace(/\.0$/, '');
+      const error: ErrorPayload = {
+        code: 'INVALID_ATTACHMENT',
+        message: status === 413 ? `Files can be at most ${maxMegabytes} MB` : 'The file is empty',
+      };
+      res.status(status).json(error);
+      return;
+    }
+
+    try {
+      const id = uuidv4();
+      const attachment: StoredAttachment = {
+        id,
+        name: parseFileName(req.get('X-File-Name')),
+        mimeType,
+        size: data.length,
+        url: `/api/rooms/${encodeURIComponent(roomId)}/attachments/${id}`,
+        roomId,
+        uploadedBy: user.id,
+        uploadedAt: new Date().toISOString(),
+      };
+      attachments.save(attachment, data);
+      console.log(`User ${user.username} uploaded ${attachment.name} to room ${roomId}`);
+      res.status(201).json(toAttachment(attachment));
+    } catch (error) {
+      next(error);
+    }
+  });
+});
+
+// Files keep the type they were checked against and are never sniffed; anything but an image
+// is downloaded rather than shown
+app.get('/api/rooms/:roomId/attachments/:attachmentId', (req, res) => {
+  const { roomId, attachmentId } = req.params;
+  const attachment = attachments.get(roomId, attachmentId);
+  const data = attachment && attachments.read(roomId, attachmentId);
+  if (!attachment || !data) {
+    const error: ErrorPayload = { code: 'INVALID_ATTACHMENT', message: 'No such attachment' };
+    res.status(404).json(error);
+    return;
+  }
+
+  const disposition = attachment.mimeType.startsWith('image/') ? 'inline' : 'attachment';
+  res.set({
+    'Content-Type': attachment.mimeType,
+    'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': "default-src 'none'; sandbox",
+    'Cache-Control': 'private, max-age=86400',
+  });
+  res.send(data);
+});
+
+// WebSocket message handlers
+on('JOIN_ROOM', async (connection, payload) => {
+  const { roomId, username: guestUsername, role, allowGuests, password } = payload;
+  const { ws, account } = connection;
+
+  // Checking the password and asking the other nodes are the only asynchronous steps, so
+  // they go first and everything below runs against one consistent state
+  const passwordHash = password ? store.getRoomAccess(roomId)?.passwordHash : undefined;
+  const passwordAccepted = passwordHash ? await verifyPassword(password!, passwordHash) : false;
+  const connectedElsewhere = account ? await adapter.isAttachedElsewhere(account.id) : false;
+
+  // An account holds one slot at a time: refuse while it is in use, otherwise give it up
+  if (account && store.getUser(account.id)) {
+    if (connections.has(account.id) || connectedElsewhere) {
+      send(ws, 'ERROR', {
+        code: 'USER_EXISTS',
+        message: 'You are already in a room from another connection',
+      });
+      return;
+    }
+    removeUser(account.id);
+  }
+
+  const room = store.getRoom(roomId);
+
+  if (!room && role === 'viewer') {
+    send(ws, 'ERROR', {
+      code: 'ROOM_NOT_FOUND',
+      message: 'Room does not exist',
+    });
+    return;
+  }
+
+  // Guests may only watch, and only in rooms that let them in
+  if (!account) {
+    if (role === 'broadcaster' || !room?.allowGuests) {
+      send(ws, 'ERROR', {
+        code: 'AUTH_REQUIRED',
+        message:
+          role === 'broadcaster'
+            ? 'Sign in to broadcast'
+            : 'This room does not allow guests, please sign in',
+      });
+      return;
+    }
+
+    if (!guestUsername) {
+      send(ws, 'ERROR', {
+        code: 'INVALID_MESSAGE',
+        message: 'Must not be empty',
+        field: 'payload.username',
+      });
+      return;
+    }
+
+    // Guests can't pose as account holders
+    if (store.findAccountByUsername(guestUsername)) {
+      send(ws, 'ERROR', {
+        code: 'USER_EXISTS',
+        message: 'Username belongs to a registered account, please sign in',
+      });
+      return;
+    }
+  }
+
+  // Private and password-protected rooms need an invite or the password
+  let invite: RoomInvite | undefined;
+  if (room && isRoomLocked(room)) {
+    if (payload.invite) {
+      invite = findUsableInvite(payload.invite, roomId);
+      if (!invite) {
+        send(ws, 'ERROR', {
+          code: 'INVALID_INVITE',
+          message: 'This invite is invalid, has expired or has been used up',
+          field: 'payload.invite',
+        });
+        return;
+      }
+    } else if (!passwordAccepted) {
+      send(ws, 'ERROR', {
+        code: 'ROOM_LOCKED',
+        message: password
+          ? 'Incorrect room password'
+          : room.hasPassword
+            ? 'This room requires a password'
+            : 'This room is private, ask the broadcaster for an invite',
+        field: password ? 'payload.password' : undefined,
+      });
+      return;
+    }
+  }
+
+  const username = account ? account.username : guestUsername!;
+
+  if (room && isBanned(roomId, username, account?.id)) {
+    send(ws, 'ERROR', {
+      code: 'BANNED',
+      message: 'You are banned from this room',
+    });
+    return;
+  }
+
+  // Handle room creation for broadcaster
+  if (!room) {
+    store.saveRoom({
+      id: roomId,
+      name: `Room ${roomId}`,
+      viewers: [],
+      allowGuests: allowGuests ?? false,
+      private: payload.private ?? false,
+      mode: payload.mode ?? 'mesh',
+    });
+  } else {
+    // Check if username is taken in existing room
+    if (isUsernameTaken(roomId, username)) {
+      send(ws, 'ERROR', {
+        code: 'USER_EXISTS',
+        message: 'Username is already taken in this room',
+      });
+      return;
+    }
+
+    // Check if broadcaster exists when trying to join as broadcaster
+    if (role === 'broadcaster' && room.broadcaster) {
+      send(ws, 'ERROR', {
+        code: 'BROADCASTER_EXISTS',
+        message: 'Room already has a broadcaster',
+      });
+      return;
+    }
+  }
+
+  // Account holders keep their account id across joins; guests get a fresh one
+  const newUserId = account ? account.id : uuidv4();
+  connection.userId = newUserId;
+  const updatedRoom = store.getRoom(roomId)!;
+
+  const user: User = {
+    id: newUserId,
+    username,
+    role,
+    roomId,
+    ...(account ? {} : { guest: true }),
+  };
+
+  // Handle role assignment
+  if (role === 'broadcaster') {
+    updatedRoom.broadcaster = newUserId;
+  } else {
+    updatedRoom.viewers.push(newUserId);
+  }
+
+  if (invite) {
+    invite.uses += 1;
+    store.saveInvite(invite);
+  }
+
+  // Store user and connection
+  store.saveRoom(updatedRoom);
+  store.saveUser(user);
+  connections.set(newUserId, ws);
+  adapter.addMember(roomId, newUserId);
+  adapter.attach(newUserId, roomId);
+
+  const roomWithUsers = getRoomWithUsers(roomId)!;
+
+  // Notify user of successful join, including recent messages
+  const history = getMessagePage(roomId, { visibleTo: newUserId });
+  send(ws, 'ROOM_JOINED', {
+    room: roomWithUsers,
+    user,
+    messages: history.messages,
+    hasMoreMessages: history.hasMore,
+    resumeToken: issueResumeToken(newUserId),
+    commands: listCommands(),
+  });
+  sendDirectThreads(ws, newUserId);
+
+  if (isModerator(updatedRoom, newUserId)) {
+    send(ws, 'BAN_LIST', { roomId, bans: store.listBans(roomId) });
+  }
+
+  // If this is a viewer and there's an active broadcaster with stream
+  if (role === 'viewer' && updatedRoom.broadcaster && store.getRoomStream(roomId)?.ready) {
+    notifyViewerOfBroadcaster(roomId, newUserId);
+  }
+
+  // Notify other users in the room
+  broadcastToRoom(roomId, 'USER_JOINED', { user }, newUserId);
+
+  // Send updated room state to all users
+  broadcastToRoom(roomId, 'ROOM_STATE', { room: roomWithUsers });
+});
+
+on('RESUME_SESSION', (connection, { token, lastMessageId }) => {
+  const { ws } = connection;
+  const userId = store.findSessionByToken(token)?.userId;
+  const user = userId ? store.getUser(userId) : undefined;
+
+  if (!userId || !user) {
+    send(ws, 'ERROR', {
+      code: 'SESSION_EXPIRED',
+      message: 'Session has expired, please join the room again',
+    });
+    return;
+  }
+
+  // Only the account that owns the slot may take it over
+  if (!user.guest && user.id !== connection.account?.id) {
+    send(ws, 'ERROR', {
+      code: 'AUTH_REQUIRED',
+      message: 'Sign in as the account that joined this room to resume the session',
+    });
+    return;
+  }
+
+  // Take over the slot; a socket the server still thinks is open is superseded
+  const previousWs = connections.get(userId);
+  connection.userId = userId;
+  connections.set(userId, ws);
+  adapter.attach(userId, user.roomId);
+  if (previousWs && previousWs !== ws) {
+    previousWs.close();
+  }
+
+  console.log(`User ${user.username} resumed session in room ${user.roomId}`);
+
+  // The stream has to be renegotiated, so the broadcaster must announce it again
+  if (user.role === 'broadcaster') {
+    store.deleteRoomStream(user.roomId);
+    viewerStats.delete(user.roomId);
+  }
+  // Likewise for connections to the SFU, which the client opens again
+  sfu.removeUser(user.roomId, userId);
+
+  const roomWithUsers = getRoomWithUsers(user.roomId)!;
+  send(ws, 'SESSION_RESUMED', {
+    room: roomWithUsers,
+    user,
+    messages: getMessagesSince(user.roomId, userId, lastMessageId),
+    resumeToken: issueResumeToken(userId),
+  });
+  sendDirectThreads(ws, userId);
+
+  if (isModerator(roomWithUsers, userId)) {
+    send(ws, 'BAN_LIST', { roomId: user.roomId, bans: store.listBans(user.roomId) });
+  }
+
+  // Peers drop their stale connection to this user before renegotiating
+  broadcastToRoom(user.roomId, 'USER_RECONNECTED', { user }, userId);
+  broadcastToRoom(user.roomId, 'ROOM_STATE', { room: roomWithUsers });
+});
+
+// Leaving on purpose frees the slot right away; only dropped connections are held for a resume
+on('LEAVE_ROOM', (connection, { roomId }) => {
+  const user = connection.userId ? store.getUser(connection.userId) : undefined;
+  if (!user || user.roomId !== roomId) return;
+
+  console.log(`User ${user.username} left room ${roomId}`);
+  removeUser(user.id);
+  connection.userId = undefined;
+});
+
+// The broadcaster of the connection's room, or undefined after telling the client it isn't one
+function requireBroadcaster(connection: Connection, roomId: string): User | undefined {
+  const user = connection.userId ? store.getUser(connection.userId) : undefined;
+  if (!user || user.role !== 'broadcaster' || user.roomId !== roomId) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_ROLE',
+      message: 'Only the broadcaster can manage this room',
+    });
+    return undefined;
+  }
+  return user;
+}
+
+on('UPDATE_ROOM', async (connection, payload) => {
+  if (!requireBroadcaster(connection, payload.roomId)) return;
+
+  const passwordHash = payload.password ? await hashPassword(payload.password) : undefined;
+  const room = store.getRoom(payload.roomId);
+  if (!room) return;
+
+  if (payload.private !== undefined) {
+    room.private = payload.private;
+  }
+  if (payload.password !== undefined) {
+    store.saveRoomAccess({ roomId: room.id, passwordHash });
+    room.hasPassword = passwordHash !== undefined;
+  }
+  store.saveRoom(room);
+
+  console.log(
+    `Room ${room.id} is now ${room.private ? 'private' : 'public'}${room.hasPassword ? ' with a password' : ''}`
+  );
+  broadcastToRoom(room.id, 'ROOM_STATE', { room: getRoomWithUsers(room.id)! });
+});
+
+on('CREATE_INVITE', (connection, { roomId, expiresInMs, maxUses }) => {
+  if (!requireBroadcaster(connection, roomId)) return;
+
+  const invite: RoomInvite = {
+    token: randomBytes(16).toString('base64url'),
+    roomId,
+    expiresAt: new Date(Date.now() + expiresInMs).toISOString(),
+    maxUses,
+    uses: 0,
+  };
+  store.saveInvite(invite);
+  send(connection.ws, 'INVITE_CREATED', { invite });
+});
+
+// The moderator sending a request and their room, or undefined after telling the client it isn't one
+function requireModerator(connection: Connection, roomId: string) {
+  const moderator = connection.userId ? store.getUser(connection.userId) : undefined;
+  const room = store.getRoom(roomId);
+  if (!moderator || !room || moderator.roomId !== roomId || !isModerator(room, moderator.id)) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_ROLE',
+      message: 'Only the broadcaster and moderators can moderate this room',
+    });
+    return undefined;
+  }
+  return { moderator, room };
+}
+
+// Resolve a moderation request to the acting moderator, their room and the target,
+// or tell the client why it was refused
+function authorizeModeration(connection: Connection, roomId: string, targetId: string) {
+  const refuse = (message: string) => {
+    send(connection.ws, 'ERROR', { code: 'INVALID_ROLE', message });
+    return undefined;
+  };
+
+  const authorized = requireModerator(connection, roomId);
+  if (!authorized) return undefined;
+  const { moderator, room } = authorized;
+
+  const target = store.getUser(targetId);
+  if (!target || target.roomId !== roomId) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_MESSAGE',
+      message: 'User is not in this room',
+      field: 'payload.userId',
+    });
+    return undefined;
+  }
+  if (target.id === moderator.id) {
+    return refuse("You can't moderate yourself");
+  }
+  if (target.id === room.broadcaster) {
+    return refuse("The broadcaster can't be moderated");
+  }
+  if (isModerator(room, target.id) && moderator.id !== room.broadcaster) {
+    return refuse('Only the broadcaster can moderate moderators');
+  }
+
+  return { moderator, room, target };
+}
+
+// Remove the target from the moderator's room; they may join again
+function kickUser(moderator: User, target: User, reason?: string) {
+  console.log(`${moderator.username} kicked ${target.username} from room ${target.roomId}`);
+  sendToUser(target.id, 'MODERATION_ACTION', {
+    action: 'kick',
+    roomId: target.roomId,
+    moderator: moderator.username,
+    reason,
+  });
+  removeUser(target.id);
+}
+
+on('KICK_USER', (connection, { roomId, userId, reason }) => {
+  const authorized = authorizeModeration(connection, roomId, userId);
+  if (!authorized) return;
+  kickUser(authorized.moderator, authorized.target, reason);
+});
+
+on('BAN_USER', (connection, { roomId, userId, reason }) => {
+  const authorized = authorizeModeration(connection, roomId, userId);
+  if (!authorized) return;
+  const { moderator, target } = authorized;
+
+  store.saveBan({
+    roomId,
+    userId: target.id,
+    username: target.username,
+    ...(target.guest ? { guest: true } : {}),
+    reason,
+    bannedBy: moderator.username,
+    bannedAt: new Date().toISOString(),
+  });
+
+  console.log(`${moderator.username} banned ${target.username} from room ${roomId}`);
+  sendToUser(target.id, 'MODERATION_ACTION', {
+    action: 'ban',
+    roomId,
+    moderator: moderator.username,
+    reason,
+  });
+  removeUser(target.id);
+  sendBanList(roomId);
+});
+
+on('UNBAN_USER', (connection, { roomId, userId }) => {
+  if (!requireModerator(connection, roomId)) return;
+
+  store.deleteBan(roomId, userId);
+  sendBanList(roomId);
+});
+
+on('MUTE_USER', (connection, { roomId, userId, reason, muted }) => {
+  const authorized = authorizeModeration(connection, roomId, userId);
+  if (!authorized) return;
+  const { moderator, room, target } = authorized;
+
+  setMute(room, target.id, muted ? { userId: target.id } : undefined);
+
+  sendToUser(target.id, 'MODERATION_ACTION', {
+    action: muted ? 'mute' : 'unmute',
+    roomId,
+    moderator: moderator.username,
+    reason,
+  });
+  broadcastToRoom(roomId, 'ROOM_STATE', { room: getRoomWithUsers(roomId)! });
+});
+
+on('TIMEOUT_USER', (connection, { roomId, userId, reason, durationMs }) => {
+  const authorized = authorizeModeration(connection, roomId, userId);
+  if (!authorized) return;
+  const { moderator, room, target } = authorized;
+
+  const until = new Date(Date.now() + durationMs).toISOString();
+  setMute(room, target.id, { userId: target.id, until });
+
+  sendToUser(target.id, 'MODERATION_ACTION', {
+    action: 'timeout',
+    roomId,
+    moderator: moderator.username,
+    reason,
+    until,
+  });
+  broadcastToRoom(roomId, 'ROOM_STATE', { room: getRoomWithUsers(roomId)! });
+});
+
+on('SET_MODERATOR', (connection, { roomId, userId, moderator }) => {
+  const broadcaster = requireBroadcaster(connection, roomId);
+  const room = store.getRoom(roomId);
+  if (!broadcaster || !room || userId === broadcaster.id) return;
+
+  if (moderator && store.getUser(userId)?.roomId !== roomId) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_MESSAGE',
+      message: 'User is not in this room',
+      field: 'payload.userId',
+    });
+    return;
+  }
+
+  const moderators = (room.moderators ?? []).filter((id) => id !== userId);
+  room.moderators = moderator ? [...moderators, userId] : moderators;
+  store.saveRoom(room);
+
+  broadcastToRoom(roomId, 'ROOM_STATE', { room: getRoomWithUsers(roomId)! });
+  if (moderator) {
+    sendToUser(userId, 'BAN_LIST', { roomId, bans: store.listBans(roomId) });
+  }
+});
+
+// Whether the user is muted in their room, after telling the client so
+function rejectIfMuted(connection: Connection, user: User) {
+  const room = store.getRoom(user.roomId);
+  const mute = room && getActiveMute(room, user.id);
+  if (mute) {
+    send(connection.ws, 'ERROR', {
+      code: 'MUTED',
+      message: mute.until
+        ? `You are timed out from chat for another ${Math.ceil((Date.parse(mute.until) - Date.now()) / 1000)}s`
+        : 'You are muted in this room',
+    });
+  }
+  return Boolean(mute);
+}
+
+// Store a room chat message and deliver it: private ones to their sender and recipient only
+function deliverChatMessage(message: ChatMessage) {
+  store.appendMessage(message);
+  if (message.type === 'private') {
+    if (message.recipientId) sendToUser(message.recipientId, 'CHAT_MESSAGE_RECEIVED', { message });
+    sendToUser(message.senderId, 'CHAT_MESSAGE_RECEIVED', { message });
+  } else {
+    broadcastToRoom(message.roomId, 'CHAT_MESSAGE_RECEIVED', { message });
+  }
+}
+
+// A notice from the server in a room's chat, for everyone or only for the recipient
+function postSystemMessage(roomId: string, content: string, recipientId?: string) {
+  deliverChatMessage({
+    id: uuidv4(),
+    senderId: 'system',
+    senderUsername: 'System',
+    roomId,
+    content,
+    type: recipientId ? 'private' : 'public',
+    recipientId,
+    timestamp: new Date().toISOString(),
+    kind: 'system',
+  });
+}
+
+// Slash commands. Like message handlers they live in a registry, keyed by name, and are
+// listed to clients in ROOM_JOINED so the input can suggest them
+interface CommandContext {
+  connection: Connection;
+  user: User;
+  room: Room;
+  args: string; // everything after the name, trimmed
+}
+
+type CommandHandler = (context: CommandContext) => void;
+
+const commands = new Map<string, { info: ChatCommand; run: CommandHandler }>();
+
+// Register a command; the handler only runs for users with the command's permission
+function command(info: ChatCommand, run: CommandHandler) {
+  commands.set(info.name, { info, run });
+}
+
+function listCommands(): ChatCommand[] {
+  return Array.from(commands.values(), ({ info }) => info);
+}
+
+function runCommand(connection: Connection, user: User, name: string, args: string) {
+  const room = store.getRoom(user.roomId);
+  if (!room) return;
+
+  const registered = commands.get(name.toLowerCase());
+  if (!registered) {
+    const available = listCommands()
+      .filter((info) => info.permission === 'everyone' || isModerator(room, user.id))
+      .map((info) => `/${info.name}`);
+    postSystemMessage(
+      room.id,
+      `Unknown command /${name}. Available commands: ${available.join(', ')}`,
+      user.id
+    );
+    return;
+  }
+  if (registered.info.permission === 'moderator' && !isModerator(room, user.id)) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_ROLE',
+      message: `Only the broadcaster and moderators can use /${registered.info.name}`,
+    });
+    return;
+  }
+
+  registered.run({ connection, user, room, args });
+}
+
+// The room member named at the start of the text, and the rest of the text. Names may contain
+// spaces, so the longest one that fits wins; a leading @ is optional
+function splitUsername(roomId: string, text: string) {
+  const unprefixed = text.replace(/^@/, '');
+  const lowered = unprefixed.toLowerCase();
+  const target = store
+    .listUsers(roomId)
+    .filter((u) => {
+      const name = u.username.toLowerCase();
+      return lowered.startsWith(name) && !/^\S/.test(unprefixed.slice(name.length));
+    })
+    .sort((a, b) => b.username.length - a.username.length)[0];
+  return target && { target, rest: unprefixed.slice(target.username.length).trim() };
+}
+
+function replyUsage(user: User, usage: string) {
+  postSystemMessage(user.roomId, `Usage: ${usage}`, user.id);
+}
+
+command(
+  {
+    name: 'me',
+    usage: '/me <action>',
+    description: 'Describe what you are doing',
+    permission: 'everyone',
+  },
+  ({ connection, user, args }) => {
+    if (rejectIfMuted(connection, user)) return;
+    if (!args) return replyUsage(user, '/me <action>');
+
+    deliverChatMessage({
+      id: uuidv4(),
+      senderId: user.id,
+      senderUsername: user.username,
+      roomId: user.roomId,
+      content: args,
+      type: 'public',
+      timestamp: new Date().toISOString(),
+      kind: 'action',
+    });
+  }
+);
+
+command(
+  {
+    name: 'w',
+    usage: '/w <user> <message>',
+    description: 'Whisper to someone in the room',
+    permission: 'everyone',
+  },
+  ({ connection, user, args }) => {
+    if (rejectIfMuted(connection, user)) return;
+    const whisper = splitUsername(user.roomId, args);
+    if (!whisper || !whisper.rest || whisper.target.id === user.id) {
+      return replyUsage(user, '/w <user> <message>, to someone else in the room');
+    }
+
+    deliverChatMessage({
+      id: uuidv4(),
+      senderId: user.id,
+      senderUsername: user.username,
+      roomId: user.roomId,
+      content: whisper.rest,
+      type: 'private',
+      recipientId: whisper.target.id,
+      timestamp: new Date().toISOString(),
+    });
+  }
+);
+
+command(
+  {
+    name: 'kick',
+    usage: '/kick <user> [reason]',
+    description: 'Remove someone from the room',
+    permission: 'moderator',
+  },
+  ({ connection, user, args }) => {
+    const kick = splitUsername(user.roomId, args);
+    if (!kick) return replyUsage(user, '/kick <user> [reason]');
+
+    const authorized = authorizeModeration(connection, user.roomId, kick.target.id);
+    if (!authorized) return;
+    kickUser(authorized.moderator, authorized.target, kick.rest || undefined);
+  }
+);
+
+command(
+  {
+    name: 'clear',
+    usage: '/clear',
+    description: "Delete the room's chat history for everyone",
+    permission: 'moderator',
+  },
+  ({ user, room }) => {
+    store.clearMessages(room.id);
+    // Files go with the history, including ones uploaded for messages not sent yet
+    attachments.deleteRoom(room.id);
+
+    console.log(`${user.username} cleared the chat in room ${room.id}`);
+    broadcastToRoom(room.id, 'CHAT_CLEARED', { roomId: room.id, clearedBy: user.username });
+    postSystemMessage(room.id, `${user.username} cleared the chat`);
+  }
+);
+
+command(
+  {
+    name: 'topic',
+    usage: '/topic [text]',
+    description: "Set the room's topic, or clear it",
+    permission: 'moderator',
+  },
+  ({ user, room, args }) => {
+    if (args.length > MAX_TOPIC_LENGTH) {
+      return postSystemMessage(
+        room.id,
+        `Topics can be at most ${MAX_TOPIC_LENGTH} characters`,
+        user.id
+      );
+    }
+
+    room.topic = args || undefined;
+    store.saveRoom(room);
+    broadcastToRoom(room.id, 'ROOM_STATE', { room: getRoomWithUsers(room.id)! });
+    postSystemMessage(
+      room.id,
+      args ? `${user.username} set the topic: ${args}` : `${user.username} cleared the topic`
+    );
+  }
+);
+
+on('CHAT_MESSAGE', (connection, { message: chatMessage }) => {
+  if (!connection.userId) return;
+  const user = store.getUser(connection.userId);
+  if (!user) return;
+
+  // A leading slash runs a command; a doubled one sends the text with a single slash
+  const commandMatch = /^\/([^\s/]\S*)\s*([\s\S]*)$/.exec(chatMessage.content);
+  if (commandMatch) {
+    // Commands don't post a message of their own, so there would be nothing to attach files to
+    if (chatMessage.attachmentIds?.length) {
+      send(connection.ws, 'ERROR', {
+        code: 'INVALID_ATTACHMENT',
+        message: 'Commands cannot have attachments; send the files in a message of their own',
+        field: 'payload.message.attachmentIds',
+      });
+      return;
+    }
+    runCommand(connection, user, commandMatch[1], commandMatch[2].trim());
+    return;
+  }
+  const content = chatMessage.content.startsWith('//')
+    ? chatMessage.content.slice(1)
+    : chatMessage.content;
+  if (rejectIfMuted(connection, user)) return;
+
+  // Like /w, a private message goes to someone else in the sender's room
+  if (chatMessage.type === 'private') {
+    const recipient = store.getUser(chatMessage.recipientId!);
+    if (!recipient || recipient.id === user.id || recipient.roomId !== user.roomId) {
+      send(connection.ws, 'ERROR', {
+        code: 'USER_NOT_FOUND',
+        message: 'Private messages go to someone else in your room',
+        field: 'payload.message.recipientId',
+      });
+      return;
+    }
+  }
+
+  // Only the sender's own uploads, and only ones that haven't been sent yet
+  const attachmentIds = Array.from(new Set(chatMessage.attachmentIds ?? []));
+  const sendable = attachmentIds
+    .map((id) => attachments.get(user.roomId, id))
+    .filter((a): a is StoredAttachment => Boolean(a && a.uploadedBy === user.id && !a.messageId));
+  if (sendable.length !== attachmentIds.length) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_ATTACHMENT',
+      message: 'A file is missing or was already sent; upload it again',
+      field: 'payload.message.attachmentIds',
+    });
+    return;
+  }
+  if (!content.trim() && sendable.length === 0) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_MESSAGE',
+      message: 'Must not be empty',
+      field: 'payload.message.content',
+    });
+    return;
+  }
+
+  // Create a new message with server-generated ID and timestamp
+  const newMessage: ChatMessage = {
+    id: uuidv4(),
+    senderId: user.id,
+    senderUsername: user.username,
+    roomId: user.roomId,
+    content,
+    type: chatMessage.type,
+    recipientId: chatMessage.recipientId,
+    timestamp: new Date().toISOString(),
+    attachments: sendable.length > 0 ? sendable.map(toAttachment) : undefined,
+  };
+
+  deliverChatMessage(newMessage);
+  sendable.forEach((attachment) => attachments.update({ ...attachment, messageId: newMessage.id }));
+  stopTyping(user.id);
+
+  console.log(`Chat message from ${user.username} in room ${user.roomId}: ${content}`);
+});
+
+// Most different emoji one message can collect
+const MAX_REACTIONS_PER_MESSAGE = 20;
+
+// The user and the message in their room that a chat action targets, or undefined after
+// telling the client there is no such message
+function findTargetMessage(connection: Connection, messageId: string) {
+  const user = connection.userId ? store.getUser(connection.userId) : undefined;
+  if (!user) return undefined;
+
+  const message = store.getMessage(user.roomId, messageId);
+  const visible =
+    message?.type !== 'private' || message.senderId === user.id || message.recipientId === user.id;
+  if (!message || !visible || message.deleted) {
+    send(connection.ws, 'ERROR', {
+      code: 'MESSAGE_NOT_FOUND',
+      message: 'That message does not exist or was deleted',
+    });
+    return undefined;
+  }
+  return { user, message };
+}
+
+// Store a changed message and send it to everyone who can see it
+function updateChatMessage(message: ChatMessage) {
+  store.updateMessage(message);
+  if (message.type === 'private' && message.recipientId) {
+    sendToUser(message.senderId, 'CHAT_MESSAGE_UPDATED', { message });
+    sendToUser(message.recipientId, 'CHAT_MESSAGE_UPDATED', { message });
+  } else {
+    broadcastToRoom(message.roomId, 'CHAT_MESSAGE_UPDATED', { message });
+  }
+}
+
+on('CHAT_MESSAGE_EDIT', (connection, { messageId, content }) => {
+  const target = findTargetMessage(connection, messageId);
+  if (!target) return;
+  const { user, message } = target;
+
+  if (message.senderId !== user.id) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_ROLE',
+      message: 'Only the author can edit a message',
+    });
+    return;
+  }
+  if (rejectIfMuted(connection, user)) return;
+
+  updateChatMessage({ ...message, content, editedAt: new Date().toISOString() });
+});
+
+on('CHAT_MESSAGE_DELETE', (connection, { messageId }) => {
+  const target = findTargetMessage(connection, messageId);
+  if (!target) return;
+  const { user, message } = target;
+
+  const room = store.getRoom(user.roomId);
+  if (message.senderId !== user.id && !(room && isModerator(room, user.id))) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_ROLE',
+      message: 'Only the author, the broadcaster and moderators can delete a message',
+    });
+    return;
+  }
+
+  console.log(`User ${user.username} deleted message ${message.id} in room ${user.roomId}`);
+  // The content and files are dropped from storage too, not just hidden
+  message.attachments?.forEach((attachment) => attachments.delete(message.roomId, attachment.id));
+  updateChatMessage({
+    ...message,
+    content: '',
+    deleted: true,
+    reactions: undefined,
+    attachments: undefined,
+  });
+});
+
+on('CHAT_REACTION', (connection, { messageId, emoji, reacted }) => {
+  const target = findTargetMessage(connection, messageId);
+  if (!target) return;
+  const { user, message } = target;
+  if (rejectIfMuted(connection, user)) return;
+
+  const reactions = message.reactions ?? [];
+  const reaction = reactions.find((r) => r.emoji === emoji);
+  if (Boolean(reaction?.userIds.includes(user.id)) === reacted) return;
+
+  if (!reaction && reactions.length >= MAX_REACTIONS_PER_MESSAGE) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_MESSAGE',
+      message: 'This message has too many different reactions',
+    });
+    return;
+  }
+
+  const userIds = reacted
+    ? [...(reaction?.userIds ?? []), user.id]
+    : reaction!.userIds.filter((id) => id !== user.id);
+  // Reactions keep the order in which they were first used
+  const updatedReactions = reaction
+    ? reactions.map((r) => (r === reaction ? { emoji, userIds } : r))
+    : [...reactions, { emoji, userIds }];
+
+  updateChatMessage({
+    ...message,
+    reactions: updatedReactions.filter((r) => r.userIds.length > 0),
+  });
+});
+
+// Every repeat is relayed so that users who join mid-sentence see the indicator too
+on('TYPING_START', (connection, { roomId }) => {
+  const user = connection.userId ? store.getUser(connection.userId) : undefined;
+  const room = store.getRoom(roomId);
+  if (!user || user.roomId !== roomId || !room || getActiveMute(room, user.id)) return;
+
+  clearTimeout(typingTimers.get(user.id));
+  typingTimers.set(
+    user.id,
+    setTimeout(() => stopTyping(user.id), TYPING_TIMEOUT_MS)
+  );
+  const payload = { roomId, userId: user.id, username: user.username };
+  broadcastToRoom(roomId, 'TYPING_START', payload, user.id);
+});
+
+on('TYPING_STOP', (connection) => {
+  if (connection.userId) stopTyping(connection.userId);
+});
+
+// Read positions only move forward. Private messages to the user up to the new position get
+// their readAt, at most a page of them at a time, and their sender is sent the update
+on('MARK_MESSAGES_READ', (connection, { roomId, messageId }) => {
+  const user = connection.userId ? store.getUser(connection.userId) : undefined;
+  if (!user || user.roomId !== roomId) return;
+
+  const message = store.getMessage(roomId, messageId);
+  const visible =
+    message?.type !== 'private' || message.senderId === user.id || message.recipientId === user.id;
+  if (!message || !visible) return;
+
+  const previous = store.getReadPosition(roomId, user.id);
+  const previousMessage = previous && store.getMessage(roomId, previous.messageId);
+  if (previousMessage && previousMessage.timestamp >= message.timestamp) return;
+  store.saveReadPosition({ roomId, userId: user.id, messageId });
+
+  const readAt = new Date().toISOString();
+  const covered = store.getMessages(roomId, {
+    before: messageId,
+    visibleTo: user.id,
+    limit: MAX_MESSAGE_PAGE_SIZE,
+  });
+  [...covered, message]
+    .filter((m) => m.type === 'private' && m.recipientId === user.id && !m.readAt && !m.deleted)
+    .forEach((m) => updateChatMessage({ ...m, readAt }));
+});
+
+// Older (or newer) pages of the history of the room the user is in
+on('GET_CHAT_HISTORY', (connection, { roomId, before, after, limit }) => {
+  const user = connection.userId ? store.getUser(connection.userId) : undefined;
+  if (!user || user.roomId !== roomId) {
+    send(connection.ws, 'ERROR', {
+      code: 'ROOM_NOT_FOUND',
+      message: 'Join the room to read its history',
+    });
+    return;
+  }
+  // The store would answer with the most recent messages instead, which aren't what follows
+  if (after !== undefined && !store.getMessage(roomId, after)) {
+    send(connection.ws, 'ERROR', {
+      code: 'MESSAGE_NOT_FOUND',
+      message: 'That message is no longer in the history; load the most recent messages instead',
+      field: 'payload.after',
+    });
+    return;
+  }
+
+  send(connection.ws, 'CHAT_HISTORY', {
+    roomId,
+    before,
+    after,
+    ...getMessagePage(roomId, { before, after, limit, visibleTo: user.id }),
+  });
+});
+
+// Direct messages are between two users rather than within a room: a conversation starts
+// with someone in the same room and carries on wherever either of them goes next
+on('SEND_DIRECT_MESSAGE', (connection, { recipientId, content }) => {
+  if (!connection.userId) return;
+  const user = store.getUser(connection.userId);
+  if (!user) return;
+
+  const threadId = getDirectThreadId(user.id, recipientId);
+  const recipient = store.getUser(recipientId);
+  let thread = store.getDirectThread(threadId);
+  if (!thread) {
+    if (!recipient || recipient.id === user.id || recipient.roomId !== user.roomId) {
+      send(connection.ws, 'ERROR', {
+        code: 'USER_NOT_FOUND',
+        message: 'You can only start a conversation with someone in your room',
+      });
+      return;
+    }
+    thread = {
+      id: threadId,
+      participants: [
+        { id: user.id, username: user.username },
+        { id: recipient.id, username: recipient.username },
+      ],
+      lastRead: {},
+    };
+  }
+
+  const message: DirectMessage = {
+    id: uuidv4(),
+    senderId: user.id,
+    senderUsername: user.username,
+    recipientId,
+    content,
+    timestamp: new Date().toISOString(),
+  };
+  store.appendDirectMessage(threadId, message);
+  // Sending a message means the sender has read everything before it
+  thread.lastRead[user.id] = message.id;
+  store.saveDirectThread(thread);
+
+  send(connection.ws, 'DIRECT_MESSAGE_RECEIVED', {
+    message,
+    thread: toDirectThread(thread, user.id),
+  });
+  sendToUser(recipientId, 'DIRECT_MESSAGE_RECEIVED', {
+    message,
+    thread: toDirectThread(thread, recipientId),
+  });
+});
+
+// Paged like GET_CHAT_HISTORY, newest first
+on('GET_DIRECT_MESSAGES', (connection, { peerId, before, limit = 50 }) => {
+  if (!connection.userId) return;
+  const threadId = getDirectThreadId(connection.userId, peerId);
+  // One message more than asked for tells whether the conversation goes back further
+  const messages = store.getDirectThread(threadId)
+    ? store.getDirectMessages(threadId, { before, limit: limit + 1 })
+    : [];
+  const hasMore = messages.length > limit;
+  if (hasMore) messages.shift();
+  send(connection.ws, 'DIRECT_MESSAGES', { peerId, before, messages, hasMore });
+});
+
+on('MARK_THREAD_READ', (connection, { peerId, messageId }) => {
+  if (!connection.userId) return;
+  const thread = store.getDirectThread(getDirectThreadId(connection.userId, peerId));
+  if (!thread) return;
+  // A message from another thread would throw off the unread count
+  if (!store.getDirectMessage(thread.id, messageId)) {
+    send(connection.ws, 'ERROR', {
+      code: 'MESSAGE_NOT_FOUND',
+      message: 'That message is not in this conversation',
+      field: 'payload.messageId',
+    });
+    return;
+  }
+
+  thread.lastRead[connection.userId] = messageId;
+  store.saveDirectThread(thread);
+});
+
+on('STREAM_READY', (connection) => {
+  if (!connection.userId) return;
+  const user = store.getUser(connection.userId);
+  if (!user || user.role !== 'broadcaster') return;
+
+  console.log(`Broadcaster ${user.id} stream ready in room ${user.roomId}`);
+  store.saveRoomStream({ ...store.getRoomStream(user.roomId), roomId: user.roomId, ready: true });
+
+  // Notify all viewers in the room
+  const room = store.getRoom(user.roomId);
+  if (room) {
+    room.viewers.forEach((viewerId) => {
+      notifyViewerOfBroadcaster(user.roomId, viewerId);
+    });
+  }
+});
+
+on('VIEWER_READY', (connection) => {
+  if (!connection.userId) return;
+  const viewer = store.getUser(connection.userId);
+  if (!viewer || viewer.role !== 'viewer') return;
+
+  const room = store.getRoom(viewer.roomId);
+  if (!room || !room.broadcaster) return;
+  // In sfu rooms viewers get the stream from the server instead
+  if (room.mode === 'sfu') return;
+
+  // Notify broadcaster about this viewer being ready
+  sendToUser(room.broadcaster, 'VIEWER_READY', { viewer });
+});
+
+// The broadcaster switched what it sends; tell the viewers and remember it for later ones
+on('MEDIA_STATE', (connection, { roomId, state }) => {
+  const broadcaster = requireBroadcaster(connection, roomId);
+  if (!broadcaster) return;
+
+  const stream = store.getRoomStream(roomId);
+  store.saveRoomStream({ roomId, ready: stream?.ready ?? false, mediaState: state });
+  broadcastToRoom(roomId, 'MEDIA_STATE', { roomId, userId: broadcaster.id, state }, broadcaster.id);
+});
+
+// A viewer's report on its connection to the broadcaster, kept for the stats endpoint and
+// passed on to the broadcaster
+on('PEER_STATS', (connection, { roomId, stats }) => {
+  const viewer = connection.userId ? store.getUser(connection.userId) : undefined;
+  if (!viewer || viewer.role !== 'viewer' || viewer.roomId !== roomId) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_ROLE',
+      message: 'Only viewers in the room report stats',
+    });
+    return;
+  }
+
+  const report: ViewerStats = {
+    userId: viewer.id,
+    username: viewer.username,
+    stats,
+    reportedAt: new Date().toISOString(),
+  };
+  let roomStats = viewerStats.get(roomId);
+  if (!roomStats) {
+    roomStats = new Map();
+    viewerStats.set(roomId, roomStats);
+  }
+  roomStats.set(viewer.id, report);
+
+  const room = store.getRoom(roomId);
+  if (room?.broadcaster) {
+    sendToUser(room.broadcaster, 'PEER_STATS', { roomId, viewer: report });
+  }
 });
 
+// Relay a WebRTC signal to its receiver, stamping the authenticated sender. Both have to be in
+// the room the signal is for
+function relaySignal<T extends 'OFFER' | 'ANSWER' | 'ICE_CANDIDATE'>(
+  connection: Connection,
+  { receiver, roomId, data }: ClientPayloadMap[T],
+  type: T
+) {
+  if (!connection.userId) return;
+  if (receiver === SFU_USER_ID) {
+    signalSfu(connection, type, roomId, data);
+    return;
+  }
+  const sender = store.getUser(connection.userId);
+  if (sender?.roomId !== roomId || store.getUser(receiver)?.roomId !== roomId) {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_MESSAGE',
+      message: 'Signals only go to users in your room',
+    });
+    return;
+  }
+  sendToUser(receiver, type, {
+    sender: sender.id,
+    receiver,
+    roomId,
+    data,
+  } as ServerPayloadMap[T]);
+}
+
+// Hand a signal to the SFU: the broadcaster publishes to it and viewers subscribe from it.
+// It only ever answers, so there are no answers for it to take
+function signalSfu(
+  connection: Connection,
+  type: 'OFFER' | 'ANSWER' | 'ICE_CANDIDATE',
+  roomId: string,
+  data: SessionDescriptionData | IceCandidateData
+) {
+  const user = connection.userId ? store.getUser(connection.userId) : undefined;
+  if (!user || user.roomId !== roomId || store.getRoom(roomId)?.mode !== 'sfu') {
+    send(connection.ws, 'ERROR', {
+      code: 'INVALID_MESSAGE',
+      message: 'This room does not stream through the server',
+    });
+    return;
+  }
+
+  if (type === 'OFFER') {
+    // An offer is what starts a connection, so it opens the room's forwarding when needed.
+    // Rooms only close once they are gone from the store, which is checked above
+    sfu.openRoom(roomId);
+    const role = user.role === 'broadcaster' ? 'publisher' : 'subscriber';
+    sfu.handleOffer(roomId, user.id, role, data as SessionDescriptionData);
+  } else if (type === 'ICE_CANDIDATE') {
+    sfu.addIceCandidate(roomId, user.id, data as IceCandidateData);
+  }
+}
+
+on('OFFER', relaySignal);
+on('ANSWER', relaySignal);
+on('ICE_CANDIDATE', relaySignal);
+
+// Apply a rate limit: refuse the message with RATE_LIMITED, or drop a connection that keeps going
+function admit(ws: WebSocket, limiter: ConnectionLimiter, type: ClientMessageType | '*') {
+  const result = limiter.check(type);
+  if (result.allowed) return true;
+
+  if (result.abusive) {
+    console.warn(`Closing connection that keeps exceeding rate limits (${type})`);
+    ws.close(1008, 'Rate limit exceeded');
+    return false;
+  }
+
+  send(ws, 'ERROR', {
+    code: 'RATE_LIMITED',
+    message:
+      type === '*'
+        ? 'Too many messages, slow down'
+        : `Too many ${type} messages, try again in ${Math.ceil(result.retryAfterMs / 1000)}s`,
+    retryAfterMs: result.retryAfterMs,
+  });
+  return false;
+}
+
+// Ping the socket every interval and terminate it once a pong is overdue. The HEARTBEAT message
+// lets browsers, which can't see protocol pings, notice a stalled server; returns the stop function
+function startHeartbeat(ws: WebSocket) {
+  let pongTimer: NodeJS.Timeout | undefined;
+
+  const beat = () => {
+    send(ws, 'HEARTBEAT', { intervalMs: HEARTBEAT_INTERVAL_MS });
+    if (pongTimer) return;
+    ws.ping();
+    pongTimer = setTimeout(() => {
+      console.warn('Terminating connection that stopped answering pings');
+      ws.terminate();
+    }, HEARTBEAT_TIMEOUT_MS);
+  };
+
+  ws.on('pong', () => {
+    clearTimeout(pongTimer);
+    pongTimer = undefined;
+  });
+
+  beat();
+  const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+
+  return () => {
+    clearInterval(interval);
+    clearTimeout(pongTimer);
+  };
+}
+
 // WebSocket connection handling
-wss.on('connection', (ws) => {
-  console.log('New WebSocket connection');
-  let currentUserId: string | undefined;
+function handleConnection(ws: WebSocket, account?: AccountInfo) {
+  console.log(`New WebSocket connection${account ? ` for ${account.username}` : ' from a guest'}`);
+  const connection: Connection = { ws, account };
+  const limiter = createConnectionLimiter(limits);
+  const stopHeartbeat = startHeartbeat(ws);
 
   ws.on('message', (data) => {
+    // Frames still in flight after we started closing the connection
+    if (ws.readyState !== WebSocket.OPEN) return;
+
     try {
-      const message = JSON.parse(data.toString()) as WSMessage;
-      const timestamp = new Date().toISOString();
-
-      switch (message.type) {
-        case 'JOIN_ROOM': {
-          const { roomId, username, role } = message.payload as JoinRoomPayload;
-          const room = rooms.get(roomId);
-
-          // Handle room creation for broadcaster
-          if (!room) {
-            if (role === 'viewer') {
-              sendMessage(ws, {
-                type: 'ERROR',
-                payload: {
-                  code: 'ROOM_NOT_FOUND',
-                  message: 'Room does not exist',
-                } as ErrorPayload,
-                timestamp,
-              });
-              return;
-            }
-
-            // Create new room for broadcaster
-            rooms.set(roomId, {
-              id: roomId,
-              name: `Room ${roomId}`,
-              viewers: [],
-            });
-            
-            // Initialize chat messages for this room
-            chatMessages.set(roomId, []);
-          } else {
-            // Check if username is taken in existing room
-            if (isUsernameTaken(roomId, username)) {
-              sendMessage(ws, {
-                type: 'ERROR',
-                payload: {
-                  code: 'USER_EXISTS',
-                  message: 'Username is already taken in this room',
-                } as ErrorPayload,
-                timestamp,
-              });
-              return;
-            }
-
-            // Check if broadcaster exists when trying to join as broadcaster
-            if (role === 'broadcaster' && room.broadcaster) {
-              sendMessage(ws, {
-                type: 'ERROR',
-                payload: {
-                  code: 'BROADCASTER_EXISTS',
-                  message: 'Room already has a broadcaster',
-                } as ErrorPayload,
-                timestamp,
-              });
-              return;
-            }
-          }
-
-          const newUserId = uuidv4();
-          currentUserId = newUserId;
-          const updatedRoom = rooms.get(roomId)!;
-
-          const user: User = {
-            id: newUserId,
-            username,
-            role,
-            roomId,
-          };
-
-          // Handle role assignment
-          if (role === 'broadcaster') {
-            updatedRoom.broadcaster = newUserId;
-          } else {
-            updatedRoom.viewers.push(newUserId);
-          }
-
-          // Store user and connection
-          users.set(newUserId, user);
-          connections.set(newUserId, ws);
-
-          const roomWithUsers = getRoomWithUsers(roomId);
-
-          // Get recent chat messages
-          const roomMessages = getRoomMessages(roomId);
-
-          // Notify user of successful join
-          sendMessage(ws, {
-            type: 'ROOM_JOINED',
-            payload: {
-              room: roomWithUsers,
-              user,
-              messages: roomMessages, // Include recent messages
-            } as RoomJoinedPayload,
-            timestamp,
-          });
-
-          // If this is a viewer and there's an active broadcaster with stream
-          if (role === 'viewer' && updatedRoom.broadcaster && activeStreams.get(roomId)) {
-            notifyViewerOfBroadcaster(roomId, newUserId);
-          }
-
-          // Notify other users in the room
-          broadcastToRoom(
-            roomId,
-            {
-              type: 'USER_JOINED',
-              payload: {
-                user,
-              } as UserJoinedPayload,
-              timestamp,
-            },
-            newUserId
-          );
-
-          // Send updated room state to all users
-          broadcastToRoom(roomId, {
-            type: 'ROOM_STATE',
-            payload: {
-              room: roomWithUsers,
-            } as RoomStatePayload,
-            timestamp,
-          });
-          break;
-        }
-
-        case 'CHAT_MESSAGE': {
-          if (!currentUserId) return;
-          const user = users.get(currentUserId);
-          if (!user) return;
-
-          const { message: chatMessage } = message.payload as ChatMessagePayload;
-          
-          // Create a new message with server-generated ID and timestamp
-          const newMessage: ChatMessage = {
-            id: uuidv4(),
-            senderId: user.id,
-            senderUsername: user.username,
-            roomId: user.roomId,
-            content: chatMessage.content,
-            type: chatMessage.type,
-            recipientId: chatMessage.recipientId,
-            timestamp: new Date().toISOString(),
-          };
-
-          // Store the message
-          const roomMessages = chatMessages.get(user.roomId) || [];
-          roomMessages.push(newMessage);
-          chatMessages.set(user.roomId, roomMessages);
-
-          console.log(`Chat message from ${user.username} in room ${user.roomId}: ${chatMessage.content}`);
-
-          // For private messages, send only to the recipient
-          if (chatMessage.type === 'private' && chatMessage.recipientId) {
-            const recipientWs = connections.get(chatMessage.recipientId);
-            if (recipientWs) {
-              sendMessage(recipientWs, {
-                type: 'CHAT_MESSAGE_RECEIVED',
-                payload: {
-                  message: newMessage,
-                },
-                timestamp: newMessage.timestamp,
-              });
-            }
-            
-            // Also send back to the sender
-            sendMessage(ws, {
-              type: 'CHAT_MESSAGE_RECEIVED',
-              payload: {
-                message: newMessage,
-              },
-              timestamp: newMessage.timestamp,
-            });
-          } else {
-            // For public messages, broadcast to the entire room
-            broadcastToRoom(user.roomId, {
-              type: 'CHAT_MESSAGE_RECEIVED',
-              payload: {
-                message: newMessage,
-              },
-              timestamp: newMessage.timestamp,
-            });
-          }
-          break;
-        }
-
-        case 'STREAM_READY': {
-          if (!currentUserId) return;
-          const user = users.get(currentUserId);
-          if (!user || user.role !== 'broadcaster') return;
-
-          console.log(`Broadcaster ${currentUserId} stream ready in room ${user.roomId}`);
-          activeStreams.set(user.roomId, true);
-
-          // Notify all viewers in the room
-          const room = rooms.get(user.roomId);
-          if (room) {
-            room.viewers.forEach((viewerId) => {
-              notifyViewerOfBroadcaster(user.roomId, viewerId);
-            });
-          }
-          break;
-        }
-
-        case 'VIEWER_READY': {
-          if (!currentUserId) return;
-          const viewer = users.get(currentUserId);
-          if (!viewer || viewer.role !== 'viewer') return;
-
-          const room = rooms.get(viewer.roomId);
-          if (!room || !room.broadcaster) return;
-
-          // Notify broadcaster about this viewer being ready
-          const broadcasterWs = connections.get(room.broadcaster);
-          if (broadcasterWs) {
-            sendMessage(broadcasterWs, {
-              type: 'VIEWER_READY',
-              payload: {
-                viewer: viewer,
-              },
-              timestamp,
-            });
-          }
-          break;
-        }
-
-        case 'OFFER':
-        case 'ANSWER':
-        case 'ICE_CANDIDATE': {
-          if (!currentUserId) return;
-          const { receiver, roomId, data } = message.payload as RTCSignalPayload;
-          const receiverWs = connections.get(receiver);
-          if (receiverWs) {
-            sendMessage(receiverWs, {
-              type: message.type,
-              payload: {
-                sender: currentUserId,
-                receiver,
-                roomId,
-                data,
-              } as RTCSignalPayload,
-              timestamp,
-            });
-          }
-          break;
-        }
+      // Every message counts against the overall budget, malformed ones included
+      if (!admit(ws, limiter, '*')) return;
+
+      const parsed = parseClientMessage(data.toString());
+
+      // Reject malformed messages with a structured error so clients can see what went wrong
+      if (!parsed.success) {
+        console.warn('Rejected invalid message:', parsed.error);
+        send(ws, 'ERROR', parsed.error);
+        return;
       }
+
+      if (!admit(ws, limiter, parsed.message.type)) return;
+
+      dispatch(connection, parsed.message);
     } catch (error) {
       console.error('Error processing message:', error);
     }
   });
 
+  // Protocol errors such as an oversized frame; ws closes the connection itself
+  ws.on('error', (error) => {
+    console.warn('WebSocket error:', error.message);
+  });
+
   ws.on('close', () => {
-    if (currentUserId) {
-      const user = users.get(currentUserId);
-      if (user) {
-        // If it's a broadcaster, remove active stream flag
-        if (user.role === 'broadcaster') {
-          activeStreams.delete(user.roomId);
-        }
-
-        const room = rooms.get(user.roomId);
-        if (room) {
-          if (user.role === 'broadcaster') {
-            room.broadcaster = undefined;
-          } else {
-            room.viewers = room.viewers.filter((id) => id !== currentUserId);
-          }
-
-          // Notify others in the room about the user leaving and send updated room state
-          const roomWithUsers = getRoomWithUsers(user.roomId);
-          broadcastToRoom(
-            user.roomId,
-            {
-              type: 'USER_LEFT',
-              payload: {
-                user,
-                room: roomWithUsers,
-              } as UserLeftPayload,
-              timestamp: new Date().toISOString(),
-            },
-            currentUserId
-          );
-
-          // Remove empty rooms and their chat history
-          if (!room.broadcaster && room.viewers.length === 0) {
-            rooms.delete(user.roomId);
-            chatMessages.delete(user.roomId);
-          } else {
-            // Send updated room state
-            broadcastToRoom(user.roomId, {
-              type: 'ROOM_STATE',
-              payload: {
-                room: roomWithUsers,
-              } as RoomStatePayload,
-              timestamp: new Date().toISOString(),
-            });
-          }
-        }
-      }
-      users.delete(currentUserId);
-      connections.delete(currentUserId);
+    stopHeartbeat();
+    const userId = connection.userId;
+    // Skip sockets whose session has already been resumed on a newer connection
+    if (userId && connections.get(userId) === ws) {
+      stopTyping(userId);
+      connections.delete(userId);
+      adapter.detach(userId);
+      holdSession(userId);
     }
     console.log('Client disconnected');
   });
+}
+
+// Authenticate the handshake: a valid ?token= binds the socket to its account, no token
+// makes it a guest, and a bad or expired token is refused before the upgrade
+server.on('upgrade', (req, socket, head) => {
+  const token = new URL(req.url ?? '/', 'http://localhost').searchParams.get('token');
+  const account = token ? authenticate(token) : undefined;
+  if (token && !account) {
+    socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+    socket.destroy();
+    return;
+  }
+
+  wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, account));
+});
+
+// Attachments whose room is gone, e.g. after restarting with the memory storage
+attachments
+  .listRoomIds()
+  .filter((roomId) => !store.getRoom(roomId))
+  .forEach((roomId) => attachments.deleteRoom(roomId));
+
+// Users restored from storage lost their sockets in the restart; give them the grace period to
+// resume. With shared storage, those still connected to other nodes are left to them
+for (const user of store.listUsers()) {
+  if (await adapter.isAttachedElsewhere(user.id)) continue;
+  adapter.addMember(user.roomId, user.id);
+  holdSession(user.id);
+}
+
+// Flush pending writes before exiting
+['SIGINT', 'SIGTERM'].forEach((signal) => {
+  process.on(signal, async () => {
+    await store.close();
+    await adapter.close();
+    process.exit(0);
+  });
 });
 
 const PORT = process.env.PORT || 3000;
 server.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createTokenBucket } from './bucket.js';
+
+describe('createTokenBucket', () => {
+  it('allows a burst and then refuses until tokens come back', () => {
+    let time = 0;
+    const bucket = createTokenBucket({ burst: 3, perSecond: 1 }, () => time);
+
+    expect([bucket.take(), bucket.take(), bucket.take()]).toEqual([true, true, true]);
+    expect(bucket.take()).toBe(false);
+    expect(bucket.retryAfterMs()).toBe(1000);
+
+    time = 500;
+    expect(bucket.take()).toBe(false);
+    expect(bucket.retryAfterMs()).toBe(500);
+
+    time = 1000;
+    expect(bucket.take()).toBe(true);
+    expect(bucket.take()).toBe(false);
+  });
+
+  it('refills up to the burst and no further', () => {
+    let time = 0;
+    const bucket = createTokenBucket({ burst: 2, perSecond: 10 }, () => time);
+    bucket.take();
+    bucket.take();
+
+    time = 60_000;
+    expect(bucket.retryAfterMs()).toBe(0);
+    expect([bucket.take(), bucket.take(), bucket.take()]).toEqual([true, true, false]);
+  });
+});
@@ -0,0 +1,37 @@
+export interface BucketConfig {
+  burst: number; // tokens available at once
+  perSecond: number; // tokens added back per second, up to the burst
+}
+
+export interface TokenBucket {
+  take(): boolean; // false when empty
+  retryAfterMs(): number; // until the next token is available
+}
+
+export function createTokenBucket(
+  { burst, perSecond }: BucketConfig,
+  now: () => number = Date.now
+): TokenBucket {
+  let tokens = burst;
+  let updatedAt = now();
+
+  function refill() {
+    const time = now();
+    tokens = Math.min(burst, tokens + ((time - updatedAt) / 1000) * perSecond);
+    updatedAt = time;
+  }
+
+  return {
+    take: () => {
+      refill();
+      if (tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    },
+
+    retryAfterMs: () => {
+      refill();
+      return tokens >= 1 ? 0 : Math.ceil(((1 - tokens) / perSecond) * 1000);
+    },
+  };
+}
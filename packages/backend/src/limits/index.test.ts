@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_RATE_LIMITS,
+  createConnectionLimiter,
+  createLimitsConfigFromEnv,
+} from './index.js';
+
+describe('createConnectionLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('limits each message type on its own', () => {
+    const limiter = createConnectionLimiter({
+      maxPayloadBytes: 1024,
+      rates: { CHAT_MESSAGE: { burst: 1, perSecond: 1 }, TYPING_START: { burst: 1, perSecond: 1 } },
+      violations: { burst: 10, perSecond: 1 },
+    });
+
+    expect(limiter.check('CHAT_MESSAGE')).toEqual({ allowed: true });
+    expect(limiter.check('TYPING_START')).toEqual({ allowed: true });
+    expect(limiter.check('CHAT_MESSAGE')).toMatchObject({ allowed: false, abusive: false });
+  });
+
+  it('allows message types without a configured rate', () => {
+    const limiter = createConnectionLimiter({
+      maxPayloadBytes: 1024,
+      rates: {},
+      violations: { burst: 1, perSecond: 1 },
+    });
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.check('CHAT_MESSAGE').allowed).toBe(true);
+    }
+  });
+
+  it('tells when to retry and lets the message through after that', () => {
+    vi.useFakeTimers();
+    const limiter = createConnectionLimiter({
+      maxPayloadBytes: 1024,
+      rates: { CHAT_MESSAGE: { burst: 1, perSecond: 0.5 } },
+      violations: { burst: 10, perSecond: 1 },
+    });
+    limiter.check('CHAT_MESSAGE');
+
+    const refused = limiter.check('CHAT_MESSAGE');
+    expect(refused).toEqual({ allowed: false, retryAfterMs: 2000, abusive: false });
+
+    vi.advanceTimersByTime(2000);
+    expect(limiter.check('CHAT_MESSAGE')).toEqual({ allowed: true });
+  });
+
+  it('marks the connection abusive once refused messages exceed the violation budget', () => {
+    const limiter = createConnectionLimiter({
+      maxPayloadBytes: 1024,
+      rates: { '*': { burst: 1, perSecond: 0.001 } },
+      violations: { burst: 2, perSecond: 0.001 },
+    });
+    limiter.check('*');
+
+    expect(limiter.check('*')).toMatchObject({ allowed: false, abusive: false });
+    expect(limiter.check('*')).toMatchObject({ allowed: false, abusive: false });
+    expect(limiter.check('*')).toMatchObject({ allowed: false, abusive: true });
+  });
+});
+
+describe('createLimitsConfigFromEnv', () => {
+  it('uses the defaults without configuration', () => {
+    const config = createLimitsConfigFromEnv({});
+    expect(config.rates).toEqual(DEFAULT_RATE_LIMITS);
+    expect(config.maxPayloadBytes).toBe(64 * 1024);
+    expect(config.violations.burst).toBe(20);
+  });
+
+  it('merges RATE_LIMITS over the defaults', () => {
+    const config = createLimitsConfigFromEnv({
+      RATE_LIMITS: '{"CHAT_MESSAGE":{"burst":50,"perSecond":10}}',
+      RATE_LIMIT_MAX_VIOLATIONS: '5',
+    });
+    expect(config.rates.CHAT_MESSAGE).toEqual({ burst: 50, perSecond: 10 });
+    expect(config.rates.JOIN_ROOM).toEqual(DEFAULT_RATE_LIMITS.JOIN_ROOM);
+    expect(config.violations.burst).toBe(5);
+  });
+
+  it('refuses RATE_LIMITS entries that would never allow a message', () => {
+    expect(() =>
+      createLimitsConfigFromEnv({ RATE_LIMITS: '{"CHAT_MESSAGE":{"burst":0,"perSecond":1}}' })
+    ).toThrow('Invalid RATE_LIMITS entry "CHAT_MESSAGE"');
+  });
+});
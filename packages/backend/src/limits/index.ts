@@ -0,0 +1,105 @@
+import type { ClientMessageType } from '@vestream/shared';
+import { type BucketConfig, type TokenBucket, createTokenBucket } from './bucket.js';
+
+export type { BucketConfig, TokenBucket } from './bucket.js';
+export { createTokenBucket } from './bucket.js';
+
+// Rates per message type; '*' applies to all messages together, including malformed ones
+export type RateLimits = { [K in ClientMessageType | '*']?: BucketConfig };
+
+export interface LimitsConfig {
+  maxPayloadBytes: number; // larger frames close the connection
+  rates: RateLimits;
+  violations: BucketConfig; // refused messages tolerated before the connection is dropped
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  // Generous enough for a broadcaster negotiating with many viewers at once
+  '*': { burst: 200, perSecond: 50 },
+  JOIN_ROOM: { burst: 5, perSecond: 0.2 },
+  RESUME_SESSION: { burst: 5, perSecond: 0.2 },
+  CHAT_MESSAGE: { burst: 5, perSecond: 1 },
+  CHAT_MESSAGE_EDIT: { burst: 5, perSecond: 1 },
+  CHAT_MESSAGE_DELETE: { burst: 10, perSecond: 1 },
+  CHAT_REACTION: { burst: 20, perSecond: 4 },
+  TYPING_START: { burst: 5, perSecond: 1 },
+  TYPING_STOP: { burst: 5, perSecond: 1 },
+  MARK_MESSAGES_READ: { burst: 10, perSecond: 2 },
+  GET_CHAT_HISTORY: { burst: 10, perSecond: 2 },
+  SEND_DIRECT_MESSAGE: { burst: 5, perSecond: 1 },
+  GET_DIRECT_MESSAGES: { burst: 10, perSecond: 2 },
+  OFFER: { burst: 50, perSecond: 10 },
+  ANSWER: { burst: 50, perSecond: 10 },
+  MEDIA_STATE: { burst: 5, perSecond: 1 },
+  PEER_STATS: { burst: 3, perSecond: 0.5 },
+  UPDATE_ROOM: { burst: 5, perSecond: 1 },
+  CREATE_INVITE: { burst: 5, perSecond: 0.5 },
+  KICK_USER: { burst: 10, perSecond: 1 },
+  BAN_USER: { burst: 10, perSecond: 1 },
+  UNBAN_USER: { burst: 10, perSecond: 1 },
+  MUTE_USER: { burst: 10, perSecond: 1 },
+  TIMEOUT_USER: { burst: 10, perSecond: 1 },
+  SET_MODERATOR: { burst: 10, perSecond: 1 },
+};
+
+export type LimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterMs: number; abusive: boolean };
+
+export interface ConnectionLimiter {
+  check(type: ClientMessageType | '*'): LimitResult;
+}
+
+// Token buckets for one connection, created lazily per message type
+export function createConnectionLimiter({ rates, violations }: LimitsConfig): ConnectionLimiter {
+  const buckets = new Map<ClientMessageType | '*', TokenBucket>();
+  const violationBucket = createTokenBucket(violations);
+
+  return {
+    check: (type) => {
+      const config = rates[type];
+      if (!config) return { allowed: true };
+
+      let bucket = buckets.get(type);
+      if (!bucket) {
+        bucket = createTokenBucket(config);
+        buckets.set(type, bucket);
+      }
+      if (bucket.take()) return { allowed: true };
+
+      return {
+        allowed: false,
+        retryAfterMs: bucket.retryAfterMs(),
+        abusive: !violationBucket.take(),
+      };
+    },
+  };
+}
+
+function parseRateLimits(json: string): RateLimits {
+  const overrides: Record<string, BucketConfig> = JSON.parse(json);
+  Object.entries(overrides).forEach(([type, config]) => {
+    if (!(config?.burst >= 1) || !(config?.perSecond > 0)) {
+      throw new Error(
+        `Invalid RATE_LIMITS entry "${type}", expected { "burst": >= 1, "perSecond": > 0 }`
+      );
+    }
+  });
+  return overrides;
+}
+
+// Read WS_MAX_PAYLOAD_BYTES, RATE_LIMITS (JSON overrides of DEFAULT_RATE_LIMITS) and
+// RATE_LIMIT_MAX_VIOLATIONS
+export function createLimitsConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LimitsConfig {
+  return {
+    maxPayloadBytes: Number(env.WS_MAX_PAYLOAD_BYTES) || 64 * 1024,
+    rates: {
+      ...DEFAULT_RATE_LIMITS,
+      ...(env.RATE_LIMITS ? parseRateLimits(env.RATE_LIMITS) : {}),
+    },
+    violations: {
+      burst: Number(env.RATE_LIMIT_MAX_VIOLATIONS) || 20,
+      perSecond: 1,
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { createWeriftSfu } from './werift.js';
+import type { AnswerFunction, Sfu } from './types.js';
+
+export type { AnswerFunction, Sfu, SfuOptions, SfuRole } from './types.js';
+export { createWeriftSfu } from './werift.js';
+
+// Read SFU_PUBLIC_IP and SFU_PORT_RANGE ("40000-40100"); without them the SFU offers its
+// local addresses on any port, which is enough when browsers can reach it directly
+export function createSfuFromEnv(
+  onAnswer: AnswerFunction,
+  env: NodeJS.ProcessEnv = process.env
+): Sfu {
+  const portRange = env.SFU_PORT_RANGE?.split('-').map(Number);
+  if (portRange && (portRange.length !== 2 || portRange.some((port) => !Number.isInteger(port)))) {
+    throw new Error(`Invalid SFU_PORT_RANGE "${env.SFU_PORT_RANGE}", expected "min-max"`);
+  }
+  return createWeriftSfu(onAnswer, {
+    publicIp: env.SFU_PUBLIC_IP,
+    portRange: portRange as [number, number] | undefined,
+  });
+}
@@ -0,0 +1,28 @@
+import type { IceCandidateData, SessionDescriptionData } from '@vestream/shared';
+
+// The broadcaster publishes its tracks to the SFU; viewers subscribe to them
+export type SfuRole = 'publisher' | 'subscriber';
+
+// Hands the SFU's answer to an offer back to the user who made it
+export type AnswerFunction = (
+  roomId: string,
+  userId: string,
+  answer: SessionDescriptionData
+) => void;
+
+// Selective forwarding unit for rooms in sfu mode: the broadcaster uploads one stream and the
+// server sends it on to every viewer. Browsers always make the offer; the SFU only answers,
+// with its candidates already in the answer. Failures are logged rather than thrown, as the
+// browser's own connection state tells the user. Signals for rooms that aren't open are ignored.
+export interface Sfu {
+  openRoom(roomId: string): void; // no-op when it is already open
+  handleOffer(roomId: string, userId: string, role: SfuRole, offer: SessionDescriptionData): void;
+  addIceCandidate(roomId: string, userId: string, candidate: IceCandidateData): void;
+  removeUser(roomId: string, userId: string): void; // closes their connection
+  closeRoom(roomId: string): void;
+}
+
+export interface SfuOptions {
+  publicIp?: string; // advertised in addition to the local addresses, for servers behind NAT
+  portRange?: [number, number]; // UDP ports to gather candidates on
+}
@@ -0,0 +1,177 @@
+import { MediaStreamTrack, RTCPeerConnection, type RTCRtpTransceiver } from 'werift';
+import type { AnswerFunction, Sfu, SfuOptions, SfuRole } from './types.js';
+
+type Kind = 'audio' | 'video';
+
+interface SfuPeer {
+  pc: RTCPeerConnection;
+  role: SfuRole;
+  sessionId?: string; // from the o= line of the offer that opened the connection
+}
+
+interface SfuRoom {
+  // What subscribers are sent; whichever publisher connection is current writes into them
+  tracks: Record<Kind, MediaStreamTrack>;
+  peers: Map<string, SfuPeer>; // userId -> connection
+  queues: Map<string, Promise<void>>; // userId -> signals still being handled, in order
+  requestKeyframe?: () => void; // asks the publisher for a picture subscribers can start from
+  closed: boolean; // signals still queued for a closed room are dropped
+}
+
+// All subscribers get the tracks as one stream, so browsers play them together
+const STREAM_ID = 'broadcast';
+
+// A browser that starts over (rather than renegotiating) makes an offer with a new session id
+function getSessionId(sdp?: string) {
+  return sdp?.match(/^o=\S+ (\S+)/m)?.[1];
+}
+
+// SFU on werift, a WebRTC stack in plain TypeScript. Connections and tracks are in memory,
+// so a room's broadcaster and viewers have to be connected to the same node.
+export function createWeriftSfu(onAnswer: AnswerFunction, options: SfuOptions = {}): Sfu {
+  const rooms = new Map<string, SfuRoom>();
+
+  // Signals from one user are handled one at a time, so candidates wait for their offer
+  const enqueue = (room: SfuRoom, userId: string, task: () => Promise<void>) => {
+    const queued = (room.queues.get(userId) ?? Promise.resolve())
+      .then(() => (room.closed ? undefined : task()))
+      .catch((error) => console.error(`SFU error for ${userId}:`, error));
+    room.queues.set(userId, queued);
+  };
+
+  // Forward what the publisher sends into the room's tracks
+  const receiveFrom = (room: SfuRoom, pc: RTCPeerConnection) => {
+    pc.onRemoteTransceiverAdded.subscribe((transceiver) => {
+      transceiver.onTrack.subscribe((track) => {
+        const relay = room.tracks[track.kind as Kind];
+        let first = true;
+        track.onReceiveRtp.subscribe((rtp) => {
+          // Subscribers' senders carry on numbering from the previous connection's packets.
+          // They continue from the header they are given, so it is set one step back
+          if (first) {
+            const { sequenceNumber, timestamp } = rtp.header;
+            relay.onSourceChanged.execute({
+              sequenceNumber: (sequenceNumber - 1) & 0xffff,
+              timestamp: (timestamp - 1) >>> 0,
+            });
+            first = false;
+          }
+          relay.writeRtp(rtp);
+        });
+
+        if (track.kind === 'video') {
+          room.requestKeyframe = () => {
+            if (pc.connectionState !== 'connected' || track.ssrc === undefined) return;
+            // Lost requests don't matter; subscribers ask again while they have no picture
+            transceiver.receiver.sendRtcpPLI(track.ssrc).catch(() => {});
+          };
+        }
+      });
+    });
+  };
+
+  // Send the room's tracks on every transceiver the subscriber asked for
+  const sendTo = async (room: SfuRoom, transceivers: RTCRtpTransceiver[]) => {
+    for (const transceiver of transceivers) {
+      // Already sending from an earlier negotiation of the same connection
+      if (transceiver.sender.track) continue;
+      transceiver.setDirection('sendonly');
+      transceiver.sender.streamId = STREAM_ID;
+      await transceiver.sender.replaceTrack(room.tracks[transceiver.kind as Kind]);
+      // A subscriber that lost packets it can't decode past asks for a new keyframe
+      transceiver.sender.onPictureLossIndication.subscribe(() => room.requestKeyframe?.());
+    }
+  };
+
+  const createPeer = (room: SfuRoom, role: SfuRole) => {
+    const pc = new RTCPeerConnection({
+      iceAdditionalHostAddresses: options.publicIp ? [options.publicIp] : undefined,
+      icePortRange: options.portRange,
+    });
+    if (role === 'publisher') {
+      receiveFrom(room, pc);
+    }
+    // Video can only be decoded from a keyframe, so a new connection asks for one right away
+    pc.connectionStateChange.subscribe((state) => {
+      if (state === 'connected') room.requestKeyframe?.();
+    });
+    return pc;
+  };
+
+  const closePeer = (room: SfuRoom, userId: string) => {
+    const peer = room.peers.get(userId);
+    if (!peer) return;
+    void peer.pc.close();
+    room.peers.delete(userId);
+    // Until the next publisher connection sends video, there is no one to ask
+    if (peer.role === 'publisher') room.requestKeyframe = undefined;
+  };
+
+  return {
+    openRoom: (roomId) => {
+      if (rooms.has(roomId)) return;
+      rooms.set(roomId, {
+        tracks: {
+          audio: new MediaStreamTrack({ kind: 'audio' }),
+          video: new MediaStreamTrack({ kind: 'video' }),
+        },
+        peers: new Map(),
+        queues: new Map(),
+        closed: false,
+      });
+    },
+
+    handleOffer: (roomId, userId, role, offer) => {
+      const room = rooms.get(roomId);
+      if (!room || offer.type !== 'offer' || !offer.sdp) return;
+      enqueue(room, userId, async () => {
+        const sessionId = getSessionId(offer.sdp);
+        let peer = room.peers.get(userId);
+        if (!peer || peer.sessionId !== sessionId) {
+          closePeer(room, userId);
+          peer = { pc: createPeer(room, role), role, sessionId };
+          room.peers.set(userId, peer);
+        }
+
+        const { pc } = peer;
+        await pc.setRemoteDescription({ type: 'offer', sdp: offer.sdp! });
+        if (role === 'subscriber') {
+          await sendTo(room, pc.getTransceivers());
+        }
+        await pc.setLocalDescription(await pc.createAnswer());
+        onAnswer(roomId, userId, { type: 'answer', sdp: pc.localDescription!.sdp });
+      });
+    },
+
+    addIceCandidate: (roomId, userId, candidate) => {
+      // An empty candidate only marks the end of gathering
+      const room = rooms.get(roomId);
+      if (!room || !candidate.candidate) return;
+      enqueue(room, userId, async () => {
+        await room.peers.get(userId)?.pc.addIceCandidate({
+          candidate: candidate.candidate,
+          sdpMid: candidate.sdpMid ?? undefined,
+          sdpMLineIndex: candidate.sdpMLineIndex ?? undefined,
+        });
+      });
+    },
+
+    removeUser: (roomId, userId) => {
+      const room = rooms.get(roomId);
+      if (!room) return;
+      closePeer(room, userId);
+      room.queues.delete(userId);
+    },
+
+    closeRoom: (roomId) => {
+      const room = rooms.get(roomId);
+      if (!room) return;
+      room.peers.forEach((peer) => void peer.pc.close());
+      room.tracks.audio.stop();
+      room.tracks.video.stop();
+      room.requestKeyframe = undefined;
+      room.closed = true;
+      rooms.delete(roomId);
+    },
+  };
+}
@@ -0,0 +1,222 @@
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ChatMessage } from '@vestream/shared';
+import { createFileStore } from './file.js';
+
+function message(id: string, overrides: Partial<ChatMessage> = {}): ChatMessage {
+  return {
+    id,
+    senderId: 'alice',
+    senderUsername: 'alice',
+    roomId: 'room-1',
+    content: `message ${id}`,
+    type: 'public',
+    timestamp: new Date(0).toISOString(),
+    ...overrides,
+  };
+}
+
+const ids = (messages: ChatMessage[]) => messages.map((m) => m.id);
+
+describe('createFileStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'vestream-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  // Only three messages are cached, so most pages have to come from the log on disk
+  const open = () => createFileStore({ directory, cachedMessagesPerRoom: 3 });
+
+  function fillRoom(store: ReturnType<typeof open>, count: number) {
+    for (let i = 1; i <= count; i++) store.appendMessage(message(`m${i}`));
+  }
+
+  describe('paging', () => {
+    it('returns the most recent messages first', () => {
+      const store = open();
+      fillRoom(store, 10);
+      expect(ids(store.getMessages('room-1', { limit: 4 }))).toEqual(['m7', 'm8', 'm9', 'm10']);
+    });
+
+    it('pages back past the cached messages', () => {
+      const store = open();
+      fillRoom(store, 10);
+      expect(ids(store.getMessages('room-1', { before: 'm7', limit: 4 }))).toEqual([
+        'm3',
+        'm4',
+        'm5',
+        'm6',
+      ]);
+      expect(ids(store.getMessages('room-1', { before: 'm3', limit: 4 }))).toEqual(['m1', 'm2']);
+      expect(store.getMessages('room-1', { before: 'm1' })).toEqual([]);
+    });
+
+    it('pages forward from a message', () => {
+      const store = open();
+      fillRoom(store, 10);
+      expect(ids(store.getMessages('room-1', { after: 'm2', limit: 3 }))).toEqual([
+        'm3',
+        'm4',
+        'm5',
+      ]);
+    });
+
+    it('falls back to the most recent messages after an unknown message', () => {
+      const store = open();
+      fillRoom(store, 10);
+      expect(ids(store.getMessages('room-1', { after: 'unknown', limit: 2 }))).toEqual([
+        'm9',
+        'm10',
+      ]);
+      expect(store.getMessages('room-1', { before: 'unknown' })).toEqual([]);
+    });
+
+    it('leaves out private messages for other users', () => {
+      const store = open();
+      store.appendMessage(message('m1'));
+      store.appendMessage(message('m2', { type: 'private', recipientId: 'bob' }));
+      store.appendMessage(message('m3'));
+
+      expect(ids(store.getMessages('room-1', { visibleTo: 'bob' }))).toEqual(['m1', 'm2', 'm3']);
+      expect(ids(store.getMessages('room-1', { visibleTo: 'carol' }))).toEqual(['m1', 'm3']);
+      expect(store.countMessages('room-1', 'carol')).toBe(2);
+    });
+
+    it('finds messages that are no longer cached', () => {
+      const store = open();
+      fillRoom(store, 10);
+      expect(store.getMessage('room-1', 'm1')?.content).toBe('message m1');
+      expect(store.getMessage('room-1', 'unknown')).toBeUndefined();
+    });
+
+    it('reads the history back after a restart', () => {
+      const store = open();
+      fillRoom(store, 10);
+      store.close();
+
+      const reopened = open();
+      expect(reopened.countMessages('room-1')).toBe(10);
+      expect(ids(reopened.getMessages('room-1', { before: 'm3' }))).toEqual(['m1', 'm2']);
+    });
+  });
+
+  describe('log', () => {
+    const logPath = () => join(directory, 'messages', 'room-1.jsonl');
+
+    it('edits messages that are no longer cached, also after a restart', () => {
+      const store = open();
+      fillRoom(store, 10);
+      store.updateMessage(message('m2', { content: 'edited' }));
+      expect(store.getMessage('room-1', 'm2')?.content).toBe('edited');
+      expect(store.getMessages('room-1', { before: 'm3', limit: 1 })[0].content).toBe('edited');
+      store.close();
+
+      const reopened = open();
+      expect(reopened.countMessages('room-1')).toBe(10);
+      expect(reopened.getMessage('room-1', 'm2')?.content).toBe('edited');
+    });
+
+    it('drops an incomplete last line and keeps appending after it', () => {
+      const store = open();
+      fillRoom(store, 5);
+      store.close();
+      appendFileSync(logPath(), '{"id":"m6","senderId":"al');
+
+      const reopened = open();
+      expect(reopened.countMessages('room-1')).toBe(5);
+      reopened.appendMessage(message('m6'));
+      reopened.close();
+      expect(ids(open().getMessages('room-1'))).toEqual(['m1', 'm2', 'm3', 'm4', 'm5', 'm6']);
+    });
+
+    it('compacts the log once replaced versions pile up', () => {
+      const store = open();
+      fillRoom(store, 5);
+      for (let i = 1; i <= 300; i++) {
+        store.updateMessage(message('m1', { content: `edit ${i}` }));
+      }
+
+      const lines = readFileSync(logPath(), 'utf8').trim().split('\n');
+      expect(lines.length).toBeLessThanOrEqual(5 + 101);
+      expect(store.getMessage('room-1', 'm1')?.content).toBe('edit 300');
+      store.appendMessage(message('m6'));
+      store.close();
+
+      const reopened = open();
+      expect(ids(reopened.getMessages('room-1'))).toEqual(['m1', 'm2', 'm3', 'm4', 'm5', 'm6']);
+      expect(reopened.getMessage('room-1', 'm1')?.content).toBe('edit 300');
+    });
+  });
+
+  describe('deletion', () => {
+    it('replaces a deleted message in place, also after a restart', () => {
+      const store = open();
+      fillRoom(store, 10);
+      store.updateMessage(message('m2', { content: '', deleted: true }));
+      store.updateMessage(message('m9', { content: '', deleted: true }));
+      store.close();
+
+      const reopened = open();
+      const messages = reopened.getMessages('room-1');
+      expect(ids(messages)).toEqual(['m1', 'm2', 'm3', 'm4', 'm5', 'm6', 'm7', 'm8', 'm9', 'm10']);
+      expect(messages[1]).toMatchObject({ content: '', deleted: true });
+      expect(messages[8]).toMatchObject({ content: '', deleted: true });
+    });
+
+    it('removes the content of deleted messages from the log on disk', () => {
+      const store = open();
+      fillRoom(store, 3);
+      store.updateMessage(message('m2', { content: 'edited secret' }));
+      store.updateMessage(message('m2', { content: '', deleted: true }));
+
+      const log = readFileSync(join(directory, 'messages', 'room-1.jsonl'), 'utf8');
+      expect(log).not.toContain('message m2');
+      expect(log).not.toContain('edited secret');
+      expect(log.trim().split('\n')).toHaveLength(3);
+
+      store.appendMessage(message('m4'));
+      store.close();
+      expect(ids(open().getMessages('room-1'))).toEqual(['m1', 'm2', 'm3', 'm4']);
+    });
+
+    it('removes the chat log, read positions and invites with the room', () => {
+      const store = open();
+      store.saveRoom({ id: 'room-1', name: 'Room 1', viewers: [] });
+      store.saveInvite({
+        token: 'invite-1',
+        roomId: 'room-1',
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+        uses: 0,
+      });
+      fillRoom(store, 5);
+      store.saveReadPosition({ roomId: 'room-1', userId: 'bob', messageId: 'm5' });
+
+      store.deleteRoom('room-1');
+      store.close();
+
+      expect(existsSync(join(directory, 'messages', 'room-1.jsonl'))).toBe(false);
+      const reopened = open();
+      expect(reopened.getRoom('room-1')).toBeUndefined();
+      expect(reopened.getInvite('invite-1')).toBeUndefined();
+      expect(reopened.getReadPosition('room-1', 'bob')).toBeUndefined();
+      expect(reopened.getMessages('room-1')).toEqual([]);
+    });
+
+    it('clears a room history without deleting the room', () => {
+      const store = open();
+      store.saveRoom({ id: 'room-1', name: 'Room 1', viewers: [] });
+      fillRoom(store, 5);
+
+      store.clearMessages('room-1');
+      expect(store.countMessages('room-1')).toBe(0);
+      expect(store.getRoom('room-1')).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,469 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  rmSync,
+  truncateSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import type { Room, RoomBan, RoomInvite, User, ChatMessage, DirectMessage } from '@vestream/shared';
+import {
+  type Account,
+  type RoomAccess,
+  type RoomStream,
+  type Store,
+  type StoredDirectThread,
+  type StoredSession,
+  type MessageHeader,
+  type MessageQuery,
+  type ReadPosition,
+  countVisible,
+  queryMessages,
+} from './types.js';
+
+export interface FileStoreOptions {
+  directory: string;
+  cachedMessagesPerRoom: number; // tail of each chat log kept in memory, per room and per thread
+}
+
+interface PersistedState {
+  accounts: Account[];
+  rooms: Room[];
+  roomAccess: RoomAccess[];
+  invites: RoomInvite[];
+  bans: RoomBan[];
+  users: User[];
+  sessions: StoredSession[];
+  directThreads: StoredDirectThread[];
+  readPositions: ReadPosition[];
+}
+
+// Where the last version of a message is in its log, with what queries look at
+interface LogEntry extends MessageHeader {
+  offset: number; // of its line, in bytes
+  length: number; // of its line without the newline, in bytes
+}
+
+interface MessageLog<M> {
+  entries: LogEntry[]; // every message, in order
+  indexes: Map<string, number>; // message id -> index in entries
+  recent: M[]; // the messages of the last entries
+  size: number; // of the file, in bytes
+  superseded: number; // lines holding versions that were replaced since
+}
+
+// How long state changes are batched before state.json is rewritten
+const FLUSH_DELAY_MS = 100;
+
+// Replaced versions a log may hold before it is compacted, as long as they don't outnumber
+// its messages
+const MAX_SUPERSEDED_LINES = 100;
+
+function toEntry(message: ChatMessage | DirectMessage, offset: number, length: number): LogEntry {
+  const { id, senderId, recipientId } = message;
+  return {
+    id,
+    senderId,
+    recipientId,
+    type: 'type' in message ? message.type : undefined,
+    offset,
+    length,
+  };
+}
+
+// Append-only <key>.jsonl message logs in a directory. Each log's index and the tail of its
+// messages are kept in memory, so older messages are read from disk one by one.
+// An update appends the new version of the message, which takes the place of the first.
+// Deleting a message rewrites the log without its earlier versions, so the content is gone
+// from disk too; so does piling up too many replaced versions
+function createMessageLogs<M extends ChatMessage | DirectMessage>(
+  directory: string,
+  cachedMessages: number
+) {
+  mkdirSync(directory, { recursive: true });
+  const logs = new Map<string, MessageLog<M>>();
+
+  function logPath(key: string) {
+    return join(directory, `${encodeURIComponent(key)}.jsonl`);
+  }
+
+  // Index a log from disk. A crash while appending can leave a partial last line, which is
+  // cut off so the next append starts on a line of its own
+  function readLog(key: string): MessageLog<M> {
+    const log: MessageLog<M> = {
+      entries: [],
+      indexes: new Map(),
+      recent: [],
+      size: 0,
+      superseded: 0,
+    };
+    const path = logPath(key);
+    if (!existsSync(path)) return log;
+
+    const contents = readFileSync(path);
+    const messages: M[] = [];
+    let offset = 0;
+    while (offset < contents.length) {
+      const newline = contents.indexOf('\n', offset);
+      const end = newline === -1 ? contents.length : newline;
+      const line = contents.toString('utf8', offset, end);
+      const last = end >= contents.length - 1;
+      if (line.trim()) {
+        let message: M | undefined;
+        try {
+          message = JSON.parse(line) as M;
+        } catch (error) {
+          if (!last) throw error;
+        }
+        if (!message || newline === -1) {
+          console.warn(`Dropping the incomplete last line of ${path}`);
+          truncateSync(path, offset);
+          break;
+        }
+        const index = log.indexes.get(message.id);
+        const entry = toEntry(message, offset, end - offset);
+        if (index === undefined) {
+          log.indexes.set(message.id, log.entries.length);
+          log.entries.push(entry);
+          messages.push(message);
+        } else {
+          log.entries[index] = entry;
+          messages[index] = message;
+          log.superseded++;
+        }
+      }
+      offset = end + 1;
+    }
+    log.size = Math.min(offset, contents.length);
+    log.recent = messages.slice(-cachedMessages);
+    return log;
+  }
+
+  function getLog(key: string): MessageLog<M> {
+    let log = logs.get(key);
+    if (!log) {
+      log = readLog(key);
+      logs.set(key, log);
+    }
+    return log;
+  }
+
+  function write(key: string, log: MessageLog<M>, message: M) {
+    const line = JSON.stringify(message);
+    appendFileSync(logPath(key), `${line}\n`);
+    const entry = toEntry(message, log.size, Buffer.byteLength(line));
+    log.size += entry.length + 1;
+    return entry;
+  }
+
+  // The messages at the given entries, from memory for the recent ones and from disk otherwise
+  function load(key: string, log: MessageLog<M>, entries: LogEntry[]): M[] {
+    const firstRecent = log.entries.length - log.recent.length;
+    let fd: number | undefined;
+    try {
+      return entries.map((entry) => {
+        const index = log.indexes.get(entry.id)!;
+        if (index >= firstRecent) return log.recent[index - firstRecent];
+        fd ??= openSync(logPath(key), 'r');
+        const line = Buffer.alloc(entry.length);
+        readSync(fd, line, 0, entry.length, entry.offset);
+        return JSON.parse(line.toString('utf8')) as M;
+      });
+    } finally {
+      if (fd !== undefined) closeSync(fd);
+    }
+  }
+
+  // Rewrite a log with only the last version of each message, through a temporary file so
+  // a crash never leaves it truncated
+  function compact(key: string, log: MessageLog<M>) {
+    const path = logPath(key);
+    const temporaryPath = `${path}.tmp`;
+    const lines = load(key, log, log.entries).map((m) => `${JSON.stringify(m)}\n`);
+    writeFileSync(temporaryPath, lines.join(''));
+    renameSync(temporaryPath, path);
+    let offset = 0;
+    log.entries = log.entries.map((entry, index) => {
+      const length = Buffer.byteLength(lines[index]) - 1;
+      const moved = { ...entry, offset, length };
+      offset += length + 1;
+      return moved;
+    });
+    log.size = offset;
+    log.superseded = 0;
+  }
+
+  return {
+    append(key: string, message: M) {
+      const log = getLog(key);
+      log.indexes.set(message.id, log.entries.length);
+      log.entries.push(write(key, log, message));
+      log.recent.push(message);
+      if (log.recent.length > cachedMessages) log.recent.shift();
+    },
+
+    update(key: string, message: M) {
+      const log = getLog(key);
+      const index = log.indexes.get(message.id);
+      if (index === undefined) return;
+      log.entries[index] = write(key, log, message);
+      log.superseded++;
+
+      const firstRecent = log.entries.length - log.recent.length;
+      if (index >= firstRecent) log.recent[index - firstRecent] = message;
+
+      const deleted = 'deleted' in message && message.deleted;
+      if (
+        deleted ||
+        (log.superseded > MAX_SUPERSEDED_LINES && log.superseded > log.entries.length)
+      ) {
+        compact(key, log);
+      }
+    },
+
+    find(key: string, id: string): M | undefined {
+      const log = getLog(key);
+      const index = log.indexes.get(id);
+      return index === undefined ? undefined : load(key, log, [log.entries[index]])[0];
+    },
+
+    select(key: string, query: MessageQuery = {}): M[] {
+      const log = getLog(key);
+      return load(key, log, queryMessages(log.entries, query));
+    },
+
+    count(key: string, visibleTo?: string) {
+      return countVisible(getLog(key).entries, visibleTo);
+    },
+
+    remove(key: string) {
+      logs.delete(key);
+      rmSync(logPath(key), { force: true });
+    },
+  };
+}
+
+// Persists accounts, rooms, users, sessions, direct threads and read positions to state.json,
+// each room's chat to messages/<roomId>.jsonl and each direct thread to direct/<threadId>.jsonl
+// in the given directory
+export function createFileStore({ directory, cachedMessagesPerRoom }: FileStoreOptions): Store {
+  const statePath = join(directory, 'state.json');
+  const roomMessages = createMessageLogs<ChatMessage>(
+    join(directory, 'messages'),
+    cachedMessagesPerRoom
+  );
+  const directMessages = createMessageLogs<DirectMessage>(
+    join(directory, 'direct'),
+    cachedMessagesPerRoom
+  );
+
+  const state: PersistedState = existsSync(statePath)
+    ? JSON.parse(readFileSync(statePath, 'utf8'))
+    : {
+        accounts: [],
+        rooms: [],
+        roomAccess: [],
+        invites: [],
+        bans: [],
+        users: [],
+        sessions: [],
+        directThreads: [],
+        readPositions: [],
+      };
+
+  // state.json files written by older versions lack the later lists
+  const accounts = new Map((state.accounts ?? []).map((account) => [account.id, account]));
+  const accountIds = new Map(
+    Array.from(accounts.values()).map((account) => [account.username.toLowerCase(), account.id])
+  );
+  const rooms = new Map(state.rooms.map((room) => [room.id, room]));
+  const roomAccess = new Map((state.roomAccess ?? []).map((access) => [access.roomId, access]));
+  const invites = new Map((state.invites ?? []).map((invite) => [invite.token, invite]));
+  const bans = new Map<string, Map<string, RoomBan>>(); // roomId -> userId -> ban
+  (state.bans ?? []).forEach((ban) => {
+    bans.set(ban.roomId, (bans.get(ban.roomId) ?? new Map()).set(ban.userId, ban));
+  });
+  // Streams end with the broadcaster's connection, which a restart drops, so they aren't persisted
+  const streams = new Map<string, RoomStream>(); // roomId -> stream
+  const users = new Map(state.users.map((user) => [user.id, user]));
+  const sessions = new Map(state.sessions.map((session) => [session.userId, session]));
+  const resumeTokens = new Map(
+    state.sessions.map((session) => [session.resumeToken, session.userId])
+  );
+  const directThreads = new Map((state.directThreads ?? []).map((thread) => [thread.id, thread]));
+  const readPositions = new Map<string, Map<string, ReadPosition>>(); // roomId -> userId -> position
+  (state.readPositions ?? []).forEach((position) => {
+    readPositions.set(
+      position.roomId,
+      (readPositions.get(position.roomId) ?? new Map()).set(position.userId, position)
+    );
+  });
+
+  let flushTimer: NodeJS.Timeout | undefined;
+
+  // Write to a temporary file first so a crash never leaves a truncated state.json
+  function flush() {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+
+    const snapshot: PersistedState = {
+      accounts: Array.from(accounts.values()),
+      rooms: Array.from(rooms.values()),
+      roomAccess: Array.from(roomAccess.values()),
+      invites: Array.from(invites.values()),
+      bans: Array.from(bans.values()).flatMap((roomBans) => Array.from(roomBans.values())),
+      users: Array.from(users.values()),
+      sessions: Array.from(sessions.values()),
+      directThreads: Array.from(directThreads.values()),
+      readPositions: Array.from(readPositions.values()).flatMap((roomPositions) =>
+        Array.from(roomPositions.values())
+      ),
+    };
+    const temporaryPath = `${statePath}.tmp`;
+    writeFileSync(temporaryPath, JSON.stringify(snapshot));
+    renameSync(temporaryPath, statePath);
+  }
+
+  function scheduleFlush() {
+    if (!flushTimer) {
+      flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+    }
+  }
+
+  return {
+    getAccount: (accountId) => accounts.get(accountId),
+    findAccountByUsername: (username) => {
+      const accountId = accountIds.get(username.toLowerCase());
+      return accountId ? accounts.get(accountId) : undefined;
+    },
+    saveAccount: (account) => {
+      accounts.set(account.id, account);
+      accountIds.set(account.username.toLowerCase(), account.id);
+      scheduleFlush();
+    },
+
+    getRoom: (roomId) => rooms.get(roomId),
+    listRooms: () => Array.from(rooms.values()),
+    saveRoom: (room) => {
+      rooms.set(room.id, room);
+      scheduleFlush();
+    },
+    deleteRoom: (roomId) => {
+      rooms.delete(roomId);
+      roomAccess.delete(roomId);
+      streams.delete(roomId);
+      invites.forEach((invite, token) => {
+        if (invite.roomId === roomId) invites.delete(token);
+      });
+      roomMessages.remove(roomId);
+      readPositions.delete(roomId);
+      scheduleFlush();
+    },
+
+    getRoomAccess: (roomId) => roomAccess.get(roomId),
+    saveRoomAccess: (access) => {
+      roomAccess.set(access.roomId, access);
+      scheduleFlush();
+    },
+    getInvite: (token) => invites.get(token),
+    saveInvite: (invite) => {
+      invites.set(invite.token, invite);
+      scheduleFlush();
+    },
+    listBans: (roomId) => Array.from(bans.get(roomId)?.values() ?? []),
+    saveBan: (ban) => {
+      const roomBans = bans.get(ban.roomId) ?? new Map<string, RoomBan>();
+      roomBans.set(ban.userId, ban);
+      bans.set(ban.roomId, roomBans);
+      scheduleFlush();
+    },
+    deleteBan: (roomId, userId) => {
+      bans.get(roomId)?.delete(userId);
+      scheduleFlush();
+    },
+    getRoomStream: (roomId) => streams.get(roomId),
+    saveRoomStream: (stream) => {
+      streams.set(stream.roomId, stream);
+    },
+    deleteRoomStream: (roomId) => {
+      streams.delete(roomId);
+    },
+
+    getUser: (userId) => users.get(userId),
+    listUsers: (roomId) =>
+      Array.from(users.values()).filter((user) => roomId === undefined || user.roomId === roomId),
+    saveUser: (user) => {
+      users.set(user.id, user);
+      scheduleFlush();
+    },
+    deleteUser: (userId) => {
+      users.delete(userId);
+      scheduleFlush();
+    },
+
+    getSession: (userId) => sessions.get(userId),
+    findSessionByToken: (resumeToken) => {
+      const userId = resumeTokens.get(resumeToken);
+      return userId ? sessions.get(userId) : undefined;
+    },
+    saveSession: (session) => {
+      const previous = sessions.get(session.userId);
+      if (previous) resumeTokens.delete(previous.resumeToken);
+      sessions.set(session.userId, session);
+      resumeTokens.set(session.resumeToken, session.userId);
+      scheduleFlush();
+    },
+    deleteSession: (userId) => {
+      const session = sessions.get(userId);
+      if (session) resumeTokens.delete(session.resumeToken);
+      sessions.delete(userId);
+      scheduleFlush();
+    },
+
+    appendMessage: (message) => roomMessages.append(message.roomId, message),
+    updateMessage: (message) => roomMessages.update(message.roomId, message),
+    getMessage: (roomId, messageId) => roomMessages.find(roomId, messageId),
+    getMessages: (roomId, query) => roomMessages.select(roomId, query),
+    countMessages: (roomId, visibleTo) => roomMessages.count(roomId, visibleTo),
+    clearMessages: (roomId) => {
+      roomMessages.remove(roomId);
+      readPositions.delete(roomId);
+      scheduleFlush();
+    },
+    getReadPosition: (roomId, userId) => readPositions.get(roomId)?.get(userId),
+    saveReadPosition: (position) => {
+      const roomPositions = readPositions.get(position.roomId) ?? new Map<string, ReadPosition>();
+      roomPositions.set(position.userId, position);
+      readPositions.set(position.roomId, roomPositions);
+      scheduleFlush();
+    },
+
+    getDirectThread: (threadId) => directThreads.get(threadId),
+    listDirectThreads: (userId) =>
+      Array.from(directThreads.values()).filter((thread) =>
+        thread.participants.some((participant) => participant.id === userId)
+      ),
+    saveDirectThread: (thread) => {
+      directThreads.set(thread.id, thread);
+      scheduleFlush();
+    },
+    deleteDirectThread: (threadId) => {
+      directThreads.delete(threadId);
+      directMessages.remove(threadId);
+      scheduleFlush();
+    },
+    appendDirectMessage: (threadId, message) => directMessages.append(threadId, message),
+    getDirectMessage: (threadId, messageId) => directMessages.find(threadId, messageId),
+    getDirectMessages: (threadId, query) => directMessages.select(threadId, query),
+
+    close: () => {
+      if (flushTimer) flush();
+    },
+  };
+}
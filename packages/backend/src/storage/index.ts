@@ -0,0 +1,43 @@
+import { createMemoryStore } from './memory.js';
+import { createFileStore } from './file.js';
+import { createRedisStore } from './redis.js';
+import type { Store } from './types.js';
+
+export type {
+  Account,
+  RoomAccess,
+  RoomStream,
+  Store,
+  StoredSession,
+  StoredDirectThread,
+  MessageQuery,
+  ReadPosition,
+} from './types.js';
+export { getDirectThreadId } from './types.js';
+export { createMemoryStore } from './memory.js';
+export { createFileStore } from './file.js';
+export { createRedisStore } from './redis.js';
+
+// Pick the store from the environment: STORAGE=memory (default), STORAGE=file or STORAGE=redis.
+// Resolves once the store has loaded what is already stored
+export async function createStoreFromEnv(env: NodeJS.ProcessEnv = process.env): Promise<Store> {
+  const maxMessagesPerRoom = Number(env.CHAT_HISTORY_LIMIT) || 1000;
+
+  switch (env.STORAGE ?? 'memory') {
+    case 'memory':
+      return createMemoryStore({ maxMessagesPerRoom });
+    case 'file':
+      return createFileStore({
+        directory: env.STORAGE_DIR ?? './data',
+        cachedMessagesPerRoom: maxMessagesPerRoom,
+      });
+    case 'redis':
+      return createRedisStore({
+        url: env.REDIS_URL ?? 'redis://localhost:6379',
+        keyPrefix: env.REDIS_KEY_PREFIX,
+        maxMessagesPerRoom,
+      });
+    default:
+      throw new Error(`Unknown STORAGE "${env.STORAGE}", expected "memory", "file" or "redis"`);
+  }
+}
@@ -0,0 +1,171 @@
+import type { Room, RoomBan, RoomInvite, User, ChatMessage, DirectMessage } from '@vestream/shared';
+import {
+  type Account,
+  type RoomAccess,
+  type RoomStream,
+  type Store,
+  type StoredDirectThread,
+  type StoredSession,
+  type MessageQuery,
+  type ReadPosition,
+  countVisible,
+  queryMessages,
+} from './types.js';
+
+export interface MemoryStoreOptions {
+  maxMessagesPerRoom: number; // oldest messages are dropped beyond this, per room and per thread
+}
+
+// Append in place, dropping the oldest messages beyond the limit
+function appendCapped<M>(messages: M[], message: M, limit: number) {
+  messages.push(message);
+  if (messages.length > limit) {
+    messages.splice(0, messages.length - limit);
+  }
+  return messages;
+}
+
+// Keeps everything in process memory; state is lost on restart
+export function createMemoryStore({ maxMessagesPerRoom }: MemoryStoreOptions): Store {
+  const accounts = new Map<string, Account>();
+  const accountIds = new Map<string, string>(); // lowercased username -> accountId
+  const rooms = new Map<string, Room>();
+  const roomAccess = new Map<string, RoomAccess>();
+  const invites = new Map<string, RoomInvite>(); // token -> invite
+  const bans = new Map<string, Map<string, RoomBan>>(); // roomId -> userId -> ban
+  const streams = new Map<string, RoomStream>(); // roomId -> stream
+  const users = new Map<string, User>();
+  const sessions = new Map<string, StoredSession>(); // userId -> session
+  const resumeTokens = new Map<string, string>(); // resumeToken -> userId
+  const chatMessages = new Map<string, ChatMessage[]>(); // roomId -> messages
+  const readPositions = new Map<string, Map<string, ReadPosition>>(); // roomId -> userId -> position
+  const directThreads = new Map<string, StoredDirectThread>();
+  const directMessages = new Map<string, DirectMessage[]>(); // threadId -> messages
+
+  return {
+    getAccount: (accountId) => accounts.get(accountId),
+    findAccountByUsername: (username) => {
+      const accountId = accountIds.get(username.toLowerCase());
+      return accountId ? accounts.get(accountId) : undefined;
+    },
+    saveAccount: (account) => {
+      accounts.set(account.id, account);
+      accountIds.set(account.username.toLowerCase(), account.id);
+    },
+
+    getRoom: (roomId) => rooms.get(roomId),
+    listRooms: () => Array.from(rooms.values()),
+    saveRoom: (room) => {
+      rooms.set(room.id, room);
+    },
+    deleteRoom: (roomId) => {
+      rooms.delete(roomId);
+      roomAccess.delete(roomId);
+      streams.delete(roomId);
+      invites.forEach((invite, token) => {
+        if (invite.roomId === roomId) invites.delete(token);
+      });
+      chatMessages.delete(roomId);
+      readPositions.delete(roomId);
+    },
+
+    getRoomAccess: (roomId) => roomAccess.get(roomId),
+    saveRoomAccess: (access) => {
+      roomAccess.set(access.roomId, access);
+    },
+    getInvite: (token) => invites.get(token),
+    saveInvite: (invite) => {
+      invites.set(invite.token, invite);
+    },
+    listBans: (roomId) => Array.from(bans.get(roomId)?.values() ?? []),
+    saveBan: (ban) => {
+      const roomBans = bans.get(ban.roomId) ?? new Map<string, RoomBan>();
+      roomBans.set(ban.userId, ban);
+      bans.set(ban.roomId, roomBans);
+    },
+    deleteBan: (roomId, userId) => {
+      bans.get(roomId)?.delete(userId);
+    },
+    getRoomStream: (roomId) => streams.get(roomId),
+    saveRoomStream: (stream) => {
+      streams.set(stream.roomId, stream);
+    },
+    deleteRoomStream: (roomId) => {
+      streams.delete(roomId);
+    },
+
+    getUser: (userId) => users.get(userId),
+    listUsers: (roomId) =>
+      Array.from(users.values()).filter((user) => roomId === undefined || user.roomId === roomId),
+    saveUser: (user) => {
+      users.set(user.id, user);
+    },
+    deleteUser: (userId) => {
+      users.delete(userId);
+    },
+
+    getSession: (userId) => sessions.get(userId),
+    findSessionByToken: (resumeToken) => {
+      const userId = resumeTokens.get(resumeToken);
+      return userId ? sessions.get(userId) : undefined;
+    },
+    saveSession: (session) => {
+      const previous = sessions.get(session.userId);
+      if (previous) resumeTokens.delete(previous.resumeToken);
+      sessions.set(session.userId, session);
+      resumeTokens.set(session.resumeToken, session.userId);
+    },
+    deleteSession: (userId) => {
+      const session = sessions.get(userId);
+      if (session) resumeTokens.delete(session.resumeToken);
+      sessions.delete(userId);
+    },
+
+    appendMessage: (message) => {
+      const messages = chatMessages.get(message.roomId) ?? [];
+      chatMessages.set(message.roomId, appendCapped(messages, message, maxMessagesPerRoom));
+    },
+    updateMessage: (message) => {
+      const messages = chatMessages.get(message.roomId) ?? [];
+      const index = messages.findIndex((m) => m.id === message.id);
+      if (index !== -1) messages[index] = message;
+    },
+    getMessage: (roomId, messageId) => chatMessages.get(roomId)?.find((m) => m.id === messageId),
+    getMessages: (roomId, query?: MessageQuery) =>
+      queryMessages(chatMessages.get(roomId) ?? [], query),
+    countMessages: (roomId, visibleTo) => countVisible(chatMessages.get(roomId) ?? [], visibleTo),
+    clearMessages: (roomId) => {
+      chatMessages.delete(roomId);
+      readPositions.delete(roomId);
+    },
+    getReadPosition: (roomId, userId) => readPositions.get(roomId)?.get(userId),
+    saveReadPosition: (position) => {
+      const roomPositions = readPositions.get(position.roomId) ?? new Map<string, ReadPosition>();
+      roomPositions.set(position.userId, position);
+      readPositions.set(position.roomId, roomPositions);
+    },
+
+    getDirectThread: (threadId) => directThreads.get(threadId),
+    listDirectThreads: (userId) =>
+      Array.from(directThreads.values()).filter((thread) =>
+        thread.participants.some((participant) => participant.id === userId)
+      ),
+    saveDirectThread: (thread) => {
+      directThreads.set(thread.id, thread);
+    },
+    deleteDirectThread: (threadId) => {
+      directThreads.delete(threadId);
+      directMessages.delete(threadId);
+    },
+    appendDirectMessage: (threadId, message) => {
+      const messages = directMessages.get(threadId) ?? [];
+      directMessages.set(threadId, appendCapped(messages, message, maxMessagesPerRoom));
+    },
+    getDirectMessage: (threadId, messageId) =>
+      directMessages.get(threadId)?.find((m) => m.id === messageId),
+    getDirectMessages: (threadId, query?: MessageQuery) =>
+      queryMessages(directMessages.get(threadId) ?? [], query),
+
+    close: () => {},
+  };
+}
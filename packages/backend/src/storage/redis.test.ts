@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatMessage } from '@vestream/shared';
+import { type FakeRedis, startFakeRedis } from '../testing/redis.js';
+import type { Store } from './types.js';
+import { createRedisStore } from './redis.js';
+
+function message(id: string, overrides: Partial<ChatMessage> = {}): ChatMessage {
+  return {
+    id,
+    senderId: 'alice',
+    senderUsername: 'alice',
+    roomId: 'room-1',
+    content: `message ${id}`,
+    type: 'public',
+    timestamp: new Date(0).toISOString(),
+    ...overrides,
+  };
+}
+
+const ids = (messages: { id: string }[]) => messages.map((m) => m.id);
+
+describe('createRedisStore', () => {
+  let redis: FakeRedis;
+  const stores: Store[] = [];
+
+  const open = () => createRedisStore({ url: redis.url, maxMessagesPerRoom: 5 });
+
+  // One store per node, closed after the test
+  async function createNode() {
+    const store = await open();
+    stores.push(store);
+    return store;
+  }
+
+  beforeEach(async () => {
+    redis = await startFakeRedis();
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.splice(0).map((store) => store.close()));
+    await redis.close();
+  });
+
+  it('shares rooms, users and sessions with the other nodes', async () => {
+    const a = await createNode();
+    const b = await createNode();
+
+    a.saveRoom({ id: 'room-1', name: 'Room 1', viewers: ['bob'] });
+    a.saveUser({ id: 'bob', username: 'bob', role: 'viewer', roomId: 'room-1' });
+    a.saveSession({ userId: 'bob', resumeToken: 'token-1' });
+    a.saveRoomStream({ roomId: 'room-1', ready: true });
+
+    await vi.waitFor(() => expect(b.findSessionByToken('token-1')?.userId).toBe('bob'));
+    expect(b.getRoom('room-1')?.viewers).toEqual(['bob']);
+    expect(b.listUsers('room-1').map((user) => user.id)).toEqual(['bob']);
+    expect(b.getRoomStream('room-1')?.ready).toBe(true);
+
+    b.deleteUser('bob');
+    b.deleteSession('bob');
+    await vi.waitFor(() => expect(a.getUser('bob')).toBeUndefined());
+    expect(a.findSessionByToken('token-1')).toBeUndefined();
+  });
+
+  it('shares chat history, edits included', async () => {
+    const a = await createNode();
+    const b = await createNode();
+
+    a.appendMessage(message('m1'));
+    a.appendMessage(message('m2'));
+    await vi.waitFor(() => expect(ids(b.getMessages('room-1'))).toEqual(['m1', 'm2']));
+
+    b.updateMessage(message('m1', { content: 'edited' }));
+    await vi.waitFor(() => expect(a.getMessage('room-1', 'm1')?.content).toBe('edited'));
+  });
+
+  it('loads what is already stored when a node starts', async () => {
+    const a = await open();
+    a.saveAccount({ id: 'acc-1', username: 'Alice', passwordHash: 'hash', createdAt: 'now' });
+    a.saveRoom({ id: 'room-1', name: 'Room 1', viewers: [] });
+    a.saveRoomAccess({ roomId: 'room-1', passwordHash: 'hash' });
+    a.saveInvite({ token: 'invite-1', roomId: 'room-1', expiresAt: 'later', uses: 1 });
+    a.saveBan({
+      roomId: 'room-1',
+      userId: 'mallory',
+      username: 'mallory',
+      bannedBy: 'alice',
+      bannedAt: 'now',
+    });
+    for (let i = 1; i <= 7; i++) a.appendMessage(message(`m${i}`));
+    a.updateMessage(message('m6', { content: '', deleted: true }));
+    a.saveReadPosition({ roomId: 'room-1', userId: 'bob', messageId: 'm6' });
+    a.saveDirectThread({ id: 'alice:bob', participants: [], lastRead: {} });
+    a.appendDirectMessage('alice:bob', {
+      id: 'd1',
+      senderId: 'alice',
+      senderUsername: 'alice',
+      recipientId: 'bob',
+      content: 'hi',
+      timestamp: 'now',
+    });
+
+    await a.close();
+    const b = await createNode();
+
+    expect(b.findAccountByUsername('alice')?.id).toBe('acc-1');
+    expect(b.getRoomAccess('room-1')?.passwordHash).toBe('hash');
+    expect(b.getInvite('invite-1')?.uses).toBe(1);
+    expect(b.listBans('room-1').map((ban) => ban.userId)).toEqual(['mallory']);
+    // Only the last five are kept, in order
+    expect(ids(b.getMessages('room-1'))).toEqual(['m3', 'm4', 'm5', 'm6', 'm7']);
+    expect(b.getMessage('room-1', 'm6')?.deleted).toBe(true);
+    expect(b.getReadPosition('room-1', 'bob')?.messageId).toBe('m6');
+    expect(ids(b.getDirectMessages('alice:bob'))).toEqual(['d1']);
+  });
+
+  it('deletes a room with everything in it, for nodes started later too', async () => {
+    const a = await createNode();
+    const b = await createNode();
+    a.saveRoom({ id: 'room-1', name: 'Room 1', viewers: [] });
+    a.saveInvite({ token: 'invite-1', roomId: 'room-1', expiresAt: 'later', uses: 0 });
+    a.appendMessage(message('m1'));
+    await vi.waitFor(() => expect(b.getInvite('invite-1')).toBeDefined());
+
+    b.deleteRoom('room-1');
+    await vi.waitFor(() => expect(a.getRoom('room-1')).toBeUndefined());
+    expect(a.getInvite('invite-1')).toBeUndefined();
+    expect(a.getMessages('room-1')).toEqual([]);
+
+    const c = await createNode();
+    expect(c.listRooms()).toEqual([]);
+    expect(c.getMessages('room-1')).toEqual([]);
+  });
+
+  it('ignores malformed changes', async () => {
+    const a = await createNode();
+    const b = await createNode();
+
+    redis.publish('vestream:store:changes', 'not json');
+    redis.publish('vestream:store:changes', 'null');
+    a.saveRoom({ id: 'room-1', name: 'Room 1', viewers: [] });
+
+    await vi.waitFor(() => expect(b.getRoom('room-1')).toBeDefined());
+  });
+
+  it('only makes changes through the methods that change state', async () => {
+    const a = await createNode();
+    const b = await createNode();
+    const publish = (method: string, args: unknown) =>
+      redis.publish(
+        'vestream:store:changes',
+        JSON.stringify({ origin: 'elsewhere', method, args })
+      );
+
+    publish('close', []);
+    publish('getRoom', ['room-1']);
+    publish('constructor', []);
+    publish('saveRoom', { id: 'room-2' });
+    a.saveRoom({ id: 'room-1', name: 'Room 1', viewers: [] });
+
+    await vi.waitFor(() => expect(b.getRoom('room-1')).toBeDefined());
+    expect(b.getRoom('room-2')).toBeUndefined();
+    b.saveRoom({ id: 'room-3', name: 'Room 3', viewers: [] });
+    await vi.waitFor(() => expect(a.getRoom('room-3')).toBeDefined());
+  });
+});
@@ -0,0 +1,382 @@
+import { randomUUID } from 'crypto';
+import type { Room, RoomBan, RoomInvite, User, ChatMessage, DirectMessage } from '@vestream/shared';
+import { createRespConnection, type RespValue } from '../adapter/resp.js';
+import { createMemoryStore } from './memory.js';
+import type {
+  Account,
+  ReadPosition,
+  RoomAccess,
+  RoomStream,
+  Store,
+  StoredDirectThread,
+  StoredSession,
+} from './types.js';
+
+export interface RedisStoreOptions {
+  url: string;
+  keyPrefix?: string;
+  maxMessagesPerRoom: number; // oldest messages are dropped beyond this, per room and per thread
+}
+
+// The Store methods that change state
+type Mutation = {
+  [K in keyof Store]: K extends `${'save' | 'delete' | 'append' | 'update' | 'clear'}${string}`
+    ? K
+    : never;
+}[keyof Store];
+
+// The methods a published change may name; anything else on the channel is ignored
+const mutations: Record<Mutation, true> = {
+  saveAccount: true,
+  saveRoom: true,
+  deleteRoom: true,
+  saveRoomAccess: true,
+  saveInvite: true,
+  saveBan: true,
+  deleteBan: true,
+  saveRoomStream: true,
+  deleteRoomStream: true,
+  saveUser: true,
+  deleteUser: true,
+  saveSession: true,
+  deleteSession: true,
+  appendMessage: true,
+  updateMessage: true,
+  clearMessages: true,
+  saveReadPosition: true,
+  saveDirectThread: true,
+  deleteDirectThread: true,
+  appendDirectMessage: true,
+};
+
+function isMutation(method: unknown): method is Mutation {
+  return typeof method === 'string' && Object.prototype.hasOwnProperty.call(mutations, method);
+}
+
+// A change made on one node, for the others to make to their working set
+interface Change<K extends Mutation = Mutation> {
+  origin: string;
+  method: K;
+  args: Parameters<Store[K]>;
+}
+
+function parseJson<T>(values: RespValue): T[] {
+  return Array.isArray(values)
+    ? values
+        .filter((value): value is string => typeof value === 'string')
+        .map((value) => JSON.parse(value))
+    : [];
+}
+
+// Store shared by several nodes through a Redis (or Redis-protocol compatible) server.
+// Each node keeps the whole state in a memory store, loaded when it starts. Changes are
+// made there first, so reads stay synchronous, then written to Redis and published for
+// the other nodes to make to theirs. Records are replaced whole, so when two nodes change
+// the same one at once, each may keep the other's version.
+export async function createRedisStore({
+  url,
+  keyPrefix = 'vestream',
+  maxMessagesPerRoom,
+}: RedisStoreOptions): Promise<Store> {
+  const nodeId = randomUUID();
+  const local = createMemoryStore({ maxMessagesPerRoom });
+
+  const key = (...parts: string[]) => [keyPrefix, 'store', ...parts].join(':');
+  const channel = key('changes');
+  const accountsKey = key('accounts');
+  const roomsKey = key('rooms');
+  const accessKey = key('access');
+  const bansKey = key('bans');
+  const streamsKey = key('streams');
+  const usersKey = key('users');
+  const sessionsKey = key('sessions');
+  const threadsKey = key('threads');
+  const invitesKey = (roomId: string) => key('invites', roomId);
+  const messagesKey = (roomId: string) => key('messages', roomId); // id -> message
+  const messageIdsKey = (roomId: string) => key('message-ids', roomId); // ids in order
+  const readsKey = (roomId: string) => key('reads', roomId);
+  const directKey = (threadId: string) => key('direct', threadId);
+  const banField = (roomId: string, userId: string) => JSON.stringify([roomId, userId]);
+
+  const logError = (error: Error) => console.error('Redis store error:', error.message);
+
+  // Changes that arrive while the state is loading are made after it
+  let pending: Change[] | undefined = [];
+  let resolveSubscribed: () => void;
+  let rejectSubscribed: (error: Error) => void;
+  const subscribed = new Promise<void>((resolve, reject) => {
+    resolveSubscribed = resolve;
+    rejectSubscribed = reject;
+  });
+
+  const connection = createRespConnection({ url, onError: logError });
+  const subscriber = createRespConnection({
+    url,
+    onPush: handlePush,
+    onError: (error) => {
+      logError(error);
+      rejectSubscribed(error); // only matters while starting
+    },
+  });
+
+  function apply({ method, args }: Change) {
+    // Loading may already have picked up a message that was published meanwhile
+    if (method === 'appendMessage') {
+      const [message] = args as Parameters<Store['appendMessage']>;
+      if (local.getMessage(message.roomId, message.id)) return;
+    }
+    if (method === 'appendDirectMessage') {
+      const [threadId, message] = args as Parameters<Store['appendDirectMessage']>;
+      if (local.getDirectMessage(threadId, message.id)) return;
+    }
+    (local[method] as (...args: unknown[]) => void)(...args);
+  }
+
+  function handlePush([kind, , data]: RespValue[]) {
+    if (kind === 'subscribe') {
+      resolveSubscribed();
+      return;
+    }
+    if (kind !== 'message' || typeof data !== 'string') return;
+
+    let change: Change;
+    try {
+      change = JSON.parse(data);
+    } catch {
+      logError(new Error(`Ignoring malformed change on ${channel}`));
+      return;
+    }
+    if (change?.origin === nodeId || !isMutation(change?.method) || !Array.isArray(change.args)) {
+      return;
+    }
+
+    if (pending) {
+      pending.push(change);
+    } else {
+      apply(change);
+    }
+  }
+
+  // Writes still waiting for Redis, including the ones that follow from an earlier reply
+  const inFlight = new Set<Promise<unknown>>();
+  function track<T>(promise: Promise<T>) {
+    inFlight.add(promise);
+    void promise.finally(() => inFlight.delete(promise));
+    return promise;
+  }
+
+  function write(...args: string[]) {
+    return track(
+      connection.command(...args).catch((error) => {
+        logError(error);
+        return null;
+      })
+    );
+  }
+
+  // Make a change to this node's working set, then have Redis and the other nodes follow
+  function change<K extends Mutation>(
+    method: K,
+    args: Parameters<Store[K]>,
+    ...commands: string[][]
+  ) {
+    (local[method] as (...args: Parameters<Store[K]>) => void)(...args);
+    commands.forEach((command) => void write(...command));
+    const published: Change<K> = { origin: nodeId, method, args };
+    void write('PUBLISH', channel, JSON.stringify(published));
+  }
+
+  async function load() {
+    const values = <T>(hashKey: string) => connection.command('HVALS', hashKey).then(parseJson<T>);
+
+    const [accounts, rooms, access, bans, streams, users, sessions, threads] = await Promise.all([
+      values<Account>(accountsKey),
+      values<Room>(roomsKey),
+      values<RoomAccess>(accessKey),
+      values<RoomBan>(bansKey),
+      values<RoomStream>(streamsKey),
+      values<User>(usersKey),
+      values<StoredSession>(sessionsKey),
+      values<StoredDirectThread>(threadsKey),
+    ]);
+    accounts.forEach(local.saveAccount);
+    rooms.forEach(local.saveRoom);
+    access.forEach(local.saveRoomAccess);
+    bans.forEach(local.saveBan);
+    streams.forEach(local.saveRoomStream);
+    users.forEach(local.saveUser);
+    sessions.forEach(local.saveSession);
+    threads.forEach(local.saveDirectThread);
+
+    await Promise.all([
+      ...rooms.map(async ({ id }) => {
+        const [invites, reads, ids] = await Promise.all([
+          values<RoomInvite>(invitesKey(id)),
+          values<ReadPosition>(readsKey(id)),
+          connection.command('LRANGE', messageIdsKey(id), '0', '-1'),
+        ]);
+        invites.forEach(local.saveInvite);
+        reads.forEach(local.saveReadPosition);
+        if (Array.isArray(ids) && ids.length > 0) {
+          const messages = await connection.command('HMGET', messagesKey(id), ...(ids as string[]));
+          parseJson<ChatMessage>(messages).forEach(local.appendMessage);
+        }
+      }),
+      ...threads.map(async ({ id }) => {
+        const messages = await connection.command('LRANGE', directKey(id), '0', '-1');
+        parseJson<DirectMessage>(messages).forEach((message) =>
+          local.appendDirectMessage(id, message)
+        );
+      }),
+    ]);
+  }
+
+  subscriber.subscribe(channel);
+  await subscribed;
+  await load();
+  pending.forEach(apply);
+  pending = undefined;
+
+  return {
+    ...local,
+
+    saveAccount: (account) => {
+      change('saveAccount', [account], ['HSET', accountsKey, account.id, JSON.stringify(account)]);
+    },
+
+    saveRoom: (room) => {
+      change('saveRoom', [room], ['HSET', roomsKey, room.id, JSON.stringify(room)]);
+    },
+    deleteRoom: (roomId) => {
+      change(
+        'deleteRoom',
+        [roomId],
+        ['HDEL', roomsKey, roomId],
+        ['HDEL', accessKey, roomId],
+        ['HDEL', streamsKey, roomId],
+        ['DEL', invitesKey(roomId), messagesKey(roomId), messageIdsKey(roomId), readsKey(roomId)]
+      );
+    },
+
+    saveRoomAccess: (access) => {
+      change(
+        'saveRoomAccess',
+        [access],
+        ['HSET', accessKey, access.roomId, JSON.stringify(access)]
+      );
+    },
+    saveInvite: (invite) => {
+      change(
+        'saveInvite',
+        [invite],
+        ['HSET', invitesKey(invite.roomId), invite.token, JSON.stringify(invite)]
+      );
+    },
+    saveBan: (ban) => {
+      change(
+        'saveBan',
+        [ban],
+        ['HSET', bansKey, banField(ban.roomId, ban.userId), JSON.stringify(ban)]
+      );
+    },
+    deleteBan: (roomId, userId) => {
+      change('deleteBan', [roomId, userId], ['HDEL', bansKey, banField(roomId, userId)]);
+    },
+    saveRoomStream: (stream) => {
+      change(
+        'saveRoomStream',
+        [stream],
+        ['HSET', streamsKey, stream.roomId, JSON.stringify(stream)]
+      );
+    },
+    deleteRoomStream: (roomId) => {
+      change('deleteRoomStream', [roomId], ['HDEL', streamsKey, roomId]);
+    },
+
+    saveUser: (user) => {
+      change('saveUser', [user], ['HSET', usersKey, user.id, JSON.stringify(user)]);
+    },
+    deleteUser: (userId) => {
+      change('deleteUser', [userId], ['HDEL', usersKey, userId]);
+    },
+
+    saveSession: (session) => {
+      change(
+        'saveSession',
+        [session],
+        ['HSET', sessionsKey, session.userId, JSON.stringify(session)]
+      );
+    },
+    deleteSession: (userId) => {
+      change('deleteSession', [userId], ['HDEL', sessionsKey, userId]);
+    },
+
+    // The ids keep the order; messages past the limit are dropped from the front
+    appendMessage: (message) => {
+      const idsKey = messageIdsKey(message.roomId);
+      change(
+        'appendMessage',
+        [message],
+        ['HSET', messagesKey(message.roomId), message.id, JSON.stringify(message)],
+        ['RPUSH', idsKey, message.id]
+      );
+      void track(
+        write('LRANGE', idsKey, '0', String(-maxMessagesPerRoom - 1)).then(async (dropped) => {
+          if (Array.isArray(dropped) && dropped.length > 0) {
+            await write('HDEL', messagesKey(message.roomId), ...(dropped as string[]));
+          }
+        })
+      );
+      void write('LTRIM', idsKey, String(-maxMessagesPerRoom), '-1');
+    },
+    updateMessage: (message) => {
+      if (!local.getMessage(message.roomId, message.id)) return;
+      change(
+        'updateMessage',
+        [message],
+        ['HSET', messagesKey(message.roomId), message.id, JSON.stringify(message)]
+      );
+    },
+    clearMessages: (roomId) => {
+      change(
+        'clearMessages',
+        [roomId],
+        ['DEL', messagesKey(roomId), messageIdsKey(roomId), readsKey(roomId)]
+      );
+    },
+    saveReadPosition: (position) => {
+      change(
+        'saveReadPosition',
+        [position],
+        ['HSET', readsKey(position.roomId), position.userId, JSON.stringify(position)]
+      );
+    },
+
+    saveDirectThread: (thread) => {
+      change('saveDirectThread', [thread], ['HSET', threadsKey, thread.id, JSON.stringify(thread)]);
+    },
+    deleteDirectThread: (threadId) => {
+      change(
+        'deleteDirectThread',
+        [threadId],
+        ['HDEL', threadsKey, threadId],
+        ['DEL', directKey(threadId)]
+      );
+    },
+    appendDirectMessage: (threadId, message) => {
+      change(
+        'appendDirectMessage',
+        [threadId, message],
+        ['RPUSH', directKey(threadId), JSON.stringify(message)],
+        ['LTRIM', directKey(threadId), String(-maxMessagesPerRoom), '-1']
+      );
+    },
+
+    close: async () => {
+      while (inFlight.size > 0) {
+        await Promise.all(inFlight);
+      }
+      await Promise.all([connection.close(), subscriber.close()]);
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import type {
+  Room,
+  RoomBan,
+  RoomInvite,
+  User,
+  ChatMessage,
+  DirectMessage,
+  MediaState,
+} from '@vestream/shared';
+
+// A resumable session, see RESUME_SESSION
+export interface StoredSession {
+  userId: string;
+  resumeToken: string;
+}
+
+// A registered account; never sent to clients since it carries the password hash
+export interface Account {
+  id: string;
+  username: string;
+  passwordHash: string; // see hashPassword in auth/password.ts
+  createdAt: string;
+}
+
+// Secrets guarding a room, kept apart from Room since rooms are sent to clients
+export interface RoomAccess {
+  roomId: string;
+  passwordHash?: string; // see hashPassword in auth/password.ts
+}
+
+export interface MessageQuery {
+  limit?: number; // defaults to 50
+  after?: string; // only messages sent after this message id; if unknown, the most recent ones
+  before?: string; // only messages sent before this message id; if unknown, none
+  visibleTo?: string; // user id; private messages are left out unless they sent or received them
+}
+
+// How far a user has read a room's chat, see MARK_MESSAGES_READ
+export interface ReadPosition {
+  roomId: string;
+  userId: string;
+  messageId: string; // the last message they have seen
+}
+
+// A one-to-one conversation and how far each participant has read it
+export interface StoredDirectThread {
+  id: string; // see getDirectThreadId
+  participants: { id: string; username: string }[];
+  lastRead: Record<string, string>; // userId -> id of the last message they marked read
+}
+
+// What the room's broadcaster is streaming; it ends with their connection
+export interface RoomStream {
+  roomId: string;
+  ready: boolean; // announced with STREAM_READY
+  mediaState?: MediaState; // the last MEDIA_STATE
+}
+
+// Persistence for accounts, rooms, the users holding slots in them, and chat history.
+// The interface is synchronous so handlers keep their ordering guarantees;
+// implementations keep a working set in memory and write through.
+export interface Store {
+  getAccount(accountId: string): Account | undefined;
+  findAccountByUsername(username: string): Account | undefined; // case-insensitive
+  saveAccount(account: Account): void;
+
+  getRoom(roomId: string): Room | undefined;
+  listRooms(): Room[];
+  saveRoom(room: Room): void;
+  deleteRoom(roomId: string): void; // also deletes the room's access, invites, stream, chat history and read positions
+
+  getRoomAccess(roomId: string): RoomAccess | undefined;
+  saveRoomAccess(access: RoomAccess): void;
+  getInvite(token: string): RoomInvite | undefined;
+  saveInvite(invite: RoomInvite): void;
+  listBans(roomId: string): RoomBan[]; // bans outlive the room, for when it is opened again
+  saveBan(ban: RoomBan): void;
+  deleteBan(roomId: string, userId: string): void;
+  getRoomStream(roomId: string): RoomStream | undefined;
+  saveRoomStream(stream: RoomStream): void;
+  deleteRoomStream(roomId: string): void;
+
+  getUser(userId: string): User | undefined;
+  listUsers(roomId?: string): User[];
+  saveUser(user: User): void;
+  deleteUser(userId: string): void;
+
+  getSession(userId: string): StoredSession | undefined;
+  findSessionByToken(resumeToken: string): StoredSession | undefined;
+  saveSession(session: StoredSession): void;
+  deleteSession(userId: string): void;
+
+  appendMessage(message: ChatMessage): void;
+  updateMessage(message: ChatMessage): void; // replaces the message with the same id, in place
+  getMessage(roomId: string, messageId: string): ChatMessage | undefined;
+  getMessages(roomId: string, query?: MessageQuery): ChatMessage[];
+  countMessages(roomId: string, visibleTo?: string): number;
+  clearMessages(roomId: string): void; // also forgets the read positions in it
+  getReadPosition(roomId: string, userId: string): ReadPosition | undefined;
+  saveReadPosition(position: ReadPosition): void; // positions go with the room's history
+
+  getDirectThread(threadId: string): StoredDirectThread | undefined;
+  listDirectThreads(userId: string): StoredDirectThread[];
+  saveDirectThread(thread: StoredDirectThread): void;
+  deleteDirectThread(threadId: string): void; // also deletes its messages
+  appendDirectMessage(threadId: string, message: DirectMessage): void;
+  getDirectMessage(threadId: string, messageId: string): DirectMessage | undefined;
+  getDirectMessages(threadId: string, query?: MessageQuery): DirectMessage[];
+
+  close(): void | Promise<void>; // flush pending writes
+}
+
+export const DEFAULT_MESSAGE_LIMIT = 50;
+
+// The same two users always share one thread, whichever of them starts it
+export function getDirectThreadId(userId: string, otherUserId: string) {
+  return [userId, otherUserId].sort().join(':');
+}
+
+// The parts of a message that queries look at; direct messages have no type
+export type MessageHeader = Pick<ChatMessage, 'id' | 'senderId' | 'recipientId'> & {
+  type?: ChatMessage['type'];
+};
+
+function isVisibleTo(message: MessageHeader, userId?: string) {
+  if (message.type !== 'private') return true;
+  return userId !== undefined && (message.senderId === userId || message.recipientId === userId);
+}
+
+export function countVisible(messages: MessageHeader[], visibleTo?: string) {
+  return messages.filter((message) => isVisibleTo(message, visibleTo)).length;
+}
+
+// Apply a query to messages in chronological order.
+// Returns undefined when `after` or `before` is not among them, so callers can look further.
+export function selectMessages<M extends MessageHeader>(
+  messages: M[],
+  { limit = DEFAULT_MESSAGE_LIMIT, after, before, visibleTo }: MessageQuery = {}
+): M[] | undefined {
+  let start = 0;
+  let end = messages.length;
+  if (after !== undefined) {
+    const index = messages.findIndex((m) => m.id === after);
+    if (index === -1) return undefined;
+    start = index + 1;
+  }
+  if (before !== undefined) {
+    const index = messages.findIndex((m) => m.id === before);
+    if (index === -1) return undefined;
+    end = index;
+  }
+
+  const visible = messages.slice(start, end).filter((message) => isVisibleTo(message, visibleTo));
+  return after !== undefined ? visible.slice(0, limit) : visible.slice(-limit);
+}
+
+// selectMessages over the complete history, applying the fallbacks for unknown cursors
+export function queryMessages<M extends MessageHeader>(
+  messages: M[],
+  query: MessageQuery = {}
+): M[] {
+  const selected = selectMessages(messages, query);
+  if (selected) return selected;
+  if (query.before !== undefined) return [];
+  return selectMessages(messages, { limit: query.limit, visibleTo: query.visibleTo })!;
+}
@@ -0,0 +1,185 @@
+import { createServer, type Socket } from 'net';
+import type { AddressInfo } from 'net';
+
+// A stand-in for a Redis server in tests: the commands vestream uses, kept in memory and
+// served over RESP2 on a local port. Not a general Redis: values don't expire, type errors
+// aren't detected and unknown commands get an error.
+
+type Reply = string | number | null | Error | Reply[];
+
+export interface FakeRedis {
+  url: string;
+  commands: string[][]; // every command received, in order
+  publish(channel: string, data: string): void; // as if another client had published it
+  close(): Promise<void>;
+}
+
+function encodeReply(reply: Reply): string {
+  if (reply === null) return '$-1\r\n';
+  if (reply instanceof Error) return `-ERR ${reply.message}\r\n`;
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+  return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+}
+
+// Parse one command (an array of bulk strings) from the buffer; undefined until it is complete
+function parseCommand(buffer: Buffer): { args: string[]; length: number } | undefined {
+  let offset = 0;
+  const readLine = () => {
+    const end = buffer.indexOf('\r\n', offset);
+    if (end === -1) return undefined;
+    const line = buffer.toString('utf8', offset, end);
+    offset = end + 2;
+    return line;
+  };
+
+  const header = readLine();
+  if (header === undefined) return undefined;
+  const args: string[] = [];
+  for (let i = 0; i < Number(header.slice(1)); i++) {
+    const lengthLine = readLine();
+    if (lengthLine === undefined) return undefined;
+    const length = Number(lengthLine.slice(1));
+    if (buffer.length < offset + length + 2) return undefined;
+    args.push(buffer.toString('utf8', offset, offset + length));
+    offset += length + 2;
+  }
+  return { args, length: offset };
+}
+
+export async function startFakeRedis(): Promise<FakeRedis> {
+  const sets = new Map<string, Set<string>>();
+  const hashes = new Map<string, Map<string, string>>();
+  const lists = new Map<string, string[]>();
+  const subscriptions = new Map<string, Set<Socket>>(); // channel -> subscribed sockets
+  const sockets = new Set<Socket>();
+  const commands: string[][] = [];
+
+  function subscribedCount(socket: Socket) {
+    return Array.from(subscriptions.values()).filter((sockets) => sockets.has(socket)).length;
+  }
+
+  function publish(channel: string, data: string) {
+    const subscribers = subscriptions.get(channel) ?? new Set<Socket>();
+    subscribers.forEach((subscriber) => subscriber.write(encodeReply(['message', channel, data])));
+    return subscribers.size;
+  }
+
+  // Negative indexes count from the end, as in LRANGE and LTRIM
+  function listRange(list: string[], start: number, stop: number) {
+    const from = start < 0 ? Math.max(list.length + start, 0) : start;
+    const to = stop < 0 ? list.length + stop : stop;
+    return to < from ? [] : list.slice(from, to + 1);
+  }
+
+  function execute(socket: Socket, [name, ...args]: string[]): Reply | undefined {
+    switch (name.toUpperCase()) {
+      case 'PING':
+      case 'AUTH':
+        return 'OK';
+      case 'SADD': {
+        const set = sets.get(args[0]) ?? new Set();
+        sets.set(args[0], set);
+        const before = set.size;
+        args.slice(1).forEach((member) => set.add(member));
+        return set.size - before;
+      }
+      case 'SREM': {
+        const set = sets.get(args[0]);
+        return args.slice(1).filter((member) => set?.delete(member)).length;
+      }
+      case 'SMEMBERS':
+        return Array.from(sets.get(args[0]) ?? []);
+      case 'HSET': {
+        const hash = hashes.get(args[0]) ?? new Map();
+        hashes.set(args[0], hash);
+        let added = 0;
+        for (let i = 1; i < args.length; i += 2) {
+          if (!hash.has(args[i])) added++;
+          hash.set(args[i], args[i + 1]);
+        }
+        return added;
+      }
+      case 'HDEL': {
+        const hash = hashes.get(args[0]);
+        return args.slice(1).filter((field) => hash?.delete(field)).length;
+      }
+      case 'HVALS':
+        return Array.from(hashes.get(args[0])?.values() ?? []);
+      case 'HMGET':
+        return args.slice(1).map((field) => hashes.get(args[0])?.get(field) ?? null);
+      case 'RPUSH': {
+        const list = lists.get(args[0]) ?? [];
+        lists.set(args[0], list);
+        list.push(...args.slice(1));
+        return list.length;
+      }
+      case 'LPOP': {
+        const list = lists.get(args[0]) ?? [];
+        return args[1] === undefined ? (list.shift() ?? null) : list.splice(0, Number(args[1]));
+      }
+      case 'LRANGE':
+        return listRange(lists.get(args[0]) ?? [], Number(args[1]), Number(args[2]));
+      case 'LTRIM':
+        lists.set(args[0], listRange(lists.get(args[0]) ?? [], Number(args[1]), Number(args[2])));
+        return 'OK';
+      case 'DEL':
+        return args.filter((key) => [sets, hashes, lists].some((map) => map.delete(key))).length;
+      case 'PUBLISH':
+        return publish(args[0], args[1]);
+      case 'PUBSUB':
+        if (args[0].toUpperCase() !== 'NUMSUB') return new Error('only PUBSUB NUMSUB is supported');
+        return args.slice(1).flatMap((channel) => [channel, subscriptions.get(channel)?.size ?? 0]);
+      case 'SUBSCRIBE':
+        args.forEach((channel) => {
+          subscriptions.set(channel, (subscriptions.get(channel) ?? new Set()).add(socket));
+          socket.write(encodeReply(['subscribe', channel, subscribedCount(socket)]));
+        });
+        return undefined;
+      case 'UNSUBSCRIBE':
+        args.forEach((channel) => {
+          subscriptions.get(channel)?.delete(socket);
+          socket.write(encodeReply(['unsubscribe', channel, subscribedCount(socket)]));
+        });
+        return undefined;
+      default:
+        return new Error(`unknown command '${name}'`);
+    }
+  }
+
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed = parseCommand(buffer);
+      while (parsed) {
+        buffer = buffer.subarray(parsed.length);
+        commands.push(parsed.args);
+        const reply = execute(socket, parsed.args);
+        if (reply !== undefined) socket.write(encodeReply(reply));
+        parsed = buffer.length > 0 ? parseCommand(buffer) : undefined;
+      }
+    });
+    socket.on('close', () => {
+      sockets.delete(socket);
+      subscriptions.forEach((subscribers) => subscribers.delete(socket));
+    });
+    socket.on('error', () => {});
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    commands,
+    publish: (channel, data) => void publish(channel, data),
+    close: () =>
+      new Promise((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,153 @@
+import { type ChildProcess, spawn } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer } from 'net';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import WebSocket from 'ws';
+import type {
+  ClientMessageType,
+  ClientPayloadMap,
+  ServerMessage,
+  ServerMessageType,
+} from '@vestream/shared';
+
+// A backend started as its own process for tests, on a free port with a scratch directory
+
+export interface TestServer {
+  port: number;
+  url: string; // http://127.0.0.1:<port>
+  stop(): Promise<void>;
+}
+
+const backendDirectory = fileURLToPath(new URL('../..', import.meta.url));
+const STARTUP_TIMEOUT_MS = 30_000;
+
+async function findFreePort() {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+function waitForStartup(child: ChildProcess) {
+  return new Promise<void>((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => {
+      reject(new Error(`Server did not start:\n${output}`));
+    }, STARTUP_TIMEOUT_MS);
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes('Server running on port')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.on('exit', () => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited:\n${output}`));
+    });
+  });
+}
+
+export async function startServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const port = await findFreePort();
+  const directory = mkdtempSync(join(tmpdir(), 'vestream-server-'));
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+    cwd: backendDirectory,
+    env: {
+      ...process.env,
+      PORT: String(port),
+      AUTH_SECRET: 'test-secret',
+      STORAGE: 'memory',
+      STORAGE_DIR: directory,
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  try {
+    await waitForStartup(child);
+  } catch (error) {
+    child.kill();
+    rmSync(directory, { recursive: true, force: true });
+    throw error;
+  }
+
+  return {
+    port,
+    url: `http://127.0.0.1:${port}`,
+    stop: async () => {
+      if (child.exitCode === null) {
+        const exited = new Promise((resolve) => child.once('exit', resolve));
+        child.kill('SIGTERM');
+        await exited;
+      }
+      rmSync(directory, { recursive: true, force: true });
+    },
+  };
+}
+
+// Create an account on the server and return its access token
+export async function register(server: TestServer, username: string): Promise<string> {
+  const response = await fetch(`${server.url}/api/auth/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password: 'password123' }),
+  });
+  if (!response.ok) throw new Error(`Registering ${username} failed: ${response.status}`);
+  return ((await response.json()) as { token: string }).token;
+}
+
+export interface TestClient {
+  send<T extends ClientMessageType>(type: T, payload: ClientPayloadMap[T]): void;
+  // The next message of the type not yet taken, waiting for it if need be
+  next<T extends ServerMessageType>(type: T, timeoutMs?: number): Promise<ServerMessage<T>>;
+  close(): void;
+}
+
+export async function connect(server: TestServer, token?: string): Promise<TestClient> {
+  const ws = new WebSocket(
+    `ws://127.0.0.1:${server.port}${token ? `?token=${encodeURIComponent(token)}` : ''}`
+  );
+  const received: ServerMessage[] = [];
+  const waiting = new Set<() => void>();
+
+  ws.on('message', (data) => {
+    received.push(JSON.parse(data.toString()));
+    waiting.forEach((check) => check());
+  });
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve);
+    ws.once('error', reject);
+  });
+
+  return {
+    send: (type, payload) => {
+      ws.send(JSON.stringify({ type, payload, timestamp: new Date().toISOString() }));
+    },
+
+    next: <T extends ServerMessageType>(type: T, timeoutMs = 5_000) =>
+      new Promise<ServerMessage<T>>((resolve, reject) => {
+        const check = () => {
+          const index = received.findIndex((message) => message.type === type);
+          if (index === -1) return;
+          waiting.delete(check);
+          clearTimeout(timer);
+          resolve(received.splice(index, 1)[0] as ServerMessage<T>);
+        };
+        const timer = setTimeout(() => {
+          waiting.delete(check);
+          reject(new Error(`No ${type} within ${timeoutMs} ms`));
+        }, timeoutMs);
+        waiting.add(check);
+        check();
+      }),
+
+    close: () => ws.close(),
+  };
+}
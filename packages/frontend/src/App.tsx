@@ -1,18 +1,21 @@
 import { Routes, Route } from 'react-router-dom';
 import Home from './pages/Home';
 import Layout from './components/Layout';
+import { AuthProvider } from './contexts/AuthContext';
 import { WebSocketProvider } from './contexts/WebSocketContext';
 
 function App() {
   return (
-    <WebSocketProvider>
-      <Routes>
-        <Route path="/" element={<Layout />}>
-          <Route index element={<Home />} />
-          {/* Add more routes here */}
-        </Route>
-      </Routes>
-    </WebSocketProvider>
+    <AuthProvider>
+      <WebSocketProvider>
+        <Routes>
+          <Route path="/" element={<Layout />}>
+            <Route index element={<Home />} />
+            {/* Add more routes here */}
+          </Route>
+        </Routes>
+      </WebSocketProvider>
+    </AuthProvider>
   );
 }
 
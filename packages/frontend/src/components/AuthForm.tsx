@@ -0,0 +1,116 @@
+import { FormEvent, useState } from 'react';
+import { credentialsSchema } from '@vestream/shared';
+import { AuthError, useAuth } from '../contexts/AuthContext';
+
+interface AuthFormProps {
+  onContinueAsGuest: () => void;
+}
+
+export default function AuthForm({ onContinueAsGuest }: AuthFormProps) {
+  const { login, register } = useAuth();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string>();
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(undefined);
+
+    // Same rules the server applies, checked here for a quicker answer
+    const result = credentialsSchema({ username, password }, '');
+    if (!result.success) {
+      setError(`${result.field === 'username' ? 'Username' : 'Password'}: ${result.message}`);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await (mode === 'login' ? login(result.data) : register(result.data));
+    } catch (error) {
+      setError(error instanceof AuthError ? error.message : 'Could not reach the server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+        {mode === 'login' ? 'Sign in' : 'Create an account'}
+      </h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <form className="space-y-6" onSubmit={handleSubmit}>
+        <div className="rounded-md shadow-sm -space-y-px">
+          <div>
+            <label htmlFor="account-username" className="sr-only">
+              Username
+            </label>
+            <input
+              id="account-username"
+              name="username"
+              type="text"
+              autoComplete="username"
+              required
+              className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+              placeholder="Username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="account-password" className="sr-only">
+              Password
+            </label>
+            <input
+              id="account-password"
+              name="password"
+              type="password"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              required
+              className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+              placeholder="Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+      </form>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          className="text-indigo-600 hover:text-indigo-800"
+          onClick={() => {
+            setMode(mode === 'login' ? 'register' : 'login');
+            setError(undefined);
+          }}
+        >
+          {mode === 'login' ? 'Create an account' : 'I already have an account'}
+        </button>
+        <button
+          type="button"
+          className="text-gray-600 hover:text-gray-800"
+          onClick={onContinueAsGuest}
+        >
+          Continue as a guest
+        </button>
+      </div>
+    </div>
+  );
+}
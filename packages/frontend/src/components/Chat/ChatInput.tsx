@@ -1,25 +1,141 @@
-import { useState, FormEvent, KeyboardEvent, ChangeEvent } from 'react';
-import type { User } from '@vestream/shared';
+import {
+  useEffect,
+  useRef,
+  useState,
+  FormEvent,
+  KeyboardEvent,
+  ChangeEvent,
+  ClipboardEvent,
+  DragEvent,
+} from 'react';
+import type { Attachment, ChatCommand } from '@vestream/shared';
+import { MAX_ATTACHMENTS_PER_MESSAGE, MAX_CHAT_MESSAGE_LENGTH } from '@vestream/shared';
 
 interface ChatInputProps {
-  onSendMessage: (content: string, recipientId?: string) => void;
-  users: User[];
-  currentUserId?: string;
+  onSendMessage: (content: string, attachments: Attachment[]) => void;
+  placeholder?: string;
+  disabledReason?: string; // e.g. muted by a moderator
+  onTyping?: (typing: boolean) => void; // whether there is anything in the input
+  onUploadFile?: (file: File) => Promise<Attachment>; // enables attachments
+  commands?: ChatCommand[]; // slash commands to suggest, those the user may run
 }
 
-export function ChatInput({ onSendMessage, users, currentUserId }: ChatInputProps) {
+// A file picked for the next message, uploaded as soon as it is added
+interface PendingAttachment {
+  key: number;
+  file: File;
+  previewUrl?: string; // object URL, for images
+  attachment?: Attachment; // once uploaded
+  error?: string;
+}
+
+export function ChatInput({
+  onSendMessage,
+  placeholder = 'Type a message...',
+  disabledReason,
+  onTyping,
+  onUploadFile,
+  commands = [],
+}: ChatInputProps) {
   const [message, setMessage] = useState('');
-  const [selectedRecipient, setSelectedRecipient] = useState<string | undefined>();
-  
+  const [pending, setPending] = useState<PendingAttachment[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const nextKeyRef = useRef(0);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+
+  // Previews still on screen when the input goes away
+  const pendingRef = useRef(pending);
+  pendingRef.current = pending;
+  useEffect(
+    () => () => {
+      pendingRef.current.forEach((item) => item.previewUrl && URL.revokeObjectURL(item.previewUrl));
+    },
+    []
+  );
+
+  const uploading = pending.some((item) => !item.attachment && !item.error);
+  const uploaded = pending.flatMap((item) => (item.attachment ? [item.attachment] : []));
+  const uploadError = pending.find((item) => item.error)?.error;
+  const canSend = !disabledReason && !uploading && (message.trim() !== '' || uploaded.length > 0);
+
+  // Commands are suggested while their name is being typed, until Escape
+  const typedCommand = /^\/(\S*)$/.exec(message)?.[1].toLowerCase();
+  const suggestions =
+    typedCommand === undefined || suggestionsDismissed || disabledReason
+      ? []
+      : commands.filter((command) => command.name.startsWith(typedCommand));
+  const selectedSuggestion = suggestions[Math.min(suggestionIndex, suggestions.length - 1)];
+
+  const completeCommand = (command: ChatCommand) => {
+    setMessage(`/${command.name} `);
+    setSuggestionIndex(0);
+  };
+
+  const updatePending = (key: number, changes: Partial<PendingAttachment>) => {
+    setPending((prevPending) =>
+      prevPending.map((item) => (item.key === key ? { ...item, ...changes } : item))
+    );
+  };
+
+  const addFiles = (files: File[]) => {
+    if (!onUploadFile || disabledReason) return;
+
+    const added = files.slice(0, MAX_ATTACHMENTS_PER_MESSAGE - pending.length).map((file) => ({
+      key: nextKeyRef.current++,
+      file,
+      previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined,
+    }));
+    setPending((prevPending) => [...prevPending, ...added]);
+
+    added.forEach(({ key, file }) => {
+      onUploadFile(file).then(
+        (attachment) => updatePending(key, { attachment }),
+        (error: Error) => updatePending(key, { error: error.message })
+      );
+    });
+  };
+
+  const removePending = (key: number) => {
+    const item = pending.find((p) => p.key === key);
+    if (item?.previewUrl) URL.revokeObjectURL(item.previewUrl);
+    setPending((prevPending) => prevPending.filter((p) => p.key !== key));
+  };
+
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
-    if (!message.trim()) return;
-    
-    onSendMessage(message, selectedRecipient);
+    if (!canSend) return;
+
+    onSendMessage(message, uploaded);
     setMessage('');
+    pending.forEach((item) => item.previewUrl && URL.revokeObjectURL(item.previewUrl));
+    setPending([]);
   };
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (selectedSuggestion) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : suggestions.length - 1;
+        setSuggestionIndex((suggestions.indexOf(selectedSuggestion) + step) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setSuggestionsDismissed(true);
+        return;
+      }
+      // Enter sends a command that is already typed out in full
+      if (
+        e.key === 'Tab' ||
+        (e.key === 'Enter' && !e.shiftKey && message !== `/${selectedSuggestion.name}`)
+      ) {
+        e.preventDefault();
+        completeCommand(selectedSuggestion);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -28,49 +144,161 @@ export function ChatInput({ onSendMessage, users, currentUserId }: ChatInputProp
 
   const handleChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
     setMessage(e.target.value);
+    setSuggestionIndex(0);
+    setSuggestionsDismissed(false);
+    onTyping?.(e.target.value.trim() !== '');
+  };
+
+  // Pasted screenshots arrive as files; pasted text is left to the textarea
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0 && onUploadFile) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLFormElement>) => {
+    if (!onUploadFile || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLFormElement>) => {
+    if (!onUploadFile) return;
+    e.preventDefault();
+    setDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
   };
 
-  // Filter users to exclude the current user
-  const otherUsers = users.filter(user => user.id !== currentUserId);
-  
   return (
-    <form onSubmit={handleSubmit} className="p-2 bg-white border-t">
-      <div className="flex items-center mb-2">
-        <span className="text-sm mr-2">To:</span>
-        <select
-          value={selectedRecipient || ''}
-          onChange={(e) => setSelectedRecipient(e.target.value || undefined)}
-          className="text-sm bg-gray-100 rounded py-1 px-2 flex-1"
-        >
-          <option value="">Everyone (Public)</option>
-          {otherUsers.map((user) => (
-            <option key={user.id} value={user.id}>
-              {user.username} (Private)
-            </option>
+    <form
+      onSubmit={handleSubmit}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={`relative p-2 bg-white border-t ${dragging ? 'ring-2 ring-inset ring-blue-400' : ''}`}
+    >
+      {suggestions.length > 0 && (
+        <ul className="absolute bottom-full left-2 right-2 mb-1 max-h-48 overflow-y-auto bg-white border rounded shadow text-sm">
+          {suggestions.map((command) => (
+            <li key={command.name}>
+              <button
+                type="button"
+                className={`w-full text-left px-2 py-1 ${
+                  command === selectedSuggestion ? 'bg-blue-100' : 'hover:bg-gray-100'
+                }`}
+                // Keep the focus in the textarea
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => completeCommand(command)}
+              >
+                <span className="font-mono">{command.usage}</span>
+                <span className="ml-2 text-gray-500">{command.description}</span>
+              </button>
+            </li>
           ))}
-        </select>
-      </div>
-      
+        </ul>
+      )}
+
+      {pending.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {pending.map((item) => (
+            <div
+              key={item.key}
+              title={item.error ?? item.file.name}
+              className="relative w-16 h-16 border rounded overflow-hidden bg-gray-50 flex items-center justify-center text-[10px]"
+            >
+              {item.previewUrl ? (
+                <img
+                  src={item.previewUrl}
+                  alt={item.file.name}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <span className="px-1 break-all line-clamp-3">{item.file.name}</span>
+              )}
+              {!item.attachment && !item.error && (
+                <div className="absolute inset-0 bg-white/60 flex items-center justify-center">
+                  …
+                </div>
+              )}
+              {item.error && (
+                <div className="absolute inset-0 bg-red-100/80 text-red-700 flex items-center justify-center">
+                  Failed
+                </div>
+              )}
+              <button
+                type="button"
+                aria-label={`Remove ${item.file.name}`}
+                className="absolute top-0 right-0 bg-white/80 rounded-bl px-1 text-xs"
+                onClick={() => removePending(item.key)}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="flex">
+        {onUploadFile && (
+          <>
+            <button
+              type="button"
+              title="Attach files"
+              disabled={Boolean(disabledReason) || pending.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+              className="border border-r-0 rounded-l px-2 text-gray-500 hover:text-gray-700 disabled:opacity-50"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              📎
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </>
+        )}
         <textarea
           value={message}
           onChange={handleChange}
           onKeyDown={handleKeyDown}
-          placeholder="Type a message..."
-          className="flex-1 resize-none border rounded-l p-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          onPaste={handlePaste}
+          placeholder={disabledReason ?? placeholder}
+          disabled={Boolean(disabledReason)}
+          className={`flex-1 resize-none border p-2 focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+            onUploadFile ? '' : 'rounded-l'
+          }`}
           rows={2}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
         />
         <button
           type="submit"
-          disabled={!message.trim()}
+          disabled={!canSend}
           className="bg-blue-500 text-white px-4 py-2 rounded-r hover:bg-blue-600 disabled:bg-blue-300 disabled:cursor-not-allowed"
         >
           Send
         </button>
       </div>
       <p className="text-xs text-gray-500 mt-1">
-        Press Enter to send, Shift+Enter for new line
+        {uploadError ? (
+          <span className="text-red-600">{uploadError}</span>
+        ) : (
+          `Press Enter to send, Shift+Enter for new line${onUploadFile ? ', paste or drop files to attach' : ''}${commands.length > 0 ? ', / for commands' : ''}`
+        )}
+        {message.length > MAX_CHAT_MESSAGE_LENGTH * 0.9 && (
+          <span className="float-right">
+            {message.length}/{MAX_CHAT_MESSAGE_LENGTH}
+          </span>
+        )}
       </p>
     </form>
   );
-} 
\ No newline at end of file
+}
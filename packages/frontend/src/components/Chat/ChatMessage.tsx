@@ -1,31 +1,274 @@
-import { ChatMessage as ChatMessageType } from '@vestream/shared';
+import { FormEvent, KeyboardEvent, useState } from 'react';
+import type { Attachment, ChatMessage as ChatMessageType, DirectMessage } from '@vestream/shared';
+import { MAX_CHAT_MESSAGE_LENGTH } from '@vestream/shared';
 import { formatDistanceToNow } from 'date-fns';
+import { API_URL } from '../../contexts/AuthContext';
+import type { MentionTarget } from '../../utils/messageFormat';
+import { MessageContent } from './MessageContent';
+
+// Editing, deleting and reacting; room chat passes these, direct messages don't
+export interface MessageActions {
+  currentUserId: string;
+  canModerate: boolean; // broadcaster or moderator, who may delete anyone's messages
+  onEdit: (messageId: string, content: string) => void;
+  onDelete: (messageId: string) => void;
+  onReact: (messageId: string, emoji: string, reacted: boolean) => void;
+}
 
 interface ChatMessageProps {
-  message: ChatMessageType;
+  message: ChatMessageType | DirectMessage;
   isCurrentUser: boolean;
+  actions?: MessageActions;
+  users?: MentionTarget[]; // for resolving @mentions
+  currentUserId?: string;
+  mentioned?: boolean; // the message @mentions the current user
 }
 
-export function ChatMessage({ message, isCurrentUser }: ChatMessageProps) {
+const REACTION_EMOJI = ['👍', '❤️', '😂', '😮', '👏', '🔥'];
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Images are shown inline; other files are links to download them
+function AttachmentPreview({ attachment }: { attachment: Attachment }) {
+  const url = `${API_URL}${attachment.url}`;
+  if (attachment.mimeType.startsWith('image/')) {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer">
+        <img
+          src={url}
+          alt={attachment.name}
+          loading="lazy"
+          className="max-h-48 max-w-full rounded border"
+        />
+      </a>
+    );
+  }
+  return (
+    <a href={url} download={attachment.name} className="text-sm text-blue-600 underline">
+      📄 {attachment.name} ({formatFileSize(attachment.size)})
+    </a>
+  );
+}
+
+export function ChatMessage({
+  message,
+  isCurrentUser,
+  actions,
+  users,
+  currentUserId,
+  mentioned = false,
+}: ChatMessageProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [pickingReaction, setPickingReaction] = useState(false);
+
   const timestamp = new Date(message.timestamp);
   const timeAgo = formatDistanceToNow(timestamp, { addSuffix: true });
-  
+  const roomMessage = 'type' in message ? message : undefined;
+  // Whispers sent into room chat; direct messages have their own pane
+  const isPrivate = roomMessage?.type === 'private';
+  const deleted = Boolean(roomMessage?.deleted);
+
+  // Notices from the server, e.g. a new topic or the reply to an unknown command
+  if (roomMessage?.kind === 'system') {
+    return (
+      <p className="mb-2 px-2 text-xs text-center italic text-gray-500 whitespace-pre-wrap break-words">
+        {isPrivate && 'Only you can see this · '}
+        <MessageContent content={message.content} users={users} currentUserId={currentUserId} />
+      </p>
+    );
+  }
+
+  const canReact = Boolean(actions && roomMessage && !deleted);
+  const canEdit = canReact && isCurrentUser;
+  const canDelete = canReact && (isCurrentUser || Boolean(actions?.canModerate));
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setEditing(true);
+  };
+
+  const handleEditSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (draft.trim() && draft.trim() !== message.content) {
+      actions?.onEdit(message.id, draft);
+    }
+    setEditing(false);
+  };
+
+  const handleEditKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      handleEditSubmit(e);
+    } else if (e.key === 'Escape') {
+      setEditing(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm('Delete this message for everyone?')) {
+      actions?.onDelete(message.id);
+    }
+  };
+
+  const hasReacted = (emoji: string) =>
+    Boolean(
+      actions &&
+        roomMessage?.reactions
+          ?.find((reaction) => reaction.emoji === emoji)
+          ?.userIds.includes(actions.currentUserId)
+    );
+
+  const toggleReaction = (emoji: string) => {
+    actions?.onReact(message.id, emoji, !hasReacted(emoji));
+    setPickingReaction(false);
+  };
+
   return (
     <div
-      className={`p-2 mb-2 rounded-lg ${
+      className={`group p-2 mb-2 rounded-lg ${
         isCurrentUser
           ? 'bg-blue-100 ml-8'
-          : 'bg-gray-100 mr-8'
+          : mentioned
+            ? 'bg-yellow-50 ring-1 ring-yellow-300 mr-8'
+            : 'bg-gray-100 mr-8'
       }`}
     >
       <div className="flex justify-between items-start">
-        <span className={`font-semibold text-sm ${message.type === 'private' ? 'text-purple-700' : ''}`}>
+        <span className={`font-semibold text-sm ${isPrivate ? 'text-purple-700' : ''}`}>
           {isCurrentUser ? 'You' : message.senderUsername}
-          {message.type === 'private' && ' (private)'}
+          {isPrivate && ' (private)'}
+        </span>
+        <span className="text-xs text-gray-500">
+          {roomMessage?.editedAt && !deleted && '(edited) '}
+          {timeAgo}
+          {/* Read receipts are only kept for private messages */}
+          {isPrivate && isCurrentUser && !deleted && (
+            <span
+              className="ml-1"
+              title={roomMessage?.readAt && `Seen ${new Date(roomMessage.readAt).toLocaleString()}`}
+            >
+              {roomMessage?.readAt ? '✓✓ Seen' : '✓ Sent'}
+            </span>
+          )}
         </span>
-        <span className="text-xs text-gray-500">{timeAgo}</span>
       </div>
-      <p className="mt-1 text-sm">{message.content}</p>
+
+      {deleted ? (
+        <p className="mt-1 text-sm italic text-gray-500">This message was deleted</p>
+      ) : editing ? (
+        <form className="mt-1" onSubmit={handleEditSubmit}>
+          <textarea
+            autoFocus
+            className="w-full resize-none border rounded p-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            rows={2}
+            maxLength={MAX_CHAT_MESSAGE_LENGTH}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleEditKeyDown}
+          />
+          <div className="flex space-x-2 text-xs">
+            <button type="submit" className="text-blue-600 hover:text-blue-800">
+              Save
+            </button>
+            <button
+              type="button"
+              className="text-gray-600 hover:text-gray-800"
+              onClick={() => setEditing(false)}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        message.content && (
+          <p
+            className={`mt-1 text-sm whitespace-pre-wrap break-words ${
+              roomMessage?.kind === 'action' ? 'italic' : ''
+            }`}
+          >
+            {roomMessage?.kind === 'action' && `${message.senderUsername} `}
+            <MessageContent content={message.content} users={users} currentUserId={currentUserId} />
+          </p>
+        )
+      )}
+
+      {!deleted && roomMessage?.attachments && (
+        <div className="mt-1 flex flex-wrap gap-2">
+          {roomMessage.attachments.map((attachment) => (
+            <AttachmentPreview key={attachment.id} attachment={attachment} />
+          ))}
+        </div>
+      )}
+
+      {(roomMessage?.reactions?.length || canReact) && (
+        <div className="mt-1 flex flex-wrap items-center gap-1">
+          {roomMessage?.reactions?.map((reaction) => (
+            <button
+              key={reaction.emoji}
+              type="button"
+              disabled={!canReact}
+              className={`text-xs px-1.5 rounded-full border ${
+                hasReacted(reaction.emoji)
+                  ? 'bg-blue-200 border-blue-400'
+                  : 'bg-white border-gray-300'
+              }`}
+              onClick={() => toggleReaction(reaction.emoji)}
+            >
+              {reaction.emoji} {reaction.userIds.length}
+            </button>
+          ))}
+
+          {canReact &&
+            (pickingReaction ? (
+              REACTION_EMOJI.map((emoji) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  className="text-sm hover:scale-125 transition-transform"
+                  onClick={() => toggleReaction(emoji)}
+                >
+                  {emoji}
+                </button>
+              ))
+            ) : (
+              <button
+                type="button"
+                title="Add reaction"
+                className="text-xs text-gray-500 hover:text-gray-700 opacity-0 group-hover:opacity-100"
+                onClick={() => setPickingReaction(true)}
+              >
+                +😊
+              </button>
+            ))}
+
+          {!editing && (canEdit || canDelete) && (
+            <span className="ml-auto space-x-2 text-xs opacity-0 group-hover:opacity-100">
+              {canEdit && (
+                <button
+                  type="button"
+                  className="text-gray-600 hover:text-gray-800"
+                  onClick={startEditing}
+                >
+                  Edit
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  type="button"
+                  className="text-red-600 hover:text-red-800"
+                  onClick={handleDelete}
+                >
+                  Delete
+                </button>
+              )}
+            </span>
+          )}
+        </div>
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
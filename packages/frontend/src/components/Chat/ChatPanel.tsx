@@ -1,62 +1,214 @@
-import { useRef, useEffect } from 'react';
-import type { User } from '@vestream/shared';
+import { useEffect, useState } from 'react';
+import type { Room, RoomBan, User } from '@vestream/shared';
 import { useChat } from '../../hooks/useChat';
-import { ChatMessage } from './ChatMessage';
+import type { TypingUser } from '../../hooks/useChat';
+import { useDirectMessages } from '../../hooks/useDirectMessages';
 import { ChatInput } from './ChatInput';
+import { DirectMessages } from './DirectMessages';
+import { MessageList } from './MessageList';
+import type { MessageActions } from './ChatMessage';
+import { UserList, getActiveMute, isModerator } from './UserList';
+
+// "alice is typing…", "alice and bob are typing…", and so on
+function describeTyping(typingUsers: TypingUser[]) {
+  const names = typingUsers.map((user) => user.username);
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length <= 3) {
+    return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]} are typing…`;
+  }
+  return 'Several people are typing…';
+}
 
 interface ChatPanelProps {
   roomId: string;
+  room?: Room;
   currentUser?: User;
+  bans?: RoomBan[];
 }
 
-export function ChatPanel({ roomId, currentUser }: ChatPanelProps) {
-  const { messages, users, sendChatMessage } = useChat({
-    roomId,
-    currentUser,
-  });
-  
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  
-  // Scroll to bottom when new messages arrive
+export function ChatPanel({ roomId, room, currentUser, bans = [] }: ChatPanelProps) {
+  const {
+    messages,
+    users,
+    hasMore,
+    loadingOlder,
+    typingUsers,
+    unreadMentions,
+    commands,
+    sendChatMessage,
+    uploadAttachment,
+    setTyping,
+    markMessagesRead,
+    clearMentions,
+    loadOlderMessages,
+    editMessage,
+    deleteMessage,
+    reactToMessage,
+  } = useChat({ roomId, currentUser });
+
+  const directMessages = useDirectMessages();
+  const [tab, setTab] = useState<'room' | 'direct'>('room');
+  const [showUsers, setShowUsers] = useState(false);
+
+  const mute = room && currentUser ? getActiveMute(room, currentUser.id) : undefined;
+  const muteReason = mute?.until ? 'You are timed out from chat' : 'You are muted in this room';
+
+  // Re-render when a timeout runs out so the input unlocks by itself
+  const [, setNow] = useState(Date.now());
+  const muteUntil = mute?.until;
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages.length]);
-  
+    if (!muteUntil) return;
+    const timer = setTimeout(() => setNow(Date.now()), Date.parse(muteUntil) - Date.now());
+    return () => clearTimeout(timer);
+  }, [muteUntil]);
+
+  // Private messages and mentions count as seen while the room chat is on screen
+  useEffect(() => {
+    if (tab !== 'room') return;
+    const markReadIfVisible = () => {
+      if (document.visibilityState !== 'visible') return;
+      markMessagesRead();
+      clearMentions();
+    };
+    markReadIfVisible();
+    document.addEventListener('visibilitychange', markReadIfVisible);
+    return () => document.removeEventListener('visibilitychange', markReadIfVisible);
+  }, [tab, markMessagesRead, clearMentions]);
+
+  // Unseen mentions also show in the browser tab's title
+  useEffect(() => {
+    if (!unreadMentions) return;
+    const title = document.title;
+    document.title = `(${unreadMentions}) ${title}`;
+    return () => {
+      document.title = title;
+    };
+  }, [unreadMentions]);
+
   if (!currentUser) {
     return null;
   }
-  
+
+  const showTab = (nextTab: 'room' | 'direct') => {
+    setTab(nextTab);
+    // Leaving the pane closes the conversation so new messages count as unread again
+    if (nextTab === 'room') directMessages.closeThread();
+  };
+
+  const handleMessageUser = (user: User) => {
+    setTab('direct');
+    setShowUsers(false);
+    directMessages.openThread({ id: user.id, username: user.username });
+  };
+
+  const canModerate = room ? isModerator(room, currentUser.id) : false;
+  const availableCommands = commands.filter(
+    (command) => command.permission === 'everyone' || canModerate
+  );
+
+  const messageActions: MessageActions = {
+    currentUserId: currentUser.id,
+    canModerate,
+    onEdit: editMessage,
+    onDelete: deleteMessage,
+    onReact: reactToMessage,
+  };
+
+  const tabClassName = (value: 'room' | 'direct') =>
+    `font-semibold mr-4 ${tab === value ? 'text-gray-900' : 'text-gray-500 hover:text-gray-700'}`;
+
   return (
     <div className="flex flex-col h-full border rounded-lg bg-white overflow-hidden">
       <div className="bg-gray-100 p-3 border-b">
-        <h3 className="font-semibold">Room Chat</h3>
-        <div className="text-xs text-gray-500">
-          {users.length} {users.length === 1 ? 'user' : 'users'} online
+        <div>
+          <button type="button" className={tabClassName('room')} onClick={() => showTab('room')}>
+            Room Chat
+            {unreadMentions > 0 && (
+              <span
+                className="ml-1 text-xs bg-yellow-400 text-gray-900 rounded-full px-2"
+                title="Unread mentions"
+              >
+                @{unreadMentions}
+              </span>
+            )}
+          </button>
+          <button
+            type="button"
+            className={tabClassName('direct')}
+            onClick={() => showTab('direct')}
+          >
+            Direct
+            {directMessages.unreadCount > 0 && (
+              <span className="ml-1 text-xs bg-blue-500 text-white rounded-full px-2">
+                {directMessages.unreadCount}
+              </span>
+            )}
+          </button>
         </div>
-      </div>
-      
-      <div className="flex-1 overflow-y-auto p-3">
-        {messages.length === 0 ? (
-          <div className="text-center text-gray-500 py-4">
-            No messages yet. Start the conversation!
-          </div>
-        ) : (
-          messages.map((message) => (
-            <ChatMessage
-              key={message.id}
-              message={message}
-              isCurrentUser={message.senderId === currentUser.id}
-            />
-          ))
+        <button
+          type="button"
+          className="text-xs text-gray-500 hover:text-gray-700"
+          onClick={() => setShowUsers(!showUsers)}
+        >
+          {users.length} {users.length === 1 ? 'user' : 'users'} online {showUsers ? '▲' : '▼'}
+        </button>
+        {room?.topic && (
+          <p className="text-xs text-gray-700 truncate" title={room.topic}>
+            Topic: {room.topic}
+          </p>
         )}
-        <div ref={messagesEndRef} />
       </div>
-      
-      <ChatInput
-        onSendMessage={sendChatMessage}
-        users={users}
-        currentUserId={currentUser.id}
-      />
+
+      {showUsers && room && (
+        <UserList
+          users={users}
+          room={room}
+          currentUser={currentUser}
+          bans={bans}
+          onMessage={handleMessageUser}
+        />
+      )}
+
+      {tab === 'direct' ? (
+        <DirectMessages
+          currentUser={currentUser}
+          threads={directMessages.threads}
+          activePeer={directMessages.activePeer}
+          messages={directMessages.messages}
+          hasMore={directMessages.hasMore}
+          loadingOlder={directMessages.loadingOlder}
+          onOpenThread={directMessages.openThread}
+          onCloseThread={directMessages.closeThread}
+          onLoadOlder={directMessages.loadOlderMessages}
+          onSendMessage={directMessages.sendDirectMessage}
+        />
+      ) : (
+        <>
+          <MessageList
+            messages={messages}
+            currentUserId={currentUser.id}
+            emptyText="No messages yet. Start the conversation!"
+            hasMore={hasMore}
+            loadingOlder={loadingOlder}
+            onLoadOlder={loadOlderMessages}
+            actions={messageActions}
+            users={users}
+          />
+
+          <div className="px-3 h-5 text-xs italic text-gray-500 truncate">
+            {describeTyping(typingUsers)}
+          </div>
+
+          <ChatInput
+            onSendMessage={sendChatMessage}
+            onTyping={setTyping}
+            onUploadFile={uploadAttachment}
+            commands={availableCommands}
+            disabledReason={mute ? muteReason : undefined}
+          />
+        </>
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
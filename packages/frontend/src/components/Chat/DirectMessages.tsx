@@ -0,0 +1,106 @@
+import type { DirectMessage, DirectThread, User } from '@vestream/shared';
+import { formatDistanceToNow } from 'date-fns';
+import type { DirectPeer } from '../../hooks/useDirectMessages';
+import { ChatInput } from './ChatInput';
+import { MessageList } from './MessageList';
+
+interface DirectMessagesProps {
+  currentUser: User;
+  threads: DirectThread[];
+  activePeer?: DirectPeer;
+  messages: DirectMessage[];
+  hasMore: boolean; // older messages of the open thread can be loaded
+  loadingOlder: boolean;
+  onOpenThread: (peer: DirectPeer) => void;
+  onCloseThread: () => void;
+  onLoadOlder: () => void;
+  onSendMessage: (content: string) => void;
+}
+
+// The user's conversations, or the open one with its messages
+export function DirectMessages({
+  currentUser,
+  threads,
+  activePeer,
+  messages,
+  hasMore,
+  loadingOlder,
+  onOpenThread,
+  onCloseThread,
+  onLoadOlder,
+  onSendMessage,
+}: DirectMessagesProps) {
+  if (!activePeer) {
+    return (
+      <div className="flex-1 overflow-y-auto">
+        {threads.length === 0 ? (
+          <div className="text-center text-gray-500 py-4 px-3 text-sm">
+            No conversations yet. Open the user list to message someone in the room.
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {threads.map((thread) => (
+              <li key={thread.peer.id}>
+                <button
+                  type="button"
+                  className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                  onClick={() => onOpenThread(thread.peer)}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={`text-sm ${thread.unreadCount ? 'font-semibold' : ''}`}>
+                      {thread.peer.username}
+                    </span>
+                    {thread.unreadCount > 0 && (
+                      <span className="text-xs bg-blue-500 text-white rounded-full px-2">
+                        {thread.unreadCount}
+                      </span>
+                    )}
+                  </div>
+                  {thread.lastMessage && (
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span className="truncate mr-2">
+                        {thread.lastMessage.senderId === currentUser.id && 'You: '}
+                        {thread.lastMessage.content}
+                      </span>
+                      <span className="shrink-0">
+                        {formatDistanceToNow(new Date(thread.lastMessage.timestamp), {
+                          addSuffix: true,
+                        })}
+                      </span>
+                    </div>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex items-center px-3 py-2 border-b text-sm">
+        <button
+          type="button"
+          className="text-gray-500 hover:text-gray-700 mr-2"
+          onClick={onCloseThread}
+        >
+          ←
+        </button>
+        <span className="font-medium">{activePeer.username}</span>
+      </div>
+
+      <MessageList
+        messages={messages}
+        currentUserId={currentUser.id}
+        emptyText={`No messages yet. Say hello to ${activePeer.username}!`}
+        hasMore={hasMore}
+        loadingOlder={loadingOlder}
+        onLoadOlder={onLoadOlder}
+      />
+
+      <ChatInput onSendMessage={onSendMessage} placeholder={`Message ${activePeer.username}...`} />
+    </>
+  );
+}
@@ -0,0 +1,65 @@
+import { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { parseMessageContent } from '../../utils/messageFormat';
+import type { MentionTarget, Segment } from '../../utils/messageFormat';
+
+interface MessageContentProps {
+  content: string;
+  users?: MentionTarget[]; // who @mentions resolve to; unresolved ones stay plain text
+  currentUserId?: string;
+}
+
+function renderSegments(segments: Segment[], currentUserId?: string): ReactNode[] {
+  return segments.map((segment, index) => {
+    switch (segment.type) {
+      case 'text':
+        return segment.text;
+      case 'bold':
+        return <strong key={index}>{renderSegments(segment.children, currentUserId)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderSegments(segment.children, currentUserId)}</em>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 rounded bg-gray-200 font-mono text-xs">
+            {segment.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={segment.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 underline break-all"
+          >
+            {segment.text}
+          </a>
+        );
+      case 'emoji':
+        return (
+          <span key={index} title={`:${segment.shortcode}:`}>
+            {segment.emoji}
+          </span>
+        );
+      case 'mention':
+        return (
+          <span
+            key={index}
+            className={`font-medium rounded px-0.5 ${
+              segment.userId === currentUserId ? 'bg-yellow-200' : 'text-blue-700'
+            }`}
+          >
+            @{segment.username}
+          </span>
+        );
+    }
+  });
+}
+
+// Chat text with the markdown subset, links, emoji shortcodes and mentions rendered.
+// Everything becomes React elements, so the content can't smuggle in HTML
+export function MessageContent({ content, users, currentUserId }: MessageContentProps) {
+  const segments = useMemo(() => parseMessageContent(content, users), [content, users]);
+  return <>{renderSegments(segments, currentUserId)}</>;
+}
@@ -0,0 +1,106 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import type { ChatMessage as ChatMessageType, DirectMessage } from '@vestream/shared';
+import { mentionsUser } from '../../utils/messageFormat';
+import type { MentionTarget } from '../../utils/messageFormat';
+import { ChatMessage } from './ChatMessage';
+import type { MessageActions } from './ChatMessage';
+
+interface MessageListProps {
+  messages: (ChatMessageType | DirectMessage)[];
+  currentUserId: string;
+  emptyText: string;
+  hasMore?: boolean; // older messages can be loaded
+  loadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  actions?: MessageActions;
+  users?: MentionTarget[]; // for resolving @mentions; without them mentions stay plain text
+}
+
+// How close to the top the user has to scroll before older messages are requested
+const LOAD_OLDER_THRESHOLD_PX = 48;
+
+// Scrollable message history that follows new messages and loads older ones on the way up
+export function MessageList({
+  messages,
+  currentUserId,
+  emptyText,
+  hasMore = false,
+  loadingOlder = false,
+  onLoadOlder,
+  actions,
+  users,
+}: MessageListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  // Scroll to the bottom when a new message arrives, but not when older ones are added
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [lastMessageId]);
+
+  // When older messages land above the ones on screen, shift the scroll position by the
+  // height they added so the view doesn't jump
+  const firstMessageId = messages[0]?.id;
+  const previousRef = useRef({ firstMessageId, scrollHeight: 0 });
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const previous = previousRef.current;
+    const prepended =
+      firstMessageId !== previous.firstMessageId &&
+      messages.some((message) => message.id === previous.firstMessageId);
+    if (prepended) {
+      container.scrollTop += container.scrollHeight - previous.scrollHeight;
+    }
+    previousRef.current = { firstMessageId, scrollHeight: container.scrollHeight };
+  });
+
+  const currentUser = users?.find((user) => user.id === currentUserId);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (container && container.scrollTop < LOAD_OLDER_THRESHOLD_PX && hasMore && !loadingOlder) {
+      onLoadOlder?.();
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="flex-1 overflow-y-auto p-3" onScroll={handleScroll}>
+      {hasMore && (
+        <div className="text-center text-xs text-gray-500 mb-2">
+          {loadingOlder ? (
+            'Loading earlier messages...'
+          ) : (
+            // For when the history is too short to scroll
+            <button type="button" className="hover:text-gray-700" onClick={onLoadOlder}>
+              Load earlier messages
+            </button>
+          )}
+        </div>
+      )}
+
+      {messages.length === 0 ? (
+        <div className="text-center text-gray-500 py-4">{emptyText}</div>
+      ) : (
+        messages.map((message) => (
+          <ChatMessage
+            key={message.id}
+            message={message}
+            isCurrentUser={message.senderId === currentUserId}
+            actions={actions}
+            users={users}
+            currentUserId={currentUserId}
+            mentioned={
+              currentUser !== undefined &&
+              message.senderId !== currentUserId &&
+              mentionsUser(message.content, currentUser)
+            }
+          />
+        ))
+      )}
+      <div ref={messagesEndRef} />
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import type { Room, RoomBan, RoomMute, User } from '@vestream/shared';
+import { useWebSocket } from '../../contexts/WebSocketContext';
+
+interface UserListProps {
+  users: User[];
+  room: Room;
+  currentUser: User;
+  bans: RoomBan[];
+  onMessage: (user: User) => void;
+}
+
+const TIMEOUT_MS = 5 * 60 * 1000;
+
+export function getActiveMute(room: Room, userId: string): RoomMute | undefined {
+  return room.mutes?.find(
+    (mute) => mute.userId === userId && (!mute.until || Date.parse(mute.until) > Date.now())
+  );
+}
+
+export function isModerator(room: Room, userId: string) {
+  return room.broadcaster === userId || Boolean(room.moderators?.includes(userId));
+}
+
+// Returns undefined when the moderator cancels
+function askReason(action: string, username: string) {
+  const reason = window.prompt(`Reason to ${action} ${username} (optional)`);
+  return reason === null ? undefined : { reason: reason.trim() || undefined };
+}
+
+export function UserList({ users, room, currentUser, bans, onMessage }: UserListProps) {
+  const { send } = useWebSocket();
+  const isBroadcaster = room.broadcaster === currentUser.id;
+  const canModerate = isModerator(room, currentUser.id);
+
+  // Mirrors the server's rules: nobody moderates the broadcaster or themselves,
+  // and only the broadcaster moderates moderators
+  const canModerateUser = (user: User) =>
+    canModerate &&
+    user.id !== currentUser.id &&
+    user.id !== room.broadcaster &&
+    (isBroadcaster || !isModerator(room, user.id));
+
+  const handleKick = (user: User) => {
+    const answer = askReason('kick', user.username);
+    if (answer) send('KICK_USER', { roomId: room.id, userId: user.id, ...answer });
+  };
+
+  const handleBan = (user: User) => {
+    const answer = askReason('ban', user.username);
+    if (answer) send('BAN_USER', { roomId: room.id, userId: user.id, ...answer });
+  };
+
+  return (
+    <div className="border-b bg-gray-50 max-h-48 overflow-y-auto text-sm">
+      <ul className="divide-y">
+        {users.map((user) => {
+          const mute = getActiveMute(room, user.id);
+          return (
+            <li key={user.id} className="px-3 py-2">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium">{user.username}</span>
+                {user.id === room.broadcaster && (
+                  <span className="text-xs bg-red-100 text-red-700 px-1 rounded">Broadcaster</span>
+                )}
+                {room.moderators?.includes(user.id) && (
+                  <span className="text-xs bg-green-100 text-green-700 px-1 rounded">Mod</span>
+                )}
+                {user.guest && (
+                  <span className="text-xs bg-gray-200 text-gray-600 px-1 rounded">Guest</span>
+                )}
+                {mute && (
+                  <span className="text-xs bg-yellow-100 text-yellow-700 px-1 rounded">
+                    {mute.until ? 'Timed out' : 'Muted'}
+                  </span>
+                )}
+                {user.id !== currentUser.id && (
+                  <button
+                    type="button"
+                    className="ml-auto text-xs text-blue-600 hover:text-blue-800"
+                    onClick={() => onMessage(user)}
+                  >
+                    Message
+                  </button>
+                )}
+              </div>
+
+              {canModerateUser(user) && (
+                <div className="mt-1 flex flex-wrap gap-2 text-xs">
+                  <button
+                    type="button"
+                    className="text-gray-600 hover:text-gray-900"
+                    onClick={() =>
+                      send('MUTE_USER', { roomId: room.id, userId: user.id, muted: !mute })
+                    }
+                  >
+                    {mute ? 'Unmute' : 'Mute'}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-gray-600 hover:text-gray-900"
+                    onClick={() =>
+                      send('TIMEOUT_USER', {
+                        roomId: room.id,
+                        userId: user.id,
+                        durationMs: TIMEOUT_MS,
+                      })
+                    }
+                  >
+                    Timeout 5m
+                  </button>
+                  <button
+                    type="button"
+                    className="text-orange-600 hover:text-orange-800"
+                    onClick={() => handleKick(user)}
+                  >
+                    Kick
+                  </button>
+                  <button
+                    type="button"
+                    className="text-red-600 hover:text-red-800"
+                    onClick={() => handleBan(user)}
+                  >
+                    Ban
+                  </button>
+                  {isBroadcaster && (
+                    <button
+                      type="button"
+                      className="text-green-600 hover:text-green-800"
+                      onClick={() =>
+                        send('SET_MODERATOR', {
+                          roomId: room.id,
+                          userId: user.id,
+                          moderator: !room.moderators?.includes(user.id),
+                        })
+                      }
+                    >
+                      {room.moderators?.includes(user.id) ? 'Remove mod' : 'Make mod'}
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {canModerate && bans.length > 0 && (
+        <div className="px-3 py-2 border-t">
+          <div className="text-xs font-semibold text-gray-500 mb-1">Banned</div>
+          <ul className="space-y-1">
+            {bans.map((ban) => (
+              <li key={ban.userId} className="flex items-center justify-between">
+                <span title={ban.reason}>
+                  {ban.username}
+                  <span className="text-xs text-gray-500"> by {ban.bannedBy}</span>
+                </span>
+                <button
+                  type="button"
+                  className="text-xs text-gray-600 hover:text-gray-900"
+                  onClick={() => send('UNBAN_USER', { roomId: room.id, userId: ban.userId })}
+                >
+                  Unban
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { Link, Outlet } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
 
 export default function Layout() {
+  const { account, logout } = useAuth();
+
   return (
     <div className="min-h-screen bg-gray-100">
       <nav className="bg-white shadow-sm">
@@ -22,6 +25,18 @@ export default function Layout() {
                 {/* Add more navigation items here */}
               </div>
             </div>
+            {account && (
+              <div className="flex items-center space-x-4">
+                <span className="text-sm text-gray-700">{account.username}</span>
+                <button
+                  type="button"
+                  className="text-sm font-medium text-gray-500 hover:text-gray-900"
+                  onClick={logout}
+                >
+                  Sign out
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </nav>
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import type { SelectedDevices, VideoSource } from '../hooks/useWebRTC';
+import { QUALITY_PRESETS, type QualityPreset } from '../utils/videoQuality';
+
+type DeviceKind = keyof SelectedDevices;
+
+interface MediaControlsProps {
+  videoSource: VideoSource;
+  onVideoSourceChange: (source: VideoSource) => Promise<boolean>;
+  muted: boolean;
+  onMutedChange: (muted: boolean) => void;
+  cameraOff: boolean;
+  onCameraOffChange: (cameraOff: boolean) => void;
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  selectedDevices: SelectedDevices;
+  onDeviceChange: (kind: DeviceKind, deviceId: string) => Promise<boolean>;
+  quality: QualityPreset;
+  onQualityChange: (preset: QualityPreset) => Promise<void>;
+  adaptive: boolean; // lower the quality for viewers whose connection is congested
+  onAdaptiveChange: (adaptive: boolean) => void;
+}
+
+const VIDEO_SOURCES: { value: VideoSource; label: string }[] = [
+  { value: 'camera', label: 'Camera' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'composite', label: 'Screen + camera' },
+];
+
+const toggleClassName = (active: boolean) =>
+  `px-3 py-1 rounded border ${
+    active ? 'bg-red-500 border-red-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+  }`;
+
+// Broadcaster controls for what the stream shows and which devices feed it
+export default function MediaControls({
+  videoSource,
+  onVideoSourceChange,
+  muted,
+  onMutedChange,
+  cameraOff,
+  onCameraOffChange,
+  cameras,
+  microphones,
+  selectedDevices,
+  onDeviceChange,
+  quality,
+  onQualityChange,
+  adaptive,
+  onAdaptiveChange,
+}: MediaControlsProps) {
+  const [switching, setSwitching] = useState(false);
+
+  const handleSelect = async (source: VideoSource) => {
+    setSwitching(true);
+    await onVideoSourceChange(source);
+    setSwitching(false);
+  };
+
+  const handleDeviceSelect = async (kind: DeviceKind, deviceId: string) => {
+    setSwitching(true);
+    await onDeviceChange(kind, deviceId);
+    setSwitching(false);
+  };
+
+  const handleQualitySelect = async (preset: QualityPreset) => {
+    setSwitching(true);
+    await onQualityChange(preset);
+    setSwitching(false);
+  };
+
+  const deviceSelect = (kind: DeviceKind, label: string, devices: MediaDeviceInfo[]) => (
+    <label className="flex items-center gap-1">
+      <span className="text-gray-600">{label}:</span>
+      <select
+        value={selectedDevices[kind] ?? ''}
+        disabled={switching || devices.length === 0}
+        className="border rounded px-2 py-1 max-w-[12rem]"
+        onChange={(e) => handleDeviceSelect(kind, e.target.value)}
+      >
+        {devices.length === 0 && <option value="">None found</option>}
+        {devices.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `${label} ${index + 1}`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <button
+        type="button"
+        className={toggleClassName(muted)}
+        onClick={() => onMutedChange(!muted)}
+      >
+        {muted ? 'Unmute' : 'Mute'}
+      </button>
+      <button
+        type="button"
+        className={toggleClassName(cameraOff)}
+        onClick={() => onCameraOffChange(!cameraOff)}
+      >
+        {cameraOff ? 'Turn camera on' : 'Turn camera off'}
+      </button>
+
+      {deviceSelect('videoinput', 'Camera', cameras)}
+      {deviceSelect('audioinput', 'Microphone', microphones)}
+
+      <label className="flex items-center gap-1">
+        <span className="text-gray-600">Quality:</span>
+        <select
+          value={quality}
+          disabled={switching}
+          className="border rounded px-2 py-1"
+          onChange={(e) => handleQualitySelect(e.target.value as QualityPreset)}
+        >
+          {Object.entries(QUALITY_PRESETS).map(([preset, { maxBitrateKbps }]) => (
+            <option key={preset} value={preset}>
+              {preset} ({(maxBitrateKbps / 1000).toFixed(1)} Mbps)
+            </option>
+          ))}
+        </select>
+      </label>
+      <label
+        className="flex items-center gap-1"
+        title="Send viewers with a congested connection a lower bitrate"
+      >
+        <input
+          type="checkbox"
+          checked={adaptive}
+          onChange={(e) => onAdaptiveChange(e.target.checked)}
+        />
+        <span className="text-gray-600">Adaptive</span>
+      </label>
+
+      <span className="text-gray-600">Show:</span>
+      <div className="inline-flex rounded border overflow-hidden">
+        {VIDEO_SOURCES.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            disabled={switching}
+            className={`px-3 py-1 ${
+              videoSource === value
+                ? 'bg-blue-500 text-white'
+                : 'bg-white text-gray-700 hover:bg-gray-100'
+            } disabled:opacity-50`}
+            onClick={() => handleSelect(value)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
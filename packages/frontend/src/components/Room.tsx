@@ -1,47 +1,133 @@
 import { useEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
 import type {
   User,
-  Room as RoomType,
-  RTCSignalPayload,
+  RoomDetails,
+  RoomBan,
   ErrorPayload,
-  BroadcasterReadyPayload,
-  ViewerReadyPayload,
+  MediaState,
+  StreamMode,
+  ViewerStats,
 } from '@vestream/shared';
 import { useWebSocket } from '../contexts/WebSocketContext';
+import { useMediaDevices } from '../hooks/useMediaDevices';
 import { useWebRTC } from '../hooks/useWebRTC';
+import { useWSEvent } from '../hooks/useWSEvent';
 import { ChatPanel } from './Chat';
+import MediaControls from './MediaControls';
+import RoomSettings from './RoomSettings';
+import StatsOverlay from './StatsOverlay';
+import ViewerConnections from './ViewerConnections';
 
 interface RoomProps {
   roomId: string;
-  username: string;
+  username?: string; // guests only; signed-in users join under their account name
   role: 'broadcaster' | 'viewer';
+  allowGuests?: boolean; // when creating the room
+  isPrivate?: boolean; // when creating the room
+  mode?: StreamMode; // when creating the room
+  password?: string;
+  invite?: string;
   onError?: (error: ErrorPayload) => void;
+  onRemoved?: (message: string) => void; // kicked or banned by a moderator
 }
 
-export default function Room({ roomId, username, role, onError }: RoomProps) {
-  const { connected, connect, disconnect, sendMessage, lastMessage } = useWebSocket();
+const STATS_REPORT_INTERVAL_MS = 5_000; // how often viewers send PEER_STATS
+
+function VideoOverlay({ children }: { children: ReactNode }) {
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-gray-900 text-gray-300">
+      {children}
+    </div>
+  );
+}
+
+function MutedBadge({ text }: { text: string }) {
+  return (
+    <div className="absolute top-2 right-2 bg-black/50 text-white text-sm px-2 py-1 rounded">
+      🔇 {text}
+    </div>
+  );
+}
+
+export default function Room({
+  roomId,
+  username,
+  role,
+  allowGuests,
+  isPrivate,
+  mode,
+  password,
+  invite,
+  onError,
+  onRemoved,
+}: RoomProps) {
+  const { connected, reconnecting, connect, disconnect, send } = useWebSocket();
   const [currentUser, setCurrentUser] = useState<User>();
-  const [room, setRoom] = useState<RoomType>();
-  const [remoteUser, setRemoteUser] = useState<User>();
+  const currentUserRef = useRef<User>();
+  const [room, setRoom] = useState<RoomDetails>();
+  // For handlers of messages that come before the joined room has rendered
+  const roomModeRef = useRef<StreamMode>();
   const [broadcaster, setBroadcaster] = useState<User>();
+  const [broadcasterMedia, setBroadcasterMedia] = useState<MediaState>(); // viewers only
+  const [showStats, setShowStats] = useState(false); // viewers only
+  const [viewerStats, setViewerStats] = useState<Record<string, ViewerStats>>({}); // broadcaster only
+  const lastStatsReportRef = useRef(0);
   const [error, setError] = useState<string>();
+  // Problems that don't end our stay in the room, e.g. a chat message refused while muted
+  const [notice, setNotice] = useState<string>();
+  const [bans, setBans] = useState<RoomBan[]>([]);
   const [isJoining, setIsJoining] = useState(false);
   const [isStreamReady, setIsStreamReady] = useState(false);
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
   const hasJoinedRef = useRef(false);
+  // Session resume state: the server-issued token and the last chat message we saw
+  const resumeTokenRef = useRef<string>();
+  const lastMessageIdRef = useRef<string>();
+  const needsResumeRef = useRef(false);
 
-  const { localStream, startLocalStream, handleIncomingSignal, initiateCall } = useWebRTC({
+  const {
+    localStream,
+    peers,
+    peerStats,
+    videoSource,
+    selectedDevices,
+    muted,
+    cameraOff,
+    startLocalStream,
+    setVideoSource,
+    switchDevice,
+    setMuted,
+    setCameraOff,
+    quality,
+    adaptive,
+    setQuality,
+    setAdaptive,
+    adaptToStats,
+    handleIncomingSignal,
+    initiateCall,
+    connectToSfu,
+    closePeer,
+    closeAllPeers,
+  } = useWebRTC({
     user: currentUser,
-    remoteUser: role === 'broadcaster' ? remoteUser : broadcaster,
-    onTrack: (stream) => {
+    roomUsers: room?.users,
+    onTrack: (stream, peerUser) => {
+      // Only the broadcaster sends media
+      if (peerUser.role !== 'broadcaster') return;
       console.log('Remote track received, setting remote video stream');
       if (remoteVideoRef.current) {
         remoteVideoRef.current.srcObject = stream;
       }
     },
-    sendMessage,
+    send,
   });
+  const { cameras, microphones } = useMediaDevices(Boolean(localStream));
+
+  // Viewers only ever have the one connection, to the broadcaster or the server standing in
+  const broadcasterPeer = peers.find((peer) => peer.user.role === 'broadcaster');
+  const broadcasterStats = broadcasterPeer && peerStats[broadcasterPeer.user.id];
 
   // Connect to WebSocket when component mounts
   useEffect(() => {
@@ -50,9 +136,13 @@ export default function Room({ roomId, username, role, onError }: RoomProps) {
     
     return () => {
       console.log('Room component unmounting, disconnecting WebSocket...');
+      // Otherwise the server holds our slot for a resume that isn't coming
+      if (hasJoinedRef.current && currentUserRef.current) {
+        send('LEAVE_ROOM', { roomId: currentUserRef.current.roomId });
+      }
       disconnect();
     };
-  }, [connect, disconnect]);
+  }, [connect, disconnect, send]);
 
   // Join room once connected
   useEffect(() => {
@@ -62,172 +152,312 @@ export default function Room({ roomId, username, role, onError }: RoomProps) {
     setIsJoining(true);
 
     try {
-      sendMessage({
-        type: 'JOIN_ROOM',
-        payload: {
-          roomId,
-          username,
-          role,
-        },
-        timestamp: new Date().toISOString(),
+      send('JOIN_ROOM', {
+        roomId,
+        username,
+        role,
+        allowGuests,
+        private: isPrivate,
+        mode,
+        password,
+        invite,
       });
     } catch (error) {
       console.error('Error sending join room message:', error);
       setError('Failed to join room. Please try again.');
       setIsJoining(false);
     }
-  }, [connected, roomId, username, role, sendMessage, isJoining]);
+  }, [
+    connected,
+    roomId,
+    username,
+    role,
+    allowGuests,
+    isPrivate,
+    mode,
+    password,
+    invite,
+    send,
+    isJoining,
+  ]);
 
-  // Notify server when broadcaster stream is ready
+  // Resume our session after the socket reconnects instead of joining again
+  useEffect(() => {
+    if (!connected) {
+      needsResumeRef.current = hasJoinedRef.current;
+      return;
+    }
+    if (!needsResumeRef.current || !resumeTokenRef.current) return;
+
+    console.log('Reconnected to WebSocket, resuming session...');
+    needsResumeRef.current = false;
+    send('RESUME_SESSION', {
+      token: resumeTokenRef.current,
+      lastMessageId: lastMessageIdRef.current,
+    });
+  }, [connected, send]);
+
+  // Notify server when broadcaster stream is ready; in sfu rooms, start sending it there too
   useEffect(() => {
     if (!currentUser || !localStream || isStreamReady || currentUser.role !== 'broadcaster') return;
 
     console.log('Local stream ready, notifying server...');
     setIsStreamReady(true);
     
-    sendMessage({
-      type: 'STREAM_READY',
-      payload: {
-        roomId: currentUser.roomId,
-        userId: currentUser.id,
-      },
-      timestamp: new Date().toISOString(),
+    send('STREAM_READY', {
+      roomId: currentUser.roomId,
+      userId: currentUser.id,
     });
-  }, [currentUser, localStream, sendMessage, isStreamReady]);
+    if (roomModeRef.current === 'sfu') {
+      connectToSfu(currentUser);
+    }
+  }, [currentUser, localStream, send, isStreamReady, connectToSfu]);
 
-  // Notify server when viewer is ready for stream
+  // Tell viewers what the stream shows, once it's announced and after every change
   useEffect(() => {
-    if (!currentUser || currentUser.role !== 'viewer' || !room || !room.broadcaster) return;
-
-    console.log('Viewer ready, notifying server about readiness to receive stream');
-    sendMessage({
-      type: 'VIEWER_READY',
-      payload: {
-        roomId: currentUser.roomId,
-        userId: currentUser.id,
-      },
-      timestamp: new Date().toISOString(),
+    if (!currentUser || currentUser.role !== 'broadcaster' || !isStreamReady) return;
+    send('MEDIA_STATE', {
+      roomId: currentUser.roomId,
+      state: { source: videoSource, muted, cameraOff },
     });
-  }, [currentUser, room, sendMessage]);
+  }, [currentUser, isStreamReady, videoSource, muted, cameraOff, send]);
 
-  // Handle incoming WebSocket messages
+  // Viewers report how the stream reaches them, for the broadcaster's table of viewers
   useEffect(() => {
-    if (!lastMessage) return;
-
-    console.log('Handling WebSocket message:', lastMessage.type);
-
-    switch (lastMessage.type) {
-      case 'ERROR': {
-        const errorPayload = lastMessage.payload as ErrorPayload;
-        console.error('Received error:', errorPayload);
-        setError(errorPayload.message);
-        setIsJoining(false);
-        onError?.(errorPayload);
-        break;
-      }
+    if (!currentUser || currentUser.role !== 'viewer' || !broadcasterStats) return;
+    if (Date.now() - lastStatsReportRef.current < STATS_REPORT_INTERVAL_MS) return;
+    lastStatsReportRef.current = Date.now();
+    send('PEER_STATS', { roomId: currentUser.roomId, stats: broadcasterStats });
+  }, [currentUser, broadcasterStats, send]);
 
-      case 'ROOM_JOINED': {
-        const { room: newRoom, user } = lastMessage.payload as any;
-        console.log('Successfully joined room:', newRoom.id, 'as user:', user.username);
-        setRoom(newRoom);
-        setCurrentUser(user);
-        setError(undefined);
-        setIsJoining(false);
-        hasJoinedRef.current = true;
-
-        // If broadcaster, start local stream
-        if (user.role === 'broadcaster') {
-          console.log('Starting local stream for broadcaster');
-          startLocalStream();
-        }
-        
-        // Set broadcaster if we're a viewer
-        if (user.role === 'viewer' && newRoom.broadcaster) {
-          const broadcasterUser = newRoom.users?.find((u: User) => u.id === newRoom.broadcaster);
-          if (broadcasterUser) {
-            setBroadcaster(broadcasterUser);
-          }
-        }
-        break;
-      }
+  // A camera or microphone that's unplugged mid-stream is replaced by the first one left
+  useEffect(() => {
+    const fallBack = (kind: 'videoinput' | 'audioinput', devices: MediaDeviceInfo[]) => {
+      const selected = selectedDevices[kind];
+      if (!selected || devices.length === 0) return;
+      if (devices.some((device) => device.deviceId === selected)) return;
+      console.log(`Selected ${kind} is gone, switching to ${devices[0].label}`);
+      switchDevice(kind, devices[0].deviceId);
+    };
+    fallBack('videoinput', cameras);
+    fallBack('audioinput', microphones);
+  }, [cameras, microphones, selectedDevices, switchDevice]);
 
-      case 'BROADCASTER_READY': {
-        if (!currentUser || currentUser.role !== 'viewer') break;
-        
-        const { broadcaster: broadcasterUser } = lastMessage.payload as BroadcasterReadyPayload;
-        console.log('Broadcaster is ready with stream:', broadcasterUser.username);
+  // Viewers ask for a call with VIEWER_READY when the server announces the stream with
+  // BROADCASTER_READY, or after resuming their session; never on every room update. In sfu
+  // rooms they connect to the server for the stream instead
+  const sendViewerReady = (viewer: User, broadcasterId: string) => {
+    if (roomModeRef.current === 'sfu') {
+      console.log('Viewer ready, connecting to the server for the stream');
+      connectToSfu(viewer);
+      return;
+    }
+    // The broadcaster answers with a fresh call, so an old connection would only be in the way
+    closePeer(broadcasterId);
+    console.log('Viewer ready, notifying server about readiness to receive stream');
+    send('VIEWER_READY', { roomId: viewer.roomId, userId: viewer.id });
+  };
+
+  useWSEvent('ERROR', (errorPayload) => {
+    console.error('Received error:', errorPayload);
+
+    // Protocol errors point at a bug in what we sent, not at the room itself
+    if (errorPayload.code === 'INVALID_MESSAGE' || errorPayload.code === 'UNKNOWN_TYPE') {
+      return;
+    }
+
+    // Once in the room, a refused request is worth telling about but not worth leaving over
+    if (hasJoinedRef.current && errorPayload.code !== 'SESSION_EXPIRED') {
+      setNotice(errorPayload.message);
+      return;
+    }
+
+    // Our slot was given up while we were away; join again as a new user
+    if (errorPayload.code === 'SESSION_EXPIRED') {
+      hasJoinedRef.current = false;
+      resumeTokenRef.current = undefined;
+      closeAllPeers();
+      setIsStreamReady(false);
+      setIsJoining(true);
+      send('JOIN_ROOM', {
+        roomId,
+        username,
+        role,
+        allowGuests,
+        private: isPrivate,
+        mode,
+        password,
+        invite,
+      });
+      return;
+    }
+
+    setError(errorPayload.message);
+    setIsJoining(false);
+    onError?.(errorPayload);
+  });
+
+  useWSEvent('ROOM_JOINED', ({ room: newRoom, user, messages, resumeToken }) => {
+    console.log('Successfully joined room:', newRoom.id, 'as user:', user.username);
+    setRoom(newRoom);
+    roomModeRef.current = newRoom.mode;
+    setCurrentUser(user);
+    // Messages delivered in the same tick must already see the joined user
+    currentUserRef.current = user;
+    resumeTokenRef.current = resumeToken;
+    lastMessageIdRef.current = messages[messages.length - 1]?.id;
+    setError(undefined);
+    setIsJoining(false);
+    hasJoinedRef.current = true;
+
+    // If broadcaster, start local stream (it survives a rejoin after an expired session)
+    if (user.role === 'broadcaster' && !localStream) {
+      console.log('Starting local stream for broadcaster');
+      startLocalStream();
+    }
+
+    // Set broadcaster if we're a viewer
+    if (user.role === 'viewer' && newRoom.broadcaster) {
+      const broadcasterUser = newRoom.users.find((u) => u.id === newRoom.broadcaster);
+      if (broadcasterUser) {
         setBroadcaster(broadcasterUser);
-        
-        // The broadcaster will initiate the call
-        break;
       }
+    }
+  });
 
-      case 'VIEWER_READY': {
-        if (!currentUser || currentUser.role !== 'broadcaster' || !localStream) break;
-        
-        const { viewer } = lastMessage.payload as ViewerReadyPayload;
-        console.log('Viewer is ready for stream:', viewer.username);
-        
-        if (isStreamReady) {
-          console.log('Stream is ready, initiating call to viewer');
-          
-          // For multi-viewer support, we set remoteUser temporarily to the new viewer
-          // just for the duration of the call initiation
-          setRemoteUser(viewer);
-          
-          // Wait briefly for remoteUser to be set
-          setTimeout(() => {
-            console.log('Initiating call to viewer after timeout');
-            initiateCall();
-          }, 500);
-        }
-        break;
-      }
+  useWSEvent('SESSION_RESUMED', ({ room: resumedRoom, user, messages, resumeToken }) => {
+    console.log('Resumed session in room:', resumedRoom.id, 'as user:', user.username);
+    setRoom(resumedRoom);
+    roomModeRef.current = resumedRoom.mode;
+    setCurrentUser(user);
+    currentUserRef.current = user;
+    resumeTokenRef.current = resumeToken;
+    if (messages.length > 0) {
+      lastMessageIdRef.current = messages[messages.length - 1].id;
+    }
 
-      case 'ROOM_STATE': {
-        const { room: updatedRoom } = lastMessage.payload as any;
-        console.log('Room state updated:', updatedRoom);
-        setRoom(updatedRoom);
-        break;
-      }
+    // Our peer connections didn't survive the outage; renegotiate from scratch.
+    // Broadcasters announce their stream again, viewers re-send VIEWER_READY.
+    closeAllPeers();
+    if (user.role === 'broadcaster') {
+      setIsStreamReady(false);
+    } else {
+      const broadcasterUser = resumedRoom.users.find((u) => u.id === resumedRoom.broadcaster);
+      setBroadcaster(broadcasterUser);
+      if (broadcasterUser) sendViewerReady(user, broadcasterUser.id);
+    }
+  });
 
-      case 'USER_JOINED': {
-        const { user: newUser } = lastMessage.payload as any;
-        console.log('User joined:', newUser.username, 'with role:', newUser.role);
+  useWSEvent('BAN_LIST', ({ bans: roomBans }) => {
+    setBans(roomBans);
+  });
 
-        if (newUser.role === 'broadcaster' && currentUser?.role === 'viewer') {
-          setBroadcaster(newUser);
-        } else if (newUser.role === 'viewer' && currentUser?.role === 'broadcaster') {
-          // We'll wait for VIEWER_READY before setting remoteUser
-        }
-        break;
-      }
+  useWSEvent('MODERATION_ACTION', ({ action, moderator, reason, until }) => {
+    const because = reason ? `: ${reason}` : '';
 
-      case 'USER_LEFT': {
-        const { user: leftUser } = lastMessage.payload as any;
-        console.log('User left:', leftUser.username);
-        
-        if (leftUser.role === 'broadcaster' && currentUser?.role === 'viewer') {
-          setBroadcaster(undefined);
-          // Clear remote video
-          if (remoteVideoRef.current) {
-            remoteVideoRef.current.srcObject = null;
-          }
-        } else if (remoteUser?.id === leftUser.id) {
-          setRemoteUser(undefined);
-        }
-        break;
-      }
+    if (action === 'kick' || action === 'ban') {
+      const message = `${moderator} ${action === 'kick' ? 'kicked you from' : 'banned you from'} the room${because}`;
+      hasJoinedRef.current = false;
+      setError(message);
+      onRemoved?.(message);
+      return;
+    }
+
+    if (action === 'timeout') {
+      setNotice(
+        `${moderator} timed you out from chat until ${new Date(until!).toLocaleTimeString()}${because}`
+      );
+    } else {
+      setNotice(`${moderator} ${action === 'mute' ? 'muted' : 'unmuted'} you in chat${because}`);
+    }
+  });
+
+  useWSEvent('CHAT_MESSAGE_RECEIVED', ({ message }) => {
+    lastMessageIdRef.current = message.id;
+  });
+
+  useWSEvent('BROADCASTER_READY', ({ broadcaster: broadcasterUser }) => {
+    if (currentUserRef.current?.role !== 'viewer') return;
+
+    console.log('Broadcaster is ready with stream:', broadcasterUser.username);
+    setBroadcaster(broadcasterUser);
+
+    // Answer a (re)announced stream so the broadcaster initiates the call
+    sendViewerReady(currentUserRef.current, broadcasterUser.id);
+  });
+
+  useWSEvent('VIEWER_READY', ({ viewer }) => {
+    if (currentUserRef.current?.role !== 'broadcaster' || !localStream) return;
+
+    console.log('Viewer is ready for stream:', viewer.username);
+
+    // Each viewer gets its own connection; one that is announced before our stream is ready
+    // asks again when STREAM_READY reaches it as BROADCASTER_READY
+    if (isStreamReady) {
+      console.log('Stream is ready, initiating call to viewer');
+      initiateCall(viewer);
+    }
+  });
+
+  useWSEvent('PEER_STATS', ({ viewer }) => {
+    setViewerStats((prevStats) => ({ ...prevStats, [viewer.userId]: viewer }));
+    adaptToStats(viewer.userId, viewer.stats);
+  });
+
+  // Only the broadcaster may send MEDIA_STATE, so there's just the one source to follow
+  useWSEvent('MEDIA_STATE', ({ state }) => {
+    if (currentUserRef.current?.role === 'viewer') {
+      setBroadcasterMedia(state);
+    }
+  });
+
+  useWSEvent('ROOM_STATE', ({ room: updatedRoom }) => {
+    console.log('Room state updated:', updatedRoom);
+    setRoom(updatedRoom);
+  });
+
+  useWSEvent('USER_JOINED', ({ user: newUser }) => {
+    console.log('User joined:', newUser.username, 'with role:', newUser.role);
+
+    // Viewers are only called once they send VIEWER_READY
+    if (newUser.role === 'broadcaster' && currentUserRef.current?.role === 'viewer') {
+      setBroadcaster(newUser);
+    }
+  });
+
+  useWSEvent('USER_RECONNECTED', ({ user: reconnectedUser }) => {
+    console.log('User reconnected:', reconnectedUser.username);
+
+    // Their side of the peer connection is gone; a fresh one is negotiated next
+    closePeer(reconnectedUser.id);
+    if (reconnectedUser.role === 'broadcaster' && remoteVideoRef.current) {
+      remoteVideoRef.current.srcObject = null;
+    }
+  });
 
-      case 'OFFER':
-      case 'ANSWER':
-      case 'ICE_CANDIDATE': {
-        console.log('Handling WebRTC signal:', lastMessage.type);
-        handleIncomingSignal(lastMessage.payload as RTCSignalPayload);
-        break;
+  useWSEvent('USER_LEFT', ({ user: leftUser }) => {
+    console.log('User left:', leftUser.username);
+
+    if (leftUser.role === 'broadcaster' && currentUserRef.current?.role === 'viewer') {
+      setBroadcaster(undefined);
+      setBroadcasterMedia(undefined);
+      // Clear remote video
+      if (remoteVideoRef.current) {
+        remoteVideoRef.current.srcObject = null;
       }
     }
-  }, [lastMessage, currentUser, startLocalStream, initiateCall, handleIncomingSignal, onError, localStream, isStreamReady, remoteUser]);
+    closePeer(leftUser.id);
+    setViewerStats((prevStats) => {
+      const nextStats = { ...prevStats };
+      delete nextStats[leftUser.id];
+      return nextStats;
+    });
+  });
+
+  // WebRTC signals arrive in bursts; each one must reach the peer connection
+  useWSEvent('OFFER', handleIncomingSignal);
+  useWSEvent('ANSWER', handleIncomingSignal);
+  useWSEvent('ICE_CANDIDATE', handleIncomingSignal);
 
   // Set local video stream
   useEffect(() => {
@@ -247,7 +477,8 @@ export default function Room({ roomId, username, role, onError }: RoomProps) {
     );
   }
 
-  if (!connected || isJoining) {
+  // Once in the room, keep it rendered through reconnects so the video elements survive
+  if (!currentUser && (!connected || isJoining)) {
     return (
       <div className="p-4">
         <div className="bg-blue-50 border border-blue-400 text-blue-700 px-4 py-3 rounded">
@@ -259,6 +490,25 @@ export default function Room({ roomId, username, role, onError }: RoomProps) {
 
   return (
     <div className="p-4">
+      {(reconnecting || !connected) && (
+        <div className="mb-4 bg-yellow-50 border border-yellow-400 text-yellow-700 px-4 py-3 rounded">
+          <p>Connection lost. Reconnecting...</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-4 flex justify-between items-start bg-blue-50 border border-blue-400 text-blue-700 px-4 py-3 rounded">
+          <p>{notice}</p>
+          <button
+            type="button"
+            className="ml-4 text-blue-700 hover:text-blue-900"
+            onClick={() => setNotice(undefined)}
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       <div className="mb-4">
         <h2 className="text-xl font-bold">Room: {room?.name}</h2>
         <p className="text-gray-600">
@@ -266,6 +516,29 @@ export default function Room({ roomId, username, role, onError }: RoomProps) {
         </p>
       </div>
 
+      {currentUser?.role === 'broadcaster' && room && <RoomSettings room={room} />}
+
+      {currentUser?.role === 'broadcaster' && localStream && (
+        <div className="mb-4">
+          <MediaControls
+            videoSource={videoSource}
+            onVideoSourceChange={setVideoSource}
+            muted={muted}
+            onMutedChange={setMuted}
+            cameraOff={cameraOff}
+            onCameraOffChange={setCameraOff}
+            cameras={cameras}
+            microphones={microphones}
+            selectedDevices={selectedDevices}
+            onDeviceChange={switchDevice}
+            quality={quality}
+            onQualityChange={setQuality}
+            adaptive={adaptive}
+            onAdaptiveChange={setAdaptive}
+          />
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
         {/* Video Grid - Takes 2/3 of space on large screens */}
         <div className={`lg:col-span-2 grid ${role === 'broadcaster' ? 'grid-cols-2 gap-4' : 'grid-cols-1 gap-4'}`}>
@@ -277,37 +550,27 @@ export default function Room({ roomId, username, role, onError }: RoomProps) {
                 autoPlay
                 playsInline
                 muted
-                className="absolute inset-0 w-full h-full object-cover"
+                // A shared screen is shown whole rather than cropped to fit
+                className={`absolute inset-0 w-full h-full ${
+                  videoSource === 'camera' ? 'object-cover' : 'object-contain'
+                }`}
               />
+              {cameraOff && videoSource === 'camera' && <VideoOverlay>Camera off</VideoOverlay>}
+              {muted && <MutedBadge text="Muted" />}
               <div className="absolute bottom-2 left-2 bg-black/50 text-white px-2 py-1 rounded">
                 You (Broadcaster)
               </div>
             </div>
           )}
 
-          {/* Broadcaster's view of viewers */}
-          {role === 'broadcaster' && remoteUser && (
-            <div className="relative aspect-video bg-gray-900 rounded-lg overflow-hidden">
-              <video
-                ref={remoteVideoRef}
-                autoPlay
-                playsInline
-                className="absolute inset-0 w-full h-full object-cover"
-              />
-              <div className="absolute bottom-2 left-2 bg-black/50 text-white px-2 py-1 rounded">
-                {remoteUser.username} (Viewer)
-              </div>
-            </div>
-          )}
-
-          {/* Viewer count for broadcaster (only show on smaller screens when there's no chat next to it) */}
-          {role === 'broadcaster' && room?.viewers && room.viewers.length > 0 && !remoteUser && (
-            <div className="relative lg:hidden aspect-video bg-gray-800 rounded-lg overflow-hidden flex items-center justify-center">
-              <div className="text-white text-center p-4">
-                <div className="text-3xl font-bold">{room.viewers.length}</div>
-                <div>Active Viewers</div>
-              </div>
-            </div>
+          {/* Broadcaster's view of the connections to its viewers */}
+          {role === 'broadcaster' && room && (
+            <ViewerConnections
+              room={room}
+              peers={peers}
+              stats={viewerStats}
+              onRetry={initiateCall}
+            />
           )}
 
           {/* Viewer's view of broadcaster */}
@@ -317,10 +580,47 @@ export default function Room({ roomId, username, role, onError }: RoomProps) {
                 ref={remoteVideoRef}
                 autoPlay
                 playsInline
-                className="absolute inset-0 w-full h-full object-cover"
+                className={`absolute inset-0 w-full h-full ${
+                  broadcasterMedia && broadcasterMedia.source !== 'camera'
+                    ? 'object-contain'
+                    : 'object-cover'
+                }`}
               />
+              {/* Rather than a black or frozen frame */}
+              {broadcasterPeer?.reconnecting ? (
+                <VideoOverlay>Reconnecting…</VideoOverlay>
+              ) : broadcasterPeer?.connectionState === 'failed' ||
+                broadcasterPeer?.connectionState === 'disconnected' ? (
+                <VideoOverlay>
+                  Connection to the broadcaster lost
+                  <button
+                    type="button"
+                    className="px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600"
+                    onClick={() =>
+                      currentUser && sendViewerReady(currentUser, broadcasterPeer.user.id)
+                    }
+                  >
+                    Try again
+                  </button>
+                </VideoOverlay>
+              ) : (
+                broadcasterMedia?.cameraOff &&
+                broadcasterMedia.source === 'camera' && <VideoOverlay>Camera off</VideoOverlay>
+              )}
+              {broadcasterMedia?.muted && <MutedBadge text="Broadcaster muted" />}
+              {showStats && broadcasterPeer?.connectionState === 'connected' && (
+                <StatsOverlay stats={broadcasterStats} />
+              )}
+              <button
+                type="button"
+                className="absolute bottom-2 right-2 bg-black/50 text-white text-xs px-2 py-1 rounded hover:bg-black/70"
+                onClick={() => setShowStats(!showStats)}
+              >
+                {showStats ? 'Hide stats' : 'Stats'}
+              </button>
               <div className="absolute bottom-2 left-2 bg-black/50 text-white px-2 py-1 rounded">
                 Broadcaster {broadcaster?.username ? `(${broadcaster.username})` : ''}
+                {broadcasterMedia && broadcasterMedia.source !== 'camera' && ' · sharing screen'}
               </div>
             </div>
           )}
@@ -330,7 +630,9 @@ export default function Room({ roomId, username, role, onError }: RoomProps) {
         <div className="h-[500px]">
           <ChatPanel 
             roomId={roomId}
+            room={room}
             currentUser={currentUser}
+            bans={bans}
           />
         </div>
       </div>
@@ -0,0 +1,151 @@
+import { FormEvent, useState } from 'react';
+import type { Room, RoomInvite } from '@vestream/shared';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { useWSEvent } from '../hooks/useWSEvent';
+
+interface RoomSettingsProps {
+  room: Room;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const INVITE_LIFETIMES = [
+  { label: '1 hour', value: HOUR_MS },
+  { label: '1 day', value: 24 * HOUR_MS },
+  { label: '7 days', value: 7 * 24 * HOUR_MS },
+];
+
+// Link that opens Home with the join form filled in
+function getInviteUrl(invite: RoomInvite) {
+  const params = new URLSearchParams({ room: invite.roomId, invite: invite.token });
+  return `${window.location.origin}/?${params}`;
+}
+
+// Broadcaster controls for who may join the room
+export default function RoomSettings({ room }: RoomSettingsProps) {
+  const { send } = useWebSocket();
+  const [password, setPassword] = useState('');
+  const [inviteLifetime, setInviteLifetime] = useState(INVITE_LIFETIMES[1].value);
+  const [inviteMaxUses, setInviteMaxUses] = useState('');
+  const [invite, setInvite] = useState<RoomInvite>();
+  const [copied, setCopied] = useState(false);
+
+  useWSEvent('INVITE_CREATED', ({ invite: createdInvite }) => {
+    setInvite(createdInvite);
+    setCopied(false);
+  });
+
+  const handlePasswordSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    send('UPDATE_ROOM', { roomId: room.id, password });
+    setPassword('');
+  };
+
+  const handleCreateInvite = () => {
+    const maxUses = parseInt(inviteMaxUses);
+    send('CREATE_INVITE', {
+      roomId: room.id,
+      expiresInMs: inviteLifetime,
+      maxUses: maxUses > 0 ? maxUses : undefined,
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!invite) return;
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(invite));
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+    }
+  };
+
+  return (
+    <div className="mb-4 p-4 border rounded-lg bg-white space-y-3 text-sm">
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+          checked={Boolean(room.private)}
+          onChange={(e) => send('UPDATE_ROOM', { roomId: room.id, private: e.target.checked })}
+        />
+        <span>Private room (hidden from the room list, invite or password only)</span>
+      </label>
+
+      <form className="flex items-center space-x-2" onSubmit={handlePasswordSubmit}>
+        <input
+          type="password"
+          autoComplete="new-password"
+          className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          placeholder={room.hasPassword ? 'New room password' : 'Room password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={!password}
+          className="px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {room.hasPassword ? 'Change password' : 'Set password'}
+        </button>
+        {room.hasPassword && (
+          <button
+            type="button"
+            className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+            onClick={() => send('UPDATE_ROOM', { roomId: room.id, password: null })}
+          >
+            Remove password
+          </button>
+        )}
+      </form>
+
+      <div className="flex items-center space-x-2">
+        <select
+          className="px-2 py-1 border border-gray-300 rounded"
+          value={inviteLifetime}
+          onChange={(e) => setInviteLifetime(Number(e.target.value))}
+        >
+          {INVITE_LIFETIMES.map(({ label, value }) => (
+            <option key={value} value={value}>
+              Expires in {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          className="w-28 px-2 py-1 border border-gray-300 rounded"
+          placeholder="Max uses"
+          value={inviteMaxUses}
+          onChange={(e) => setInviteMaxUses(e.target.value)}
+        />
+        <button
+          type="button"
+          className="px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700"
+          onClick={handleCreateInvite}
+        >
+          Create invite link
+        </button>
+      </div>
+
+      {invite && (
+        <div className="flex items-center space-x-2">
+          <input
+            readOnly
+            className="flex-1 px-2 py-1 border border-gray-300 rounded bg-gray-50 text-gray-700"
+            value={getInviteUrl(invite)}
+            onFocus={(e) => e.target.select()}
+          />
+          <button
+            type="button"
+            className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+            onClick={handleCopy}
+          >
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { PeerStats } from '@vestream/shared';
+import { formatBitrate, formatResolution } from '../utils/peerStats';
+
+interface StatsOverlayProps {
+  stats?: PeerStats; // until the first sample is in
+}
+
+const CANDIDATE_LABELS: Record<NonNullable<PeerStats['candidateType']>, string> = {
+  host: 'direct (local network)',
+  srflx: 'direct (through NAT)',
+  prflx: 'direct (through NAT)',
+  relay: 'relayed (TURN)',
+};
+
+// Viewer's readout of how the stream is arriving, over the top of the video
+export default function StatsOverlay({ stats }: StatsOverlayProps) {
+  const rows: [string, string][] = stats
+    ? [
+        ['Bitrate', formatBitrate(stats.bitrateKbps)],
+        ['Packet loss', `${stats.packetLossPercent}%`],
+        ['Jitter', `${stats.jitterMs} ms`],
+        ['Round trip', stats.roundTripMs !== undefined ? `${stats.roundTripMs} ms` : '–'],
+        ['Video', formatResolution(stats)],
+        ['Route', stats.candidateType ? CANDIDATE_LABELS[stats.candidateType] : '–'],
+      ]
+    : [];
+
+  return (
+    <div className="absolute top-2 left-2 bg-black/70 text-white text-xs font-mono px-2 py-1 rounded">
+      {stats ? (
+        <table>
+          <tbody>
+            {rows.map(([label, value]) => (
+              <tr key={label}>
+                <td className="pr-3 text-gray-300">{label}</td>
+                <td>{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        'Collecting stats…'
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import type { RoomDetails, User, ViewerStats } from '@vestream/shared';
+import { SFU_USER_ID } from '@vestream/shared';
+import type { PeerInfo } from '../hooks/useWebRTC';
+import { formatBitrate, formatResolution } from '../utils/peerStats';
+
+interface ViewerConnectionsProps {
+  room: RoomDetails;
+  peers: PeerInfo[];
+  stats: Record<string, ViewerStats>; // viewerId -> their last PEER_STATS report
+  onRetry: (viewer: User) => void; // also called with the server's user in sfu rooms
+}
+
+const POOR_PACKET_LOSS_PERCENT = 5;
+
+const STATUS_LABELS: Record<
+  RTCPeerConnectionState | 'waiting' | 'reconnecting',
+  { label: string; color: string }
+> = {
+  waiting: { label: 'Waiting', color: 'bg-gray-400' },
+  reconnecting: { label: 'Reconnecting…', color: 'bg-orange-500' },
+  new: { label: 'Calling', color: 'bg-yellow-400' },
+  connecting: { label: 'Connecting', color: 'bg-yellow-400' },
+  connected: { label: 'Connected', color: 'bg-green-500' },
+  disconnected: { label: 'Interrupted', color: 'bg-orange-500' },
+  failed: { label: 'Failed', color: 'bg-red-500' },
+  closed: { label: 'Closed', color: 'bg-gray-400' },
+};
+
+// Broadcaster's table of viewers and how the connection to each of them is doing, with the
+// quality each viewer reports. Viewers without a connection are waiting for our stream or
+// haven't asked for it yet. In sfu rooms we only have the connection to the server, so a
+// viewer counts as connected once it reports
+export default function ViewerConnections({ room, peers, stats, onRetry }: ViewerConnectionsProps) {
+  const viewers = room.users.filter((u) => u.role === 'viewer');
+  const sfuPeer =
+    room.mode === 'sfu' ? peers.find((peer) => peer.user.id === SFU_USER_ID) : undefined;
+  const getState = (peer?: PeerInfo) =>
+    peer?.reconnecting ? 'reconnecting' : peer?.connectionState;
+  const getViewerState = (viewer: User) => {
+    if (room.mode === 'sfu') return stats[viewer.id] ? 'connected' : undefined;
+    return getState(peers.find((p) => p.user.id === viewer.id));
+  };
+  const connected = viewers.filter((viewer) => getViewerState(viewer) === 'connected').length;
+  const sfuState = getState(sfuPeer);
+
+  return (
+    <div className="bg-white border rounded-lg p-3 overflow-y-auto aspect-video">
+      <h3 className="font-semibold mb-2">
+        Viewers{' '}
+        <span className="text-sm font-normal text-gray-500">
+          {connected}/{viewers.length} connected
+        </span>
+      </h3>
+
+      {room.mode === 'sfu' && (
+        <p className="text-sm text-gray-500 mb-2">
+          Sending through the server: {STATUS_LABELS[sfuState ?? 'waiting'].label}
+          {sfuPeer && (sfuState === 'failed' || sfuState === 'disconnected') && (
+            <button
+              type="button"
+              className="ml-2 text-xs text-blue-600 hover:text-blue-800"
+              onClick={() => onRetry(sfuPeer.user)}
+            >
+              Retry
+            </button>
+          )}
+        </p>
+      )}
+
+      {viewers.length === 0 ? (
+        <p className="text-sm text-gray-500">No viewers yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-500 text-left">
+            <tr>
+              <th className="font-normal">Viewer</th>
+              <th className="font-normal">Status</th>
+              <th className="font-normal">Bitrate</th>
+              <th className="font-normal">Loss</th>
+              <th className="font-normal">RTT</th>
+              <th className="font-normal">Video</th>
+            </tr>
+          </thead>
+          <tbody>
+            {viewers.map((viewer) => {
+              const peer = peers.find((p) => p.user.id === viewer.id);
+              const state = getViewerState(viewer);
+              const status = STATUS_LABELS[state ?? 'waiting'];
+              const report = state === 'connected' ? stats[viewer.id]?.stats : undefined;
+              return (
+                <tr key={viewer.id}>
+                  <td className="max-w-[8rem] truncate">
+                    <span className={`inline-block w-2 h-2 rounded-full mr-2 ${status.color}`} />
+                    {viewer.username}
+                  </td>
+                  <td className="text-gray-500 whitespace-nowrap">
+                    {status.label}
+                    {peer?.qualityLowered && (
+                      <span className="ml-1" title="Sent lower quality because of congestion">
+                        ↓
+                      </span>
+                    )}
+                    {/* Only once the automatic ICE restarts are given up */}
+                    {(state === 'failed' || state === 'disconnected') && (
+                      <button
+                        type="button"
+                        className="ml-2 text-xs text-blue-600 hover:text-blue-800"
+                        onClick={() => onRetry(viewer)}
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </td>
+                  {report ? (
+                    <>
+                      <td>{formatBitrate(report.bitrateKbps)}</td>
+                      <td
+                        className={
+                          report.packetLossPercent >= POOR_PACKET_LOSS_PERCENT ? 'text-red-600' : ''
+                        }
+                      >
+                        {report.packetLossPercent}%
+                      </td>
+                      <td>{report.roundTripMs !== undefined ? `${report.roundTripMs} ms` : '–'}</td>
+                      <td className="whitespace-nowrap">{formatResolution(report)}</td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className="text-gray-400">
+                      –
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
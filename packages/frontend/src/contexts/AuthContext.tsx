@@ -0,0 +1,128 @@
+import { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import type { AccountInfo, AuthResponse, Credentials, ErrorPayload } from '@vestream/shared';
+import { accountInfoSchema, authResponseSchema } from '@vestream/shared';
+
+export const API_URL = 'http://localhost:3000';
+const STORAGE_KEY = 'vestream.auth';
+
+interface AuthContextType {
+  account: AccountInfo | null;
+  token: string | null;
+  login: (credentials: Credentials) => Promise<void>;
+  register: (credentials: Credentials) => Promise<void>;
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextType>({
+  account: null,
+  token: null,
+  login: async () => {},
+  register: async () => {},
+  logout: () => {},
+});
+
+export const useAuth = () => useContext(AuthContext);
+
+// Thrown by login() and register(); carries the server's error payload
+export class AuthError extends Error {
+  constructor(public readonly payload: ErrorPayload) {
+    super(payload.message);
+  }
+}
+
+function loadStoredAuth(): AuthResponse | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const result = stored ? authResponseSchema(JSON.parse(stored), '') : undefined;
+    return result?.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+async function requestAuth(path: string, credentials: Credentials): Promise<AuthResponse> {
+  const response = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(credentials),
+  });
+  const body = await response.json();
+
+  if (!response.ok) {
+    throw new AuthError(body as ErrorPayload);
+  }
+
+  const result = authResponseSchema(body, '');
+  if (!result.success) {
+    throw new AuthError({ code: 'INVALID_MESSAGE', message: result.message, field: result.field });
+  }
+  return result.data;
+}
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [auth, setAuth] = useState<AuthResponse | null>(loadStoredAuth);
+
+  const saveAuth = useCallback((next: AuthResponse | null) => {
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    setAuth(next);
+  }, []);
+
+  const login = useCallback(
+    async (credentials: Credentials) => {
+      saveAuth(await requestAuth('/api/auth/login', credentials));
+    },
+    [saveAuth]
+  );
+
+  const register = useCallback(
+    async (credentials: Credentials) => {
+      saveAuth(await requestAuth('/api/auth/register', credentials));
+    },
+    [saveAuth]
+  );
+
+  const logout = useCallback(() => saveAuth(null), [saveAuth]);
+
+  // A stored token may have expired or been signed with a secret the server no longer has;
+  // the WebSocket handshake would keep failing with it, so drop it up front
+  const token = auth?.token;
+  useEffect(() => {
+    if (!token) return;
+
+    fetch(`${API_URL}/api/auth/me`, { headers: { Authorization: `Bearer ${token}` } })
+      .then(async (response) => {
+        if (response.status === 401) {
+          console.warn('Stored session is no longer valid, signing out');
+          logout();
+          return;
+        }
+        const result = accountInfoSchema(await response.json(), '');
+        if (!result.success) {
+          console.error('Unexpected account response:', result.message);
+        }
+      })
+      .catch((error) => console.error('Error checking stored session:', error));
+  }, [token, logout]);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        account: auth?.account ?? null,
+        token: auth?.token ?? null,
+        login,
+        register,
+        logout,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
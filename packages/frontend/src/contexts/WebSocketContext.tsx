@@ -1,20 +1,44 @@
 import { createContext, useContext, useEffect, useRef, useState, useCallback } from 'react';
-import type { WSMessage } from '@vestream/shared';
+import type {
+  ClientMessage,
+  ClientMessageType,
+  ClientPayloadMap,
+  ServerMessage,
+  ServerMessageType,
+  ServerPayloadMap,
+} from '@vestream/shared';
+import { parseServerMessage } from '@vestream/shared';
+import { useAuth } from './AuthContext';
+
+// Typed helpers: the payload must match the message type
+export type SendFunction = <T extends ClientMessageType>(
+  type: T,
+  payload: ClientPayloadMap[T]
+) => void;
+export type MessageListener<T extends ServerMessageType> = (payload: ServerPayloadMap[T]) => void;
+export type OnFunction = <T extends ServerMessageType>(
+  type: T,
+  listener: MessageListener<T>
+) => () => void;
 
 interface WebSocketContextType {
   connected: boolean;
+  reconnecting: boolean;
   connect: () => void;
   disconnect: () => void;
-  sendMessage: (message: WSMessage) => void;
-  lastMessage: WSMessage | null;
+  sendMessage: (message: ClientMessage) => void;
+  send: SendFunction;
+  on: OnFunction;
 }
 
 const WebSocketContext = createContext<WebSocketContextType>({
   connected: false,
+  reconnecting: false,
   connect: () => {},
   disconnect: () => {},
   sendMessage: () => {},
-  lastMessage: null,
+  send: () => {},
+  on: () => () => {},
 });
 
 export const useWebSocket = () => useContext(WebSocketContext);
@@ -23,13 +47,37 @@ interface WebSocketProviderProps {
   children: React.ReactNode;
 }
 
+type AnyListener = (payload: ServerMessage['payload']) => void;
+
+// Reconnect backoff: the delay doubles per failed attempt up to the maximum
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 15_000;
+
+function getReconnectDelay(attempt: number) {
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+  // Jitter so clients dropped together don't all reconnect at the same moment
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Slack on top of the server's heartbeat interval before a silent connection counts as stalled
+const HEARTBEAT_GRACE_MS = 10_000;
+
 export function WebSocketProvider({ children }: WebSocketProviderProps) {
+  const { token } = useAuth();
+  // Read when a socket opens, so reconnects pick up a token obtained in the meantime
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
   const [connected, setConnected] = useState(false);
-  const [lastMessage, setLastMessage] = useState<WSMessage | null>(null);
+  const [reconnecting, setReconnecting] = useState(false);
   const ws = useRef<WebSocket | null>(null);
   const connectingRef = useRef(false);
+  // True between connect() and disconnect(); any other close is unexpected
+  const shouldReconnectRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const listenersRef = useRef<Map<ServerMessageType, Set<AnyListener>>>(new Map());
 
-  const connect = useCallback(() => {
+  const openSocket = useCallback(() => {
     // Prevent multiple connection attempts
     if (connectingRef.current || ws.current?.readyState === WebSocket.OPEN) {
       console.log('WebSocket already connecting or connected');
@@ -40,31 +88,84 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
 
     try {
       console.log('Attempting to connect to WebSocket...');
-      ws.current = new WebSocket('ws://localhost:3000');
-
-      ws.current.onopen = () => {
+      // Browsers can't set headers on the handshake, so the token travels in the URL
+      const url = tokenRef.current
+        ? `ws://localhost:3000?token=${encodeURIComponent(tokenRef.current)}`
+        : 'ws://localhost:3000';
+      const socket = new WebSocket(url);
+      ws.current = socket;
+      // Learned from the server's first HEARTBEAT; the watchdog stays off until then
+      let heartbeatIntervalMs: number | undefined;
+      // Per socket, so the close of a replaced one can't stop the watchdog of its successor
+      let watchdogTimer: ReturnType<typeof setTimeout> | undefined;
+
+      socket.onopen = () => {
         console.log('WebSocket connection established');
         setConnected(true);
+        setReconnecting(false);
         connectingRef.current = false;
+        reconnectAttemptRef.current = 0;
       };
 
-      ws.current.onclose = (event) => {
-        console.log('WebSocket connection closed:', event.code, event.reason);
+      const handleClosed = () => {
+        clearTimeout(watchdogTimer);
+        // Closed by disconnect(), or already replaced by a newer socket
+        if (ws.current !== socket) return;
+
         setConnected(false);
         ws.current = null;
         connectingRef.current = false;
+
+        if (shouldReconnectRef.current) {
+          const delay = getReconnectDelay(reconnectAttemptRef.current);
+          reconnectAttemptRef.current += 1;
+          console.log(`Reconnecting in ${Math.round(delay)}ms...`);
+          setReconnecting(true);
+          reconnectTimerRef.current = setTimeout(openSocket, delay);
+        }
+      };
+
+      // A half-open connection may take minutes to report its close, so give up on it
+      // as soon as the server misses a heartbeat and reconnect right away
+      const armWatchdog = () => {
+        if (!heartbeatIntervalMs || ws.current !== socket) return;
+        clearTimeout(watchdogTimer);
+        watchdogTimer = setTimeout(() => {
+          console.warn('No heartbeat from the server, treating the connection as lost');
+          handleClosed();
+          socket.close();
+        }, heartbeatIntervalMs + HEARTBEAT_GRACE_MS);
       };
 
-      ws.current.onerror = (error) => {
+      socket.onclose = (event) => {
+        console.log('WebSocket connection closed:', event.code, event.reason);
+        handleClosed();
+      };
+
+      socket.onerror = (error) => {
         console.error('WebSocket error:', error);
         connectingRef.current = false;
       };
 
-      ws.current.onmessage = (event) => {
+      socket.onmessage = (event) => {
         try {
-          const message = JSON.parse(event.data) as WSMessage;
-          console.log('Received WebSocket message:', message);
-          setLastMessage(message);
+          const parsed = parseServerMessage(event.data);
+          if (!parsed.success) {
+            console.error('Dropping invalid WebSocket message:', parsed.error);
+            return;
+          }
+          // Any message shows the server is alive
+          if (parsed.message.type === 'HEARTBEAT') {
+            heartbeatIntervalMs = parsed.message.payload.intervalMs;
+          }
+          armWatchdog();
+          console.log('Received WebSocket message:', parsed.message);
+          // Deliver synchronously and in arrival order; copy the set so listeners
+          // that unsubscribe while handling don't disturb the iteration
+          const listeners = listenersRef.current.get(parsed.message.type);
+          if (listeners) {
+            Array.from(listeners).forEach((listener) => listener(parsed.message.payload));
+          }
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
         }
@@ -76,18 +177,27 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
     }
   }, []);
 
+  const connect = useCallback(() => {
+    shouldReconnectRef.current = true;
+    clearTimeout(reconnectTimerRef.current);
+    openSocket();
+  }, [openSocket]);
+
   const disconnect = useCallback(() => {
     console.log('Disconnecting WebSocket...');
+    shouldReconnectRef.current = false;
+    clearTimeout(reconnectTimerRef.current);
+    reconnectAttemptRef.current = 0;
     if (ws.current) {
       ws.current.close();
       ws.current = null;
     }
     setConnected(false);
-    setLastMessage(null);
+    setReconnecting(false);
     connectingRef.current = false;
   }, []);
 
-  const sendMessage = useCallback((message: WSMessage) => {
+  const sendMessage = useCallback((message: ClientMessage) => {
     if (!ws.current || ws.current.readyState !== WebSocket.OPEN) {
       console.warn('Cannot send message: WebSocket is not connected');
       return;
@@ -101,6 +211,24 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
     }
   }, []);
 
+  const send = useCallback<SendFunction>(
+    (type, payload) => {
+      sendMessage({ type, payload, timestamp: new Date().toISOString() } as ClientMessage);
+    },
+    [sendMessage]
+  );
+
+  // Register a listener for a message type; returns the matching unsubscribe function
+  const on = useCallback<OnFunction>((type, listener) => {
+    const listeners = listenersRef.current.get(type) ?? new Set<AnyListener>();
+    listeners.add(listener as AnyListener);
+    listenersRef.current.set(type, listeners);
+
+    return () => {
+      listeners.delete(listener as AnyListener);
+    };
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -109,8 +237,10 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
   }, [disconnect]);
 
   return (
-    <WebSocketContext.Provider value={{ connected, connect, disconnect, sendMessage, lastMessage }}>
+    <WebSocketContext.Provider
+      value={{ connected, reconnecting, connect, disconnect, sendMessage, send, on }}
+    >
       {children}
     </WebSocketContext.Provider>
   );
-} 
\ No newline at end of file
+}
@@ -1,6 +1,23 @@
-import { useState, useEffect, useCallback } from 'react';
-import type { ChatMessage, User } from '@vestream/shared';
+import { useState, useCallback, useRef } from 'react';
+import type {
+  Attachment,
+  ChatCommand,
+  ChatMessage,
+  ErrorPayload,
+  User,
+  UserTypingPayload,
+} from '@vestream/shared';
+import { attachmentSchema } from '@vestream/shared';
+import { API_URL } from '../contexts/AuthContext';
 import { useWebSocket } from '../contexts/WebSocketContext';
+import { useWSEvent } from './useWSEvent';
+import { mentionsUser } from '../utils/messageFormat';
+
+// How often TYPING_START is repeated while the user keeps typing; the server ends the
+// indicator when no repeat arrives for a few seconds
+const TYPING_REPEAT_MS = 3_000;
+
+export type TypingUser = Omit<UserTypingPayload, 'roomId'>;
 
 interface UseChatProps {
   roomId: string;
@@ -10,66 +27,228 @@ interface UseChatProps {
 export function useChat({ roomId, currentUser }: UseChatProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [users, setUsers] = useState<User[]>([]);
-  const { sendMessage, lastMessage } = useWebSocket();
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [unreadMentions, setUnreadMentions] = useState(0); // messages @mentioning us, until cleared
+  const [commands, setCommands] = useState<ChatCommand[]>([]); // every slash command the server has
+  const { send } = useWebSocket();
+
+  const lastTypingSentRef = useRef(0); // when TYPING_START was last sent, 0 when not typing
+  const lastReadSentRef = useRef<string>(); // message id of the last MARK_MESSAGES_READ
+  const resumeTokenRef = useRef<string>(); // our session, which authorizes uploads
 
   // Initialize messages when joining a room
-  useEffect(() => {
-    if (lastMessage?.type === 'ROOM_JOINED') {
-      const { messages: initialMessages } = lastMessage.payload as any;
-      if (Array.isArray(initialMessages)) {
-        setMessages(initialMessages);
-      }
+  useWSEvent(
+    'ROOM_JOINED',
+    ({ messages: initialMessages, hasMoreMessages, resumeToken, commands: roomCommands }) => {
+      resumeTokenRef.current = resumeToken;
+      setCommands(roomCommands);
+      setMessages(initialMessages);
+      setHasMore(hasMoreMessages);
+      setLoadingOlder(false);
+      setTypingUsers([]);
     }
-  }, [lastMessage]);
+  );
+
+  // An older page of history goes in front of what we have
+  useWSEvent('CHAT_HISTORY', (history) => {
+    if (history.roomId !== roomId || history.before === undefined) return;
+    setMessages((prevMessages) => {
+      const knownIds = new Set(prevMessages.map((m) => m.id));
+      return [...history.messages.filter((m) => !knownIds.has(m.id)), ...prevMessages];
+    });
+    setHasMore(history.hasMore);
+    setLoadingOlder(false);
+  });
+
+  // A moderator wiped the history with /clear
+  useWSEvent('CHAT_CLEARED', (cleared) => {
+    if (cleared.roomId !== roomId) return;
+    setMessages([]);
+    setHasMore(false);
+  });
+
+  // A refused request (e.g. rate limited) must not leave the loader stuck
+  useWSEvent('ERROR', () => {
+    setLoadingOlder(false);
+  });
 
   // Update users when room state changes
-  useEffect(() => {
-    if (lastMessage?.type === 'ROOM_STATE') {
-      const { room } = lastMessage.payload as any;
-      if (room?.users) {
-        setUsers(room.users);
-      }
-    }
-  }, [lastMessage]);
+  useWSEvent('ROOM_STATE', ({ room }) => {
+    setUsers(room.users);
+  });
+
+  // Append the messages we missed while reconnecting
+  useWSEvent('SESSION_RESUMED', ({ messages: missedMessages, resumeToken }) => {
+    resumeTokenRef.current = resumeToken;
+    setMessages((prevMessages) => {
+      const knownIds = new Set(prevMessages.map((m) => m.id));
+      return [...prevMessages, ...missedMessages.filter((m) => !knownIds.has(m.id))];
+    });
+    // Whoever is still typing repeats it within a few seconds
+    setTypingUsers([]);
+  });
+
+  useWSEvent('TYPING_START', ({ roomId: typingRoomId, userId, username }) => {
+    if (typingRoomId !== roomId) return;
+    setTypingUsers((prevUsers) =>
+      prevUsers.some((u) => u.userId === userId) ? prevUsers : [...prevUsers, { userId, username }]
+    );
+  });
+
+  useWSEvent('TYPING_STOP', ({ userId }) => {
+    setTypingUsers((prevUsers) => prevUsers.filter((u) => u.userId !== userId));
+  });
+
+  useWSEvent('USER_LEFT', ({ user }) => {
+    setTypingUsers((prevUsers) => prevUsers.filter((u) => u.userId !== user.id));
+  });
 
   // Listen for new chat messages
-  useEffect(() => {
-    if (lastMessage?.type === 'CHAT_MESSAGE_RECEIVED') {
-      const { message } = lastMessage.payload as any;
-      if (message) {
-        setMessages((prevMessages) => [...prevMessages, message]);
-      }
+  useWSEvent('CHAT_MESSAGE_RECEIVED', ({ message }) => {
+    setMessages((prevMessages) => [...prevMessages, message]);
+    if (
+      currentUser &&
+      message.senderId !== currentUser.id &&
+      mentionsUser(message.content, currentUser)
+    ) {
+      setUnreadMentions((count) => count + 1);
     }
-  }, [lastMessage]);
+  });
+
+  // Edits, deletions and reactions replace our copy of the message
+  useWSEvent('CHAT_MESSAGE_UPDATED', ({ message }) => {
+    setMessages((prevMessages) => prevMessages.map((m) => (m.id === message.id ? message : m)));
+  });
 
-  // Send a new chat message
+  // Send a new chat message to the whole room; one-to-one messages go through useDirectMessages
   const sendChatMessage = useCallback(
-    (content: string, recipientId?: string) => {
-      if (!currentUser || !content.trim()) {
+    (content: string, attachments: Attachment[] = []) => {
+      if (!currentUser || (!content.trim() && attachments.length === 0)) {
         return;
       }
 
-      const messageType = recipientId ? 'private' : 'public';
-
-      sendMessage({
-        type: 'CHAT_MESSAGE',
-        payload: {
-          message: {
-            content: content.trim(),
-            type: messageType,
-            recipientId,
-            roomId,
-          },
+      send('CHAT_MESSAGE', {
+        message: {
+          content: content.trim(),
+          type: 'public',
+          roomId,
+          attachmentIds: attachments.length > 0 ? attachments.map((a) => a.id) : undefined,
         },
-        timestamp: new Date().toISOString(),
       });
+      // Sending ends the typing indicator on the server
+      lastTypingSentRef.current = 0;
     },
-    [currentUser, roomId, sendMessage]
+    [currentUser, roomId, send]
   );
 
+  // Upload a file for the next message; rejects with the server's reason when it is refused
+  const uploadAttachment = useCallback(
+    async (file: File): Promise<Attachment> => {
+      const response = await fetch(
+        `${API_URL}/api/rooms/${encodeURIComponent(roomId)}/attachments`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': file.type || 'application/octet-stream',
+            'X-File-Name': encodeURIComponent(file.name),
+            'X-Resume-Token': resumeTokenRef.current ?? '',
+          },
+          body: file,
+        }
+      );
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error((body as ErrorPayload).message);
+      }
+      const result = attachmentSchema(body, '');
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      return result.data;
+    },
+    [roomId]
+  );
+
+  // Called on every change to the input; TYPING_START goes out at most every TYPING_REPEAT_MS
+  const setTyping = useCallback(
+    (typing: boolean) => {
+      if (typing) {
+        if (Date.now() - lastTypingSentRef.current < TYPING_REPEAT_MS) return;
+        lastTypingSentRef.current = Date.now();
+        send('TYPING_START', { roomId });
+      } else if (lastTypingSentRef.current) {
+        lastTypingSentRef.current = 0;
+        send('TYPING_STOP', { roomId });
+      }
+    },
+    [roomId, send]
+  );
+
+  // Report everything we have as seen, but only when that gives someone a read receipt
+  const markMessagesRead = useCallback(() => {
+    const lastMessage = messages[messages.length - 1];
+    const hasUnread = messages.some(
+      (m) => m.type === 'private' && m.recipientId === currentUser?.id && !m.readAt && !m.deleted
+    );
+    if (!lastMessage || !hasUnread || lastReadSentRef.current === lastMessage.id) {
+      return;
+    }
+
+    lastReadSentRef.current = lastMessage.id;
+    send('MARK_MESSAGES_READ', { roomId, messageId: lastMessage.id });
+  }, [messages, currentUser, roomId, send]);
+
+  const clearMentions = useCallback(() => setUnreadMentions(0), []);
+
+  const editMessage = useCallback(
+    (messageId: string, content: string) => {
+      if (!content.trim()) return;
+      send('CHAT_MESSAGE_EDIT', { messageId, content: content.trim() });
+    },
+    [send]
+  );
+
+  const deleteMessage = useCallback(
+    (messageId: string) => send('CHAT_MESSAGE_DELETE', { messageId }),
+    [send]
+  );
+
+  const reactToMessage = useCallback(
+    (messageId: string, emoji: string, reacted: boolean) =>
+      send('CHAT_REACTION', { messageId, emoji, reacted }),
+    [send]
+  );
+
+  // Request the page of history before the oldest message we have
+  const loadOlderMessages = useCallback(() => {
+    const oldestMessage = messages[0];
+    if (!oldestMessage || !hasMore || loadingOlder) {
+      return;
+    }
+
+    setLoadingOlder(true);
+    send('GET_CHAT_HISTORY', { roomId, before: oldestMessage.id });
+  }, [messages, hasMore, loadingOlder, roomId, send]);
+
   return {
     messages,
     users,
+    hasMore,
+    loadingOlder,
+    typingUsers,
+    unreadMentions,
+    commands,
     sendChatMessage,
+    uploadAttachment,
+    setTyping,
+    markMessagesRead,
+    clearMentions,
+    loadOlderMessages,
+    editMessage,
+    deleteMessage,
+    reactToMessage,
   };
 } 
\ No newline at end of file
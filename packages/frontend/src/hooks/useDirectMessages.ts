@@ -0,0 +1,135 @@
+import { useState, useCallback, useRef } from 'react';
+import type { DirectMessage, DirectThread } from '@vestream/shared';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { useWSEvent } from './useWSEvent';
+
+export type DirectPeer = DirectThread['peer'];
+
+export function useDirectMessages() {
+  const [threads, setThreads] = useState<DirectThread[]>([]);
+  const [activePeer, setActivePeer] = useState<DirectPeer>();
+  const [messages, setMessages] = useState<DirectMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const { send } = useWebSocket();
+
+  // Read by the listeners, which must not wait for a re-render to see a newly opened thread
+  const activePeerRef = useRef<DirectPeer>();
+  activePeerRef.current = activePeer;
+
+  const markRead = useCallback(
+    (peerId: string, messageId: string) => {
+      send('MARK_THREAD_READ', { peerId, messageId });
+      setThreads((prevThreads) =>
+        prevThreads.map((thread) =>
+          thread.peer.id === peerId ? { ...thread, unreadCount: 0 } : thread
+        )
+      );
+    },
+    [send]
+  );
+
+  // Sent after joining or resuming; anything missed in the open thread is fetched again
+  useWSEvent('DIRECT_THREADS', ({ threads: userThreads }) => {
+    setThreads(userThreads);
+    const peer = activePeerRef.current;
+    if (peer) {
+      send('GET_DIRECT_MESSAGES', { peerId: peer.id });
+    }
+  });
+
+  // The most recent page replaces what we have, an older one goes in front of it
+  useWSEvent('DIRECT_MESSAGES', ({ peerId, before, messages: threadMessages, hasMore: more }) => {
+    if (peerId !== activePeerRef.current?.id) return;
+    setHasMore(more);
+    if (before !== undefined) {
+      setMessages((prevMessages) => {
+        const knownIds = new Set(prevMessages.map((m) => m.id));
+        return [...threadMessages.filter((m) => !knownIds.has(m.id)), ...prevMessages];
+      });
+      setLoadingOlder(false);
+      return;
+    }
+    setMessages(threadMessages);
+
+    const lastMessage = threadMessages[threadMessages.length - 1];
+    if (lastMessage) {
+      markRead(peerId, lastMessage.id);
+    }
+  });
+
+  // A refused request (e.g. rate limited) must not leave the loader stuck
+  useWSEvent('ERROR', () => {
+    setLoadingOlder(false);
+  });
+
+  // The thread moves to the top of the list; it stays read while it is open
+  useWSEvent('DIRECT_MESSAGE_RECEIVED', ({ message, thread }) => {
+    const isOpen = thread.peer.id === activePeerRef.current?.id;
+    setThreads((prevThreads) => [
+      isOpen ? { ...thread, unreadCount: 0 } : thread,
+      ...prevThreads.filter((t) => t.peer.id !== thread.peer.id),
+    ]);
+
+    if (isOpen) {
+      setMessages((prevMessages) => [...prevMessages, message]);
+      if (message.senderId === thread.peer.id) {
+        send('MARK_THREAD_READ', { peerId: thread.peer.id, messageId: message.id });
+      }
+    }
+  });
+
+  const openThread = useCallback(
+    (peer: DirectPeer) => {
+      setActivePeer(peer);
+      setMessages([]);
+      setHasMore(false);
+      setLoadingOlder(false);
+      send('GET_DIRECT_MESSAGES', { peerId: peer.id });
+    },
+    [send]
+  );
+
+  const closeThread = useCallback(() => {
+    setActivePeer(undefined);
+    setMessages([]);
+    setHasMore(false);
+    setLoadingOlder(false);
+  }, []);
+
+  // Request the page before the oldest message of the open thread
+  const loadOlderMessages = useCallback(() => {
+    const oldestMessage = messages[0];
+    if (!activePeer || !oldestMessage || !hasMore || loadingOlder) {
+      return;
+    }
+
+    setLoadingOlder(true);
+    send('GET_DIRECT_MESSAGES', { peerId: activePeer.id, before: oldestMessage.id });
+  }, [activePeer, messages, hasMore, loadingOlder, send]);
+
+  const sendDirectMessage = useCallback(
+    (content: string) => {
+      if (!activePeer || !content.trim()) {
+        return;
+      }
+      send('SEND_DIRECT_MESSAGE', { recipientId: activePeer.id, content: content.trim() });
+    },
+    [activePeer, send]
+  );
+
+  const unreadCount = threads.reduce((total, thread) => total + thread.unreadCount, 0);
+
+  return {
+    threads,
+    activePeer,
+    messages,
+    hasMore,
+    loadingOlder,
+    unreadCount,
+    openThread,
+    closeThread,
+    loadOlderMessages,
+    sendDirectMessage,
+  };
+}
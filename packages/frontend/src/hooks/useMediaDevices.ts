@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+
+// The cameras and microphones the browser offers, kept current as devices are plugged in and
+// out. Browsers only give the labels once the page may use a device, hence `enabled`
+export function useMediaDevices(enabled: boolean) {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    if (!enabled || !navigator.mediaDevices) return;
+    const { mediaDevices } = navigator;
+    let cancelled = false;
+
+    const update = () => {
+      mediaDevices
+        .enumerateDevices()
+        .then((found) => {
+          if (!cancelled) setDevices(found);
+        })
+        .catch((error) => console.error('Error listing media devices:', error));
+    };
+
+    update();
+    mediaDevices.addEventListener('devicechange', update);
+    return () => {
+      cancelled = true;
+      mediaDevices.removeEventListener('devicechange', update);
+    };
+  }, [enabled]);
+
+  return {
+    cameras: devices.filter((device) => device.kind === 'videoinput'),
+    microphones: devices.filter((device) => device.kind === 'audioinput'),
+  };
+}
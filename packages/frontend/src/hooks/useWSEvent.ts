@@ -0,0 +1,17 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import type { ServerMessageType } from '@vestream/shared';
+import { useWebSocket, type MessageListener } from '../contexts/WebSocketContext';
+
+// Subscribe to a server message type for the lifetime of the component.
+// The subscription is keyed only on the type, so re-renders never drop messages;
+// the latest handler is always the one invoked.
+export function useWSEvent<T extends ServerMessageType>(type: T, handler: MessageListener<T>) {
+  const { on } = useWebSocket();
+  const handlerRef = useRef(handler);
+
+  useLayoutEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => on(type, (payload) => handlerRef.current(payload)), [on, type]);
+}
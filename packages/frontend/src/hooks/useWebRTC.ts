@@ -1,288 +1,663 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { User, RTCSignalPayload } from '@vestream/shared';
+import type {
+  User,
+  MediaState,
+  PeerStats,
+  RTCSignalPayload,
+  SessionDescriptionData,
+  IceCandidateData,
+} from '@vestream/shared';
+import { SFU_USER_ID } from '@vestream/shared';
+import type { SendFunction } from '../contexts/WebSocketContext';
+import { createCompositeVideo, type CompositeVideo } from '../utils/compositeVideo';
+import { summarizeStats, type StatsSample } from '../utils/peerStats';
+import {
+  HALF_RESOLUTION_FACTOR,
+  QUALITY_PRESETS,
+  getCaptureConstraints,
+  nextBitrateFactor,
+  type QualityPreset,
+} from '../utils/videoQuality';
+
+export type VideoSource = MediaState['source'];
+
+// How long to wait before each ICE restart while a connection is down. A connection that is
+// still down after the last one is given up
+const ICE_RESTART_DELAYS_MS = [2_000, 4_000, 8_000, 16_000];
+
+const STATS_INTERVAL_MS = 2_000; // how often viewers sample getStats() on their connection
+
+// The camera and microphone being used, by device id
+export interface SelectedDevices {
+  videoinput?: string;
+  audioinput?: string;
+}
+
+function getDeviceIds(stream: MediaStream): SelectedDevices {
+  return {
+    videoinput: stream.getVideoTracks()[0]?.getSettings().deviceId,
+    audioinput: stream.getAudioTracks()[0]?.getSettings().deviceId,
+  };
+}
 
 interface UseWebRTCProps {
   user?: User;
-  remoteUser?: User;
-  onTrack?: (stream: MediaStream) => void;
-  sendMessage: (message: any) => void;
+  roomUsers?: User[]; // who a signal from an unknown sender may come from
+  onTrack?: (stream: MediaStream, peerUser: User) => void;
+  send: SendFunction;
+}
+
+// A connection to one remote user, as shown to the UI
+export interface PeerInfo {
+  user: User;
+  connectionState: RTCPeerConnectionState;
+  reconnecting: boolean; // down, but ICE restarts are still being tried
+  qualityLowered: boolean; // sent less than the preset because of congestion
+}
+
+interface Peer {
+  user: User;
+  pc: RTCPeerConnection;
+  // ICE candidates that arrived before the remote description they belong to
+  pendingCandidates: RTCIceCandidateInit[];
+  // Perfect negotiation: when both sides offer at once, the polite side gives way
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  restartAttempts: number;
+  restartTimer?: ReturnType<typeof setTimeout>;
+  statsSample?: StatsSample; // the last getStats() totals, for working out rates
+  bitrateFactor: number; // share of the preset's bitrate this peer is sent, lowered by adaptive mode
+}
+
+// The broadcaster's offers win a collision; between equals, the lower user id does
+function isPolite(self: User, other: User) {
+  if (self.role !== other.role) return self.role !== 'broadcaster';
+  return self.id > other.id;
+}
+
+function closeConnection(peer: Peer) {
+  clearTimeout(peer.restartTimer);
+  peer.pc.close();
+}
+
+// The o= line's session id is the same in every offer from one RTCPeerConnection, so an offer
+// with another one starts a new call rather than renegotiating the current one
+function getSessionId(sdp?: string) {
+  return sdp && /^o=\S+ (\S+)/m.exec(sdp)?.[1];
+}
+
+// The DOM's toJSON() results are typed loosely; narrow them to what the protocol carries
+function toSessionDescriptionData(description: RTCSessionDescription): SessionDescriptionData {
+  return { type: description.type, sdp: description.sdp };
 }
 
-export function useWebRTC({ user, remoteUser, onTrack, sendMessage }: UseWebRTCProps) {
+function toIceCandidateData(candidate: RTCIceCandidate): IceCandidateData {
+  return {
+    candidate: candidate.candidate,
+    sdpMid: candidate.sdpMid,
+    sdpMLineIndex: candidate.sdpMLineIndex,
+    usernameFragment: candidate.usernameFragment,
+  };
+}
+
+export function useWebRTC({ user, roomUsers = [], onTrack, send }: UseWebRTCProps) {
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-  // Store multiple peer connections in a map (userId -> RTCPeerConnection)
-  const peerConnectionsRef = useRef<Map<string, RTCPeerConnection>>(new Map());
+  const [peers, setPeers] = useState<PeerInfo[]>([]);
+  const [videoSource, setVideoSourceState] = useState<VideoSource>('camera');
+  const [selectedDevices, setSelectedDevices] = useState<SelectedDevices>({});
+  const [muted, setMutedState] = useState(false);
+  const [cameraOff, setCameraOffState] = useState(false);
+  const [peerStats, setPeerStats] = useState<Record<string, PeerStats>>({}); // userId -> stats
+  const [quality, setQualityState] = useState<QualityPreset>('720p');
+  const [adaptive, setAdaptiveState] = useState(true);
+  const peersRef = useRef<Map<string, Peer>>(new Map()); // userId -> peer
+  // What we send: the microphone and whichever video source is active
   const localStreamRef = useRef<MediaStream | null>(null);
-  // Track pending ICE candidates that arrive before the connection is ready
-  const pendingIceCandidatesRef = useRef<Map<string, RTCIceCandidate[]>>(new Map());
-  // Keep track of connection state for each peer
-  const connectionStatesRef = useRef<Map<string, string>>(new Map());
-  
-  // Clean up peer connections on unmount or when users change
+  const cameraStreamRef = useRef<MediaStream | null>(null); // kept running while the screen is shared
+  const screenTrackRef = useRef<MediaStreamTrack>();
+  const compositeRef = useRef<CompositeVideo>();
+  const videoSourceRef = useRef<VideoSource>('camera');
+  const qualityRef = useRef<QualityPreset>('720p');
+  const adaptiveRef = useRef(true);
+  const roomUsersRef = useRef(roomUsers);
+  roomUsersRef.current = roomUsers;
+
+  // Publish the connection states after peers come, go or change state
+  const updatePeers = useCallback(() => {
+    setPeers(
+      Array.from(
+        peersRef.current.values(),
+        ({ user: peerUser, pc, restartTimer, bitrateFactor }) => ({
+          user: peerUser,
+          connectionState: pc.connectionState,
+          reconnecting: restartTimer !== undefined,
+          qualityLowered: bitrateFactor < 1,
+        })
+      )
+    );
+  }, []);
+
+  // Close the connection to a single peer, e.g. one whose session was resumed
+  const closePeer = useCallback(
+    (userId: string) => {
+      const peer = peersRef.current.get(userId);
+      if (!peer) return;
+      closeConnection(peer);
+      peersRef.current.delete(userId);
+      updatePeers();
+    },
+    [updatePeers]
+  );
+
+  // Close all peer connections but keep the local stream, e.g. after our own reconnect
+  const closeAllPeers = useCallback(() => {
+    peersRef.current.forEach(closeConnection);
+    peersRef.current.clear();
+    updatePeers();
+  }, [updatePeers]);
+
+  // Clean up peer connections and every capture on unmount
   const cleanup = useCallback(() => {
-    // Close all peer connections
-    peerConnectionsRef.current.forEach((pc, userId) => {
-      pc.close();
-    });
-    peerConnectionsRef.current.clear();
-    pendingIceCandidatesRef.current.clear();
-    connectionStatesRef.current.clear();
-    
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => track.stop());
-    }
+    peersRef.current.forEach(closeConnection);
+    peersRef.current.clear();
+    compositeRef.current?.stop();
+    screenTrackRef.current?.stop();
+    cameraStreamRef.current?.getTracks().forEach((track) => track.stop());
   }, []);
 
-  // Create a new peer connection for a specific remote user
-  const createPeerConnection = useCallback((targetUser: User) => {
-    if (!user) {
-      return null;
-    }
-    
-    const pc = new RTCPeerConnection({
-      iceServers: [{ urls: 'stun:stun.l.google.com:19302' }]
+  // Limit what a peer is sent to the preset, scaled down by its bitrate factor. Shared screens
+  // come at their full size, so they are scaled down to the preset's height here too
+  const applyEncoding = useCallback(async (peer: Peer) => {
+    const sender = peer.pc.getSenders().find((s) => s.track?.kind === 'video');
+    if (!sender?.track) return;
+    const params = sender.getParameters();
+    // Nothing to set before negotiation; it's applied again once connected
+    if (!params.encodings?.length) return;
+
+    const preset = QUALITY_PRESETS[qualityRef.current];
+    const height = sender.track.getSettings().height;
+    let scale = height && height > preset.height ? height / preset.height : 1;
+    if (peer.bitrateFactor <= HALF_RESOLUTION_FACTOR) scale *= 2;
+
+    params.encodings.forEach((encoding) => {
+      encoding.maxBitrate = Math.round(preset.maxBitrateKbps * peer.bitrateFactor * 1000);
+      encoding.maxFramerate = preset.frameRate;
+      encoding.scaleResolutionDownBy = scale;
     });
-    
-    // Store initial connection state
-    connectionStatesRef.current.set(targetUser.id, pc.signalingState);
-    
-    // Handle ICE candidates
-    pc.onicecandidate = (event) => {
-      if (event.candidate) {
-        sendMessage({
-          type: 'ICE_CANDIDATE',
-          payload: {
-            sender: user.id,
-            receiver: targetUser.id,
-            roomId: user.roomId,
-            data: event.candidate
-          },
-          timestamp: new Date().toISOString(),
-        });
-      }
-    };
-    
-    // Handle ICE connection state changes
-    pc.oniceconnectionstatechange = () => {
-      // Clean up peer connection if disconnected/failed
-      if (pc.iceConnectionState === 'disconnected' || 
-          pc.iceConnectionState === 'failed' ||
-          pc.iceConnectionState === 'closed') {
-        peerConnectionsRef.current.delete(targetUser.id);
-        pendingIceCandidatesRef.current.delete(targetUser.id);
-        connectionStatesRef.current.delete(targetUser.id);
+    await sender
+      .setParameters(params)
+      .catch((err) => console.error(`Error limiting the video sent to ${peer.user.id}:`, err));
+  }, []);
+
+  const applyEncodingToAll = useCallback(
+    () => Promise.all(Array.from(peersRef.current.values(), applyEncoding)),
+    [applyEncoding]
+  );
+
+  // Restart ICE on a connection that went down, backing off between attempts. A restart that
+  // works brings the connection back to 'connected', which ends the schedule
+  const scheduleIceRestart = useCallback(
+    (peer: Peer) => {
+      if (peer.restartTimer) return;
+      const delay = ICE_RESTART_DELAYS_MS[peer.restartAttempts];
+      if (delay === undefined) {
+        console.warn(`Giving up on the connection to ${peer.user.username}`);
+        updatePeers();
+        return;
       }
-    };
-    
-    // Handle signaling state changes
-    pc.onsignalingstatechange = () => {
-      connectionStatesRef.current.set(targetUser.id, pc.signalingState);
-      
-      // If connection is stable again and we have pending ICE candidates, try to add them
-      if (pc.signalingState === 'stable') {
-        const pendingCandidates = pendingIceCandidatesRef.current.get(targetUser.id) || [];
-        if (pendingCandidates.length > 0) {
-          pendingCandidates.forEach(candidate => {
-            pc.addIceCandidate(candidate)
-              .catch(err => console.error('Error adding pending ICE candidate:', err));
+
+      peer.restartTimer = setTimeout(() => {
+        peer.restartTimer = undefined;
+        if (
+          peersRef.current.get(peer.user.id) !== peer ||
+          peer.pc.connectionState === 'connected'
+        ) {
+          return;
+        }
+        peer.restartAttempts++;
+        console.log(`Restarting ICE with ${peer.user.username}, attempt ${peer.restartAttempts}`);
+        peer.pc.restartIce();
+        // The restart may fail without the state changing again, so check back later
+        scheduleIceRestart(peer);
+      }, delay);
+      updatePeers();
+    },
+    [updatePeers]
+  );
+
+  // Create the peer connection for a remote user, replacing any previous one. The local user
+  // is passed in by calls made before it has rendered, e.g. right after joining
+  const createPeer = useCallback(
+    (targetUser: User, self = user) => {
+      if (!self) return undefined;
+      const previous = peersRef.current.get(targetUser.id);
+      if (previous) closeConnection(previous);
+
+      const pc = new RTCPeerConnection({
+        iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
+      });
+      const peer: Peer = {
+        user: targetUser,
+        pc,
+        pendingCandidates: [],
+        polite: isPolite(self, targetUser),
+        makingOffer: false,
+        ignoreOffer: false,
+        restartAttempts: 0,
+        bitrateFactor: 1,
+      };
+
+      // Every offer starts here: the first one once our tracks are added, and later ones for
+      // ICE restarts
+      pc.onnegotiationneeded = async () => {
+        try {
+          peer.makingOffer = true;
+          await pc.setLocalDescription();
+          if (pc.localDescription) {
+            send('OFFER', {
+              sender: self.id,
+              receiver: targetUser.id,
+              roomId: self.roomId,
+              data: toSessionDescriptionData(pc.localDescription),
+            });
+          }
+        } catch (error) {
+          console.error(`Error creating an offer for ${targetUser.id}:`, error);
+        } finally {
+          peer.makingOffer = false;
+        }
+      };
+
+      pc.onicecandidate = (event) => {
+        if (event.candidate) {
+          send('ICE_CANDIDATE', {
+            sender: self.id,
+            receiver: targetUser.id,
+            roomId: self.roomId,
+            data: toIceCandidateData(event.candidate),
           });
-          pendingIceCandidatesRef.current.delete(targetUser.id);
         }
-      }
-    };
-    
-    // Handle remote tracks
-    pc.ontrack = (event) => {
-      const [remoteStream] = event.streams;
-      if (remoteStream) {
-        onTrack?.(remoteStream);
-      }
-    };
-    
-    // Add local tracks to the peer connection
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => {
-        if (localStreamRef.current) {
-          pc.addTrack(track, localStreamRef.current);
+      };
+
+      // 'disconnected' is often only a blip, so a restart waits a little in case it recovers by
+      // itself. Connections that are given up stay listed until they are replaced or closed
+      pc.onconnectionstatechange = () => {
+        if (peersRef.current.get(targetUser.id) !== peer) return;
+        if (pc.connectionState === 'connected') {
+          applyEncoding(peer);
+          clearTimeout(peer.restartTimer);
+          peer.restartTimer = undefined;
+          peer.restartAttempts = 0;
+        } else if (pc.connectionState === 'disconnected' || pc.connectionState === 'failed') {
+          scheduleIceRestart(peer);
         }
-      });
-    }
-    
-    // Store the peer connection
-    peerConnectionsRef.current.set(targetUser.id, pc);
-    
-    return pc;
-  }, [user, sendMessage, onTrack]);
+        updatePeers();
+      };
+
+      pc.ontrack = (event) => {
+        const [remoteStream] = event.streams;
+        if (remoteStream) {
+          onTrack?.(remoteStream, targetUser);
+        }
+      };
+
+      const stream = localStreamRef.current;
+      stream?.getTracks().forEach((track) => pc.addTrack(track, stream));
+
+      peersRef.current.set(targetUser.id, peer);
+      updatePeers();
+      return peer;
+    },
+    [user, send, onTrack, updatePeers, scheduleIceRestart, applyEncoding]
+  );
 
   // Start local media stream
   const startLocalStream = useCallback(async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: true,
+        video: getCaptureConstraints(qualityRef.current),
         audio: true,
       });
-      
-      localStreamRef.current = stream;
-      setLocalStream(stream);
-      return stream;
+
+      cameraStreamRef.current = stream;
+      const outgoing = new MediaStream(stream.getTracks());
+      localStreamRef.current = outgoing;
+      setLocalStream(outgoing);
+      videoSourceRef.current = 'camera';
+      setVideoSourceState('camera');
+      setSelectedDevices(getDeviceIds(stream));
+      setMutedState(false);
+      setCameraOffState(false);
+      return outgoing;
     } catch (error) {
       console.error('Error starting local stream:', error);
       return null;
     }
   }, []);
 
-  // Add an ICE candidate either directly or store it for later
-  const addIceCandidate = useCallback((userId: string, candidate: RTCIceCandidate, pc: RTCPeerConnection) => {
-    const state = connectionStatesRef.current.get(userId) || pc.signalingState;
-    
-    // Only add ICE candidates if we're in an appropriate state
-    if (state === 'stable' || state === 'have-remote-offer' || state === 'have-local-pranswer') {
-      pc.addIceCandidate(candidate)
-        .catch(err => {
-          console.error('Error adding ICE candidate:', err);
-          // Store it for later if we fail to add it now
-          let pendingCandidates = pendingIceCandidatesRef.current.get(userId) || [];
-          pendingCandidates.push(candidate);
-          pendingIceCandidatesRef.current.set(userId, pendingCandidates);
-        });
-    } else {
-      // Save the candidate for later
-      let pendingCandidates = pendingIceCandidatesRef.current.get(userId) || [];
-      pendingCandidates.push(candidate);
-      pendingIceCandidatesRef.current.set(userId, pendingCandidates);
-    }
+  // Put another track on the outgoing stream and every connection, in place of the one of the
+  // same kind. replaceTrack needs no renegotiation, so viewers keep the stream they are watching
+  const replaceTrack = useCallback(
+    async (track: MediaStreamTrack) => {
+      const stream = localStreamRef.current;
+      if (!stream) return;
+      stream
+        .getTracks()
+        .filter((previous) => previous.kind === track.kind)
+        .forEach((previous) => stream.removeTrack(previous));
+      stream.addTrack(track);
+
+      await Promise.all(
+        Array.from(peersRef.current.values(), ({ user: peerUser, pc }) =>
+          pc
+            .getSenders()
+            .find((sender) => sender.track?.kind === track.kind)
+            ?.replaceTrack(track)
+            .catch((err) => console.error(`Error replacing the track sent to ${peerUser.id}:`, err))
+        )
+      );
+      // The scaling depends on the size of the new video
+      if (track.kind === 'video') await applyEncodingToAll();
+    },
+    [applyEncodingToAll]
+  );
+
+  // Switch between the camera, a shared screen or window, and the camera over the screen.
+  // Resolves to false when the switch didn't happen, e.g. the screen picker was cancelled
+  const setVideoSource = useCallback(
+    async function switchTo(source: VideoSource): Promise<boolean> {
+      const camera = cameraStreamRef.current?.getVideoTracks()[0];
+      if (!localStreamRef.current || !camera) return false;
+
+      let screen = screenTrackRef.current;
+      if (source !== 'camera' && !screen) {
+        try {
+          const display = await navigator.mediaDevices.getDisplayMedia({ video: true });
+          screen = display.getVideoTracks()[0];
+        } catch (error) {
+          console.error('Error starting screen share:', error);
+          return false;
+        }
+        screenTrackRef.current = screen;
+        // Sharing stopped from the browser's own controls falls back to the camera
+        const sharedTrack = screen;
+        sharedTrack.onended = () => {
+          if (screenTrackRef.current === sharedTrack) switchTo('camera');
+        };
+      }
+
+      const previousComposite = compositeRef.current;
+      compositeRef.current =
+        source === 'composite' && screen ? createCompositeVideo(screen, camera) : undefined;
+      const track =
+        source === 'camera' || !screen ? camera : (compositeRef.current?.track ?? screen);
+      await replaceTrack(track);
+
+      previousComposite?.stop();
+      if (source === 'camera') {
+        screenTrackRef.current?.stop();
+        screenTrackRef.current = undefined;
+      }
+      videoSourceRef.current = source;
+      setVideoSourceState(source);
+      return true;
+    },
+    [replaceTrack]
+  );
+
+  // Use another camera or microphone. The new device is muted or off when the old one was,
+  // and a camera only goes out right away when it is part of what's being shown
+  const switchDevice = useCallback(
+    async (kind: 'videoinput' | 'audioinput', deviceId: string) => {
+      const camera = cameraStreamRef.current;
+      if (!camera) return false;
+
+      const constraints = { deviceId: { exact: deviceId } };
+      const videoConstraints = { ...getCaptureConstraints(qualityRef.current), ...constraints };
+      let track: MediaStreamTrack;
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia(
+          kind === 'videoinput' ? { video: videoConstraints } : { audio: constraints }
+        );
+        [track] = stream.getTracks();
+      } catch (error) {
+        console.error(`Error switching to ${kind} ${deviceId}:`, error);
+        return false;
+      }
+
+      const previous = camera.getTracks().find((t) => t.kind === track.kind);
+      if (previous) {
+        track.enabled = previous.enabled;
+        camera.removeTrack(previous);
+      }
+      camera.addTrack(track);
+
+      const source = videoSourceRef.current;
+      if (kind === 'audioinput' || source === 'camera') {
+        await replaceTrack(track);
+      } else if (source === 'composite' && screenTrackRef.current) {
+        const previousComposite = compositeRef.current;
+        compositeRef.current = createCompositeVideo(screenTrackRef.current, track);
+        await replaceTrack(compositeRef.current.track);
+        previousComposite?.stop();
+      }
+
+      previous?.stop();
+      setSelectedDevices(getDeviceIds(camera));
+      return true;
+    },
+    [replaceTrack]
+  );
+
+  // Muting and turning the camera off disable the tracks rather than removing them, so the
+  // connections stay as they are; a disabled track sends silence or black frames
+  const setMuted = useCallback((value: boolean) => {
+    cameraStreamRef.current?.getAudioTracks().forEach((track) => (track.enabled = !value));
+    setMutedState(value);
   }, []);
 
+  const setCameraOff = useCallback((value: boolean) => {
+    cameraStreamRef.current?.getVideoTracks().forEach((track) => (track.enabled = !value));
+    setCameraOffState(value);
+  }, []);
+
+  // Capture the camera at another preset's size and send every peer at most its bitrate
+  const setQuality = useCallback(
+    async (preset: QualityPreset) => {
+      qualityRef.current = preset;
+      setQualityState(preset);
+      const camera = cameraStreamRef.current?.getVideoTracks()[0];
+      await camera
+        ?.applyConstraints(getCaptureConstraints(preset))
+        .catch((err) => console.error(`Error capturing the camera at ${preset}:`, err));
+      await applyEncodingToAll();
+    },
+    [applyEncodingToAll]
+  );
+
+  // Turning adaptive mode off sends every peer the full preset again
+  const setAdaptive = useCallback(
+    (value: boolean) => {
+      adaptiveRef.current = value;
+      setAdaptiveState(value);
+      if (value) return;
+      peersRef.current.forEach((peer) => (peer.bitrateFactor = 1));
+      applyEncodingToAll();
+      updatePeers();
+    },
+    [applyEncodingToAll, updatePeers]
+  );
+
+  // In adaptive mode, lower or restore what a viewer is sent after each of their stats reports
+  const adaptToStats = useCallback(
+    (userId: string, stats: PeerStats) => {
+      const peer = peersRef.current.get(userId);
+      if (!adaptiveRef.current || !peer) return;
+      const factor = nextBitrateFactor(peer.bitrateFactor, stats);
+      if (factor === peer.bitrateFactor) return;
+
+      console.log(`Sending ${peer.user.username} ${Math.round(factor * 100)}% of the preset`);
+      peer.bitrateFactor = factor;
+      applyEncoding(peer);
+      updatePeers();
+    },
+    [applyEncoding, updatePeers]
+  );
+
+  // Apply a remote description, then the candidates that were waiting for it
+  const setRemoteDescription = useCallback(
+    async (peer: Peer, description: SessionDescriptionData) => {
+      await peer.pc.setRemoteDescription(description);
+      const candidates = peer.pendingCandidates.splice(0);
+      for (const candidate of candidates) {
+        await peer.pc
+          .addIceCandidate(candidate)
+          .catch((err) => console.error('Error adding pending ICE candidate:', err));
+      }
+    },
+    []
+  );
+
   // Handle incoming WebRTC signals
-  const handleIncomingSignal = useCallback((payload: RTCSignalPayload) => {
-    if (!user) {
-      return;
-    }
-    
-    // Verify this signal is for us
-    if (payload.receiver !== user.id) {
-      return;
-    }
-    
-    const { sender, data } = payload;
-    
-    // Get the peer connection for this sender, or create one if it doesn't exist
-    let pc = peerConnectionsRef.current.get(sender);
-    
-    if (!pc) {
-      let newPc: RTCPeerConnection | null = null;
-      
-      // For a viewer, we need to make sure remoteUser is set to handle the broadcaster
-      if (user.role === 'viewer' && remoteUser) {
-        newPc = createPeerConnection(remoteUser);
-      } 
-      // For a broadcaster, we need to find the viewer details
-      else if (user.role === 'broadcaster') {
-        // We need to fabricate a User object for the sender since we only have the ID
-        const viewerUser: User = {
-          id: sender,
-          username: `User-${sender.substring(0, 5)}`, // Just a placeholder name
-          role: 'viewer',
-          roomId: user.roomId
-        };
-        newPc = createPeerConnection(viewerUser);
+  const handleIncomingSignal = useCallback(
+    async (payload: RTCSignalPayload) => {
+      if (!user || payload.receiver !== user.id) {
+        return;
+      }
+
+      const { sender, data } = payload;
+      let peer = peersRef.current.get(sender);
+
+      // An offer for a connection we don't have starts a new one, e.g. a retry; the sender must
+      // be someone in the room
+      if (
+        'type' in data &&
+        data.type === 'offer' &&
+        (!peer ||
+          (peer.pc.remoteDescription &&
+            getSessionId(peer.pc.remoteDescription.sdp) !== getSessionId(data.sdp)))
+      ) {
+        const senderUser = peer?.user ?? roomUsersRef.current.find((u) => u.id === sender);
+        if (!senderUser) {
+          console.warn('Ignoring offer from a user who is not in the room:', sender);
+          return;
+        }
+        peer = createPeer(senderUser);
       }
-      
-      if (!newPc) {
+      if (!peer) {
         return;
       }
-      
-      pc = newPc;
-    }
-    
-    // Handle the signal based on its content
-    if (data && data.type === 'offer') {
-      pc.setRemoteDescription(new RTCSessionDescription(data))
-        .then(() => pc.createAnswer())
-        .then(answer => pc.setLocalDescription(answer))
-        .then(() => {
-          if (pc.localDescription) {
-            sendMessage({
-              type: 'ANSWER',
-              payload: {
+      const { pc } = peer;
+
+      try {
+        if ('type' in data) {
+          // Both sides offered at once: the impolite side ignores the other offer, and the
+          // polite side rolls its own back and answers instead
+          const collision =
+            data.type === 'offer' && (peer.makingOffer || pc.signalingState !== 'stable');
+          peer.ignoreOffer = !peer.polite && collision;
+          if (peer.ignoreOffer) {
+            console.log(`Ignoring a colliding offer from ${sender}`);
+            return;
+          }
+          if (collision) {
+            await pc.setLocalDescription({ type: 'rollback' });
+          }
+          // A late answer to an offer we already replaced is dropped
+          if (data.type === 'answer' && pc.signalingState !== 'have-local-offer') {
+            return;
+          }
+
+          await setRemoteDescription(peer, data);
+          if (data.type === 'offer') {
+            await pc.setLocalDescription();
+            if (pc.localDescription) {
+              send('ANSWER', {
                 sender: user.id,
                 receiver: sender,
                 roomId: user.roomId,
-                data: pc.localDescription
-              },
-              timestamp: new Date().toISOString(),
-            });
-          }
-        })
-        .catch(err => console.error('Error handling offer:', err));
-    } else if (data && data.type === 'answer') {
-      // Only process answer if we're in the right state
-      if (pc.signalingState === 'have-local-offer') {
-        pc.setRemoteDescription(new RTCSessionDescription(data))
-          .then(() => {
-            // Process any stored ICE candidates now that the connection is established
-            const pendingCandidates = pendingIceCandidatesRef.current.get(sender) || [];
-            if (pendingCandidates.length > 0) {
-              pendingCandidates.forEach(candidate => {
-                pc.addIceCandidate(candidate)
-                  .catch(err => console.error('Error adding stored ICE candidate:', err));
+                data: toSessionDescriptionData(pc.localDescription),
               });
-              pendingIceCandidatesRef.current.delete(sender);
             }
-          })
-          .catch(err => {
-            console.error('Error handling answer:', err);
-          });
+          }
+        } else if (data.candidate) {
+          if (!pc.remoteDescription) {
+            peer.pendingCandidates.push(data);
+            return;
+          }
+          try {
+            await pc.addIceCandidate(data);
+          } catch (error) {
+            // Candidates for an offer we ignored have nowhere to go
+            if (!peer.ignoreOffer) throw error;
+          }
+        }
+      } catch (error) {
+        console.error(`Error handling signal from ${sender}:`, error);
       }
-    } else if (data && data.candidate) {
-      addIceCandidate(sender, new RTCIceCandidate(data), pc);
-    }
-  }, [user, remoteUser, createPeerConnection, sendMessage, addIceCandidate]);
+    },
+    [user, createPeer, setRemoteDescription, send]
+  );
 
-  // Initiate a call to a specific remote user
-  const initiateCall = useCallback(async () => {
-    if (!user || !remoteUser) {
-      return;
-    }
-    
-    // Get existing peer connection or create a new one
-    let pc = peerConnectionsRef.current.get(remoteUser.id);
-    if (!pc) {
-      const newPc = createPeerConnection(remoteUser);
-      if (!newPc) {
-        return;
-      }
-      pc = newPc;
-    } else if (pc.signalingState !== 'stable') {
-      pc.close();
-      const newPc = createPeerConnection(remoteUser);
-      if (!newPc) {
-        return;
-      }
-      pc = newPc;
-    }
-    
-    try {
-      // Create and send offer
-      const offer = await pc.createOffer();
-      await pc.setLocalDescription(offer);
-      
-      if (pc.localDescription) {
-        sendMessage({
-          type: 'OFFER',
-          payload: {
-            sender: user.id,
-            receiver: remoteUser.id,
-            roomId: user.roomId,
-            data: pc.localDescription
-          },
-          timestamp: new Date().toISOString(),
-        });
+  // Start a fresh call to a remote user, dropping any connection we had to them. Adding our
+  // tracks to the new connection fires negotiationneeded, which sends the offer
+  const initiateCall = useCallback(
+    (targetUser: User) => {
+      createPeer(targetUser);
+    },
+    [createPeer]
+  );
+
+  // In sfu rooms our only connection is to the server, which stands in for the broadcaster:
+  // the broadcaster's tracks go up it and viewers' come down it. Viewers have no tracks to
+  // fire negotiationneeded, so they add transceivers that only receive
+  const connectToSfu = useCallback(
+    (self: User) => {
+      const sfu: User = {
+        id: SFU_USER_ID,
+        username: 'Server',
+        role: 'broadcaster',
+        roomId: self.roomId,
+      };
+      const peer = createPeer(sfu, self);
+      if (peer && self.role === 'viewer') {
+        peer.pc.addTransceiver('audio', { direction: 'recvonly' });
+        peer.pc.addTransceiver('video', { direction: 'recvonly' });
       }
-    } catch (error) {
-      console.error('Error creating offer:', error);
+    },
+    [createPeer]
+  );
+
+  // Viewers sample their connection to the broadcaster while they have one, to show and report.
+  // The broadcaster shows what viewers report, so it samples nothing
+  const sampling = user?.role === 'viewer' && peers.length > 0;
+  useEffect(() => {
+    if (!sampling) {
+      setPeerStats({});
+      return;
     }
-  }, [user, remoteUser, createPeerConnection, sendMessage]);
+
+    const timer = setInterval(async () => {
+      const live = Array.from(peersRef.current.values()).filter(
+        (peer) => peer.user.role === 'broadcaster' && peer.pc.connectionState === 'connected'
+      );
+      const entries = await Promise.all(
+        live.map(async (peer) => {
+          try {
+            const { stats, sample } = summarizeStats(await peer.pc.getStats(), peer.statsSample);
+            peer.statsSample = sample;
+            return [peer.user.id, stats] as const;
+          } catch (error) {
+            console.error(`Error reading stats for ${peer.user.id}:`, error);
+            return undefined;
+          }
+        })
+      );
+      setPeerStats(Object.fromEntries(entries.filter((entry) => entry !== undefined)));
+    }, STATS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [sampling]);
 
   // Clean up when component unmounts
   useEffect(() => {
@@ -291,16 +666,28 @@ export function useWebRTC({ user, remoteUser, onTrack, sendMessage }: UseWebRTCP
     };
   }, [cleanup]);
 
-  // Clean up and recreate peer connection when remote user changes
-  useEffect(() => {
-    // We don't need to clean up existing connections when remote user changes
-    // since we now support multiple connections. We'll create a new one as needed.
-  }, [remoteUser?.id]);
-
   return {
     localStream,
+    peers,
+    peerStats,
+    quality,
+    adaptive,
+    videoSource,
+    selectedDevices,
+    muted,
+    cameraOff,
     startLocalStream,
+    setVideoSource,
+    switchDevice,
+    setMuted,
+    setCameraOff,
+    setQuality,
+    setAdaptive,
+    adaptToStats,
     handleIncomingSignal,
     initiateCall,
+    connectToSfu,
+    closePeer,
+    closeAllPeers,
   };
-} 
\ No newline at end of file
+}
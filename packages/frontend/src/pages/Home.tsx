@@ -1,11 +1,24 @@
 import { FormEvent, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import type { ErrorPayload } from '@vestream/shared';
 import Room from '../components/Room';
+import AuthForm from '../components/AuthForm';
+import { useAuth } from '../contexts/AuthContext';
 
 export default function Home() {
-  const [roomId, setRoomId] = useState('');
+  const { account } = useAuth();
+  // Invite links look like /?room=<roomId>&invite=<token>
+  const [searchParams] = useSearchParams();
+  const [guest, setGuest] = useState(false);
+  const [roomId, setRoomId] = useState(() => searchParams.get('room') ?? '');
+  const [invite, setInvite] = useState(() => searchParams.get('invite') ?? undefined);
   const [username, setUsername] = useState('');
   const [role, setRole] = useState<'broadcaster' | 'viewer'>('viewer');
+  const [allowGuests, setAllowGuests] = useState(false);
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [relayed, setRelayed] = useState(false);
+  const [password, setPassword] = useState('');
+  const [needsPassword, setNeedsPassword] = useState(false);
   const [joined, setJoined] = useState(false);
   const [error, setError] = useState<string>();
 
@@ -18,19 +31,48 @@ export default function Home() {
   const handleError = (error: ErrorPayload) => {
     setError(error.message);
     setJoined(false);
+
+    if (error.code === 'ROOM_LOCKED') {
+      setNeedsPassword(true);
+    } else if (error.code === 'INVALID_INVITE') {
+      // Fall back to the password, if the room has one
+      setInvite(undefined);
+      setNeedsPassword(true);
+    }
+  };
+
+  const handleRemoved = (message: string) => {
+    setError(message);
+    setJoined(false);
   };
 
   if (joined) {
     return (
       <Room
         roomId={roomId}
-        username={username}
-        role={role}
+        username={account ? undefined : username}
+        role={account ? role : 'viewer'}
+        allowGuests={allowGuests}
+        isPrivate={isPrivate}
+        mode={relayed ? 'sfu' : 'mesh'}
+        password={password || undefined}
+        invite={invite}
         onError={handleError}
+        onRemoved={handleRemoved}
       />
     );
   }
 
+  if (!account && !guest) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full">
+          <AuthForm onContinueAsGuest={() => setGuest(true)} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -38,8 +80,30 @@ export default function Home() {
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
             Join a Room
           </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {account ? (
+              `Signed in as ${account.username}`
+            ) : (
+              <>
+                Guests can watch rooms that allow them.{' '}
+                <button
+                  type="button"
+                  className="text-indigo-600 hover:text-indigo-800"
+                  onClick={() => setGuest(false)}
+                >
+                  Sign in
+                </button>
+              </>
+            )}
+          </p>
         </div>
 
+        {invite && (
+          <div className="bg-indigo-50 border border-indigo-300 text-indigo-700 px-4 py-3 rounded">
+            <p>You have been invited to room {roomId}.</p>
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded">
             <p>{error}</p>
@@ -63,38 +127,90 @@ export default function Home() {
                 onChange={(e) => setRoomId(e.target.value)}
               />
             </div>
+            {account ? (
+              <div>
+                <label htmlFor="role" className="sr-only">
+                  Role
+                </label>
+                <select
+                  id="role"
+                  name="role"
+                  required
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as 'broadcaster' | 'viewer')}
+                >
+                  <option value="viewer">Viewer</option>
+                  <option value="broadcaster">Broadcaster</option>
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="username" className="sr-only">
+                  Username
+                </label>
+                <input
+                  id="username"
+                  name="username"
+                  type="text"
+                  required
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="Username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          {needsPassword && (
             <div>
-              <label htmlFor="username" className="sr-only">
-                Username
+              <label htmlFor="room-password" className="sr-only">
+                Room password
               </label>
               <input
-                id="username"
-                name="username"
-                type="text"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Username"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
+                id="room-password"
+                name="password"
+                type="password"
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                placeholder="Room password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
               />
             </div>
-            <div>
-              <label htmlFor="role" className="sr-only">
-                Role
+          )}
+
+          {account && role === 'broadcaster' && (
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                  checked={allowGuests}
+                  onChange={(e) => setAllowGuests(e.target.checked)}
+                />
+                <span>Allow guests without an account to watch</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                  checked={isPrivate}
+                  onChange={(e) => setIsPrivate(e.target.checked)}
+                />
+                <span>Private room, joined by invite or password only</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                  checked={relayed}
+                  onChange={(e) => setRelayed(e.target.checked)}
+                />
+                <span>Stream through the server, for large audiences</span>
               </label>
-              <select
-                id="role"
-                name="role"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                value={role}
-                onChange={(e) => setRole(e.target.value as 'broadcaster' | 'viewer')}
-              >
-                <option value="viewer">Viewer</option>
-                <option value="broadcaster">Broadcaster</option>
-              </select>
             </div>
-          </div>
+          )}
 
           <div>
             <button
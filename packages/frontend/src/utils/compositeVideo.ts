@@ -0,0 +1,67 @@
+// Draws the camera in a corner over the shared screen and captures the result as one video
+// track, for broadcasters who want to be seen while they present
+
+const FRAME_RATE = 30;
+const CAMERA_WIDTH_RATIO = 0.25; // of the screen's width
+const CAMERA_MARGIN = 16; // pixels from the bottom right corner
+
+export interface CompositeVideo {
+  track: MediaStreamTrack;
+  stop: () => void; // stops drawing and the captured track, but not the source tracks
+}
+
+function playTrack(track: MediaStreamTrack) {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([track]);
+  video.play().catch((error) => console.error('Error playing composite source:', error));
+  return video;
+}
+
+export function createCompositeVideo(
+  screenTrack: MediaStreamTrack,
+  cameraTrack: MediaStreamTrack
+): CompositeVideo {
+  const screen = playTrack(screenTrack);
+  const camera = playTrack(cameraTrack);
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+
+  const draw = () => {
+    if (!screen.videoWidth) return;
+    if (canvas.width !== screen.videoWidth || canvas.height !== screen.videoHeight) {
+      canvas.width = screen.videoWidth;
+      canvas.height = screen.videoHeight;
+    }
+    context.drawImage(screen, 0, 0, canvas.width, canvas.height);
+
+    // A camera that's turned off would only leave a black box
+    if (camera.videoWidth && cameraTrack.enabled) {
+      const width = canvas.width * CAMERA_WIDTH_RATIO;
+      const height = (width * camera.videoHeight) / camera.videoWidth;
+      context.drawImage(
+        camera,
+        canvas.width - width - CAMERA_MARGIN,
+        canvas.height - height - CAMERA_MARGIN,
+        width,
+        height
+      );
+    }
+  };
+
+  // A timer rather than requestAnimationFrame, which stops altogether while the tab is hidden,
+  // as it usually is while another window is being shared
+  const timer = setInterval(draw, 1000 / FRAME_RATE);
+  const [track] = canvas.captureStream(FRAME_RATE).getVideoTracks();
+
+  return {
+    track,
+    stop: () => {
+      clearInterval(timer);
+      track.stop();
+      screen.srcObject = null;
+      camera.srcObject = null;
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { mentionsUser, parseMessageContent } from './messageFormat';
+
+const ann = { id: 'user-1', username: 'Ann' };
+
+describe('parseMessageContent', () => {
+  it('keeps plain text as one segment', () => {
+    expect(parseMessageContent('just chatting')).toEqual([{ type: 'text', text: 'just chatting' }]);
+  });
+
+  it('makes links of http(s) URLs, without the punctuation after them', () => {
+    expect(parseMessageContent('see https://example.com/a_(b), then')).toEqual([
+      { type: 'text', text: 'see ' },
+      { type: 'link', href: 'https://example.com/a_(b)', text: 'https://example.com/a_(b)' },
+      { type: 'text', text: ', then' },
+    ]);
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(document.cookie)',
+    'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+    'vbscript:msgbox(1)',
+    'file:///etc/passwd',
+  ])('does not link %s', (content) => {
+    expect(parseMessageContent(content)).toEqual([{ type: 'text', text: content }]);
+  });
+
+  it('ends a URL at a quote, so it cannot carry attributes', () => {
+    const segments = parseMessageContent('https://example.com/"onmouseover="alert(1)');
+    expect(segments[0]).toEqual({
+      type: 'link',
+      href: 'https://example.com/',
+      text: 'https://example.com/',
+    });
+    expect(segments.slice(1)).toEqual([{ type: 'text', text: '"onmouseover="alert(1)' }]);
+  });
+
+  it.each([
+    '<script>alert(1)</script>',
+    '<img src=x onerror=alert(1)>',
+    '<a href="javascript:alert(1)">click</a>',
+    '&lt;b&gt; &amp; <b>',
+  ])('leaves %s as text', (content) => {
+    expect(parseMessageContent(content)).toEqual([{ type: 'text', text: content }]);
+  });
+
+  it('parses markers nested in bold', () => {
+    expect(parseMessageContent('**bold _and italic_ with `code`**')).toEqual([
+      {
+        type: 'bold',
+        children: [
+          { type: 'text', text: 'bold ' },
+          { type: 'italic', children: [{ type: 'text', text: 'and italic' }] },
+          { type: 'text', text: ' with ' },
+          { type: 'code', text: 'code' },
+        ],
+      },
+    ]);
+  });
+
+  it('does not format inside code', () => {
+    expect(parseMessageContent('`**not bold** https://example.com`')).toEqual([
+      { type: 'code', text: '**not bold** https://example.com' },
+    ]);
+  });
+
+  it.each(['**never closed', '*open', '`no end', '_half', 'a ** b', '* spaced *'])(
+    'leaves the unclosed or stray markers of %s as text',
+    (content) => {
+      expect(parseMessageContent(content)).toEqual([{ type: 'text', text: content }]);
+    }
+  );
+
+  it('formats the closed part of a partly closed message', () => {
+    expect(parseMessageContent('**a** and **b')).toEqual([
+      { type: 'bold', children: [{ type: 'text', text: 'a' }] },
+      { type: 'text', text: ' and **b' },
+    ]);
+  });
+
+  it('does not take underscores inside words for italics', () => {
+    expect(parseMessageContent('snake_case_name')).toEqual([
+      { type: 'text', text: 'snake_case_name' },
+    ]);
+  });
+
+  it('turns known shortcodes into emoji and leaves the others', () => {
+    expect(parseMessageContent(':tada: :nope:')).toEqual([
+      { type: 'emoji', emoji: '🎉', shortcode: 'tada' },
+      { type: 'text', text: ' :nope:' },
+    ]);
+  });
+
+  it('resolves mentions of known users only, preferring the longest name', () => {
+    const annLee = { id: 'user-2', username: 'Ann Lee' };
+    expect(parseMessageContent('hi @Ann Lee and @bob', [ann, annLee])).toEqual([
+      { type: 'text', text: 'hi ' },
+      { type: 'mention', userId: 'user-2', username: 'Ann Lee' },
+      { type: 'text', text: ' and @bob' },
+    ]);
+  });
+});
+
+describe('mentionsUser', () => {
+  it('finds mentions, also inside formatting', () => {
+    expect(mentionsUser('hey @ann', ann)).toBe(true);
+    expect(mentionsUser('**hey @Ann**', ann)).toBe(true);
+  });
+
+  it('does not take e-mail addresses, code or longer names for mentions', () => {
+    expect(mentionsUser('mail me at me@Ann', ann)).toBe(false);
+    expect(mentionsUser('`@Ann`', ann)).toBe(false);
+    expect(mentionsUser('@Annabel', ann)).toBe(false);
+  });
+});
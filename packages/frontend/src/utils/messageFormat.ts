@@ -0,0 +1,176 @@
+// Parses chat content into a tree of segments for MessageContent to render as React elements.
+// Nothing in the content is ever treated as HTML: text stays text, and links are only made
+// from http(s) URLs
+
+export interface MentionTarget {
+  id: string;
+  username: string;
+}
+
+export type Segment =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic'; children: Segment[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string }
+  | { type: 'emoji'; emoji: string; shortcode: string }
+  | { type: 'mention'; userId: string; username: string };
+
+export const EMOJI_SHORTCODES: Record<string, string> = {
+  smile: '😄',
+  grin: '😁',
+  joy: '😂',
+  rofl: '🤣',
+  wink: '😉',
+  blush: '😊',
+  heart_eyes: '😍',
+  thinking: '🤔',
+  neutral_face: '😐',
+  sweat_smile: '😅',
+  cry: '😢',
+  sob: '😭',
+  angry: '😠',
+  scream: '😱',
+  sunglasses: '😎',
+  open_mouth: '😮',
+  wave: '👋',
+  clap: '👏',
+  pray: '🙏',
+  muscle: '💪',
+  '+1': '👍',
+  thumbsup: '👍',
+  '-1': '👎',
+  thumbsdown: '👎',
+  ok_hand: '👌',
+  eyes: '👀',
+  heart: '❤️',
+  broken_heart: '💔',
+  fire: '🔥',
+  star: '⭐',
+  sparkles: '✨',
+  tada: '🎉',
+  rocket: '🚀',
+  '100': '💯',
+  check: '✅',
+  x: '❌',
+  warning: '⚠️',
+  movie_camera: '🎥',
+  tv: '📺',
+  coffee: '☕',
+};
+
+// Earliest match wins; mentions are resolved in code since usernames may contain spaces
+const TOKEN_PATTERN = new RegExp(
+  [
+    '`(?<code>[^`\\n]+)`',
+    '\\*\\*(?<bold>[^\\n]+?)\\*\\*(?!\\*)',
+    '(?<![\\w*])\\*(?<italic>[^*\\s](?:[^*\\n]*[^*\\s])?)\\*(?![\\w*])',
+    '(?<!\\w)_(?<underscored>[^_\\s](?:[^_\\n]*[^_\\s])?)_(?!\\w)',
+    '(?<url>\\bhttps?:\\/\\/[^\\s<>"]+)',
+    '(?<![\\w@])(?<mention>@)',
+    ':(?<shortcode>[a-z0-9_+-]+):',
+  ].join('|'),
+  'gi'
+);
+
+// Punctuation that usually ends the sentence rather than the URL
+const URL_TRAILER = /[.,;:!?'"]+$/;
+
+function trimUrl(url: string) {
+  let trimmed = url.replace(URL_TRAILER, '');
+  // Keep a closing parenthesis only when the URL opened one, as in Wikipedia links
+  while (trimmed.endsWith(')') && trimmed.split('(').length <= trimmed.split(')').length - 1) {
+    trimmed = trimmed.slice(0, -1).replace(URL_TRAILER, '');
+  }
+  return trimmed;
+}
+
+function toHref(url: string) {
+  try {
+    const { protocol, href } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// The longest username that follows the @, so "@Ann Lee" beats "@Ann" when both are present
+function findMention(content: string, start: number, users: MentionTarget[]) {
+  const rest = content.slice(start).toLowerCase();
+  return users
+    .filter((user) => {
+      const name = user.username.toLowerCase();
+      return rest.startsWith(name) && !/^[\w@]/.test(rest.slice(name.length));
+    })
+    .sort((a, b) => b.username.length - a.username.length)[0];
+}
+
+export function parseMessageContent(content: string, users: MentionTarget[] = []): Segment[] {
+  const segments: Segment[] = [];
+  let text = '';
+  const flushText = () => {
+    if (text) segments.push({ type: 'text', text });
+    text = '';
+  };
+
+  const pattern = new RegExp(TOKEN_PATTERN);
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content))) {
+    const groups = match.groups!;
+    let segment: Segment | undefined;
+    let end = pattern.lastIndex;
+
+    if (groups.code !== undefined) {
+      segment = { type: 'code', text: groups.code };
+    } else if (groups.bold !== undefined) {
+      segment = { type: 'bold', children: parseMessageContent(groups.bold, users) };
+    } else if (groups.italic !== undefined || groups.underscored !== undefined) {
+      const inner = groups.italic ?? groups.underscored;
+      segment = { type: 'italic', children: parseMessageContent(inner, users) };
+    } else if (groups.url !== undefined) {
+      const url = trimUrl(groups.url);
+      const href = toHref(url);
+      end = match.index + url.length;
+      if (href) segment = { type: 'link', href, text: url };
+    } else if (groups.mention !== undefined) {
+      const user = findMention(content, pattern.lastIndex, users);
+      if (user) {
+        segment = { type: 'mention', userId: user.id, username: user.username };
+        end = pattern.lastIndex + user.username.length;
+      }
+    } else if (groups.shortcode !== undefined) {
+      const emoji = EMOJI_SHORTCODES[groups.shortcode.toLowerCase()];
+      if (emoji) segment = { type: 'emoji', emoji, shortcode: groups.shortcode };
+    }
+
+    if (!segment) {
+      // Not a token after all; its first character is plain text and the rest is scanned again
+      text += content.slice(position, match.index + 1);
+      position = pattern.lastIndex = match.index + 1;
+      continue;
+    }
+
+    text += content.slice(position, match.index);
+    flushText();
+    segments.push(segment);
+    position = pattern.lastIndex = end;
+  }
+
+  text += content.slice(position);
+  flushText();
+  return segments;
+}
+
+function containsMention(segments: Segment[], userId: string): boolean {
+  return segments.some(
+    (segment) =>
+      (segment.type === 'mention' && segment.userId === userId) ||
+      ((segment.type === 'bold' || segment.type === 'italic') &&
+        containsMention(segment.children, userId))
+  );
+}
+
+// Whether the content @mentions the user
+export function mentionsUser(content: string, user: MentionTarget) {
+  return containsMention(parseMessageContent(content, [user]), user.id);
+}
@@ -0,0 +1,107 @@
+import type { PeerStats } from '@vestream/shared';
+
+// Running totals from one getStats() call; rates are worked out from two consecutive samples
+export interface StatsSample {
+  timestamp: number; // ms
+  bytes: number;
+  packetsLost: number;
+  packetsReceived: number;
+}
+
+type CandidateType = NonNullable<PeerStats['candidateType']>;
+
+// The candidate pair the connection is using: the one its transport reports, or the
+// nominated one for browsers that don't say
+function findSelectedPair(report: RTCStatsReport) {
+  let selectedId: string | undefined;
+  report.forEach((stat) => {
+    if (stat.type === 'transport') {
+      selectedId ??= (stat as RTCTransportStats).selectedCandidatePairId;
+    }
+  });
+
+  let selected: RTCIceCandidatePairStats | undefined;
+  report.forEach((stat) => {
+    if (stat.type !== 'candidate-pair') return;
+    const pair = stat as RTCIceCandidatePairStats;
+    if (selectedId ? pair.id === selectedId : pair.nominated && pair.state === 'succeeded') {
+      selected = pair;
+    }
+  });
+  return selected;
+}
+
+// The media is relayed when either end of the pair is a TURN candidate
+function getCandidateType(report: RTCStatsReport, pair: RTCIceCandidatePairStats) {
+  const types = [pair.localCandidateId, pair.remoteCandidateId].map(
+    (id) => report.get(id)?.candidateType as CandidateType | undefined
+  );
+  return types.includes('relay') ? 'relay' : types[0];
+}
+
+// Sum up a connection from either end: what a viewer receives, or what the broadcaster sends
+// along with what the viewer reported back about it over RTCP
+export function summarizeStats(
+  report: RTCStatsReport,
+  previous?: StatsSample
+): { stats: PeerStats; sample: StatsSample } {
+  const sample: StatsSample = { timestamp: 0, bytes: 0, packetsLost: 0, packetsReceived: 0 };
+  let jitter: number | undefined;
+  let fractionLost: number | undefined;
+  let video: RTCInboundRtpStreamStats | RTCOutboundRtpStreamStats | undefined;
+
+  report.forEach((stat) => {
+    if (stat.type === 'inbound-rtp') {
+      const inbound = stat as RTCInboundRtpStreamStats;
+      sample.timestamp = inbound.timestamp;
+      sample.bytes += inbound.bytesReceived ?? 0;
+      sample.packetsLost += inbound.packetsLost ?? 0;
+      sample.packetsReceived += inbound.packetsReceived ?? 0;
+      if (inbound.kind === 'video') {
+        video = inbound;
+        jitter = inbound.jitter;
+      }
+    } else if (stat.type === 'outbound-rtp') {
+      const outbound = stat as RTCOutboundRtpStreamStats;
+      sample.timestamp = outbound.timestamp;
+      sample.bytes += outbound.bytesSent ?? 0;
+      if (outbound.kind === 'video') video ??= outbound;
+    } else if (stat.type === 'remote-inbound-rtp' && stat.kind === 'video') {
+      jitter ??= stat.jitter;
+      fractionLost = stat.fractionLost;
+    }
+  });
+
+  const seconds = previous ? (sample.timestamp - previous.timestamp) / 1000 : 0;
+  const bytes = previous ? sample.bytes - previous.bytes : 0;
+  const lost = previous ? sample.packetsLost - previous.packetsLost : 0;
+  const received = previous ? sample.packetsReceived - previous.packetsReceived : 0;
+  const pair = findSelectedPair(report);
+
+  const stats: PeerStats = {
+    bitrateKbps: seconds > 0 ? Math.round((bytes * 8) / seconds / 1000) : 0,
+    packetLossPercent:
+      lost + received > 0
+        ? Math.round((Math.max(lost, 0) / (lost + received)) * 1000) / 10
+        : Math.round((fractionLost ?? 0) * 1000) / 10,
+    jitterMs: Math.round((jitter ?? 0) * 1000),
+    roundTripMs:
+      pair?.currentRoundTripTime !== undefined
+        ? Math.round(pair.currentRoundTripTime * 1000)
+        : undefined,
+    width: video?.frameWidth,
+    height: video?.frameHeight,
+    framesPerSecond: video?.framesPerSecond,
+    candidateType: pair && getCandidateType(report, pair),
+  };
+  return { stats, sample };
+}
+
+export function formatBitrate(kbps: number) {
+  return kbps >= 1000 ? `${(kbps / 1000).toFixed(1)} Mbps` : `${kbps} kbps`;
+}
+
+export function formatResolution({ width, height, framesPerSecond }: PeerStats) {
+  if (!width || !height) return '–';
+  return `${width}×${height}${framesPerSecond ? ` @ ${Math.round(framesPerSecond)} fps` : ''}`;
+}
@@ -0,0 +1,48 @@
+import type { PeerStats } from '@vestream/shared';
+
+// What the broadcaster can pick from: the camera is captured at about this size, and each
+// viewer is sent at most this bitrate
+export const QUALITY_PRESETS = {
+  '360p': { height: 360, frameRate: 30, maxBitrateKbps: 800 },
+  '720p': { height: 720, frameRate: 30, maxBitrateKbps: 2_500 },
+  '1080p': { height: 1080, frameRate: 30, maxBitrateKbps: 4_500 },
+} as const;
+
+export type QualityPreset = keyof typeof QUALITY_PRESETS;
+
+// Adaptive mode cuts a viewer's bitrate quickly while their reports show congestion, and
+// brings it back slowly once they are clear
+const CONGESTED_PACKET_LOSS_PERCENT = 5;
+const CONGESTED_ROUND_TRIP_MS = 500;
+const CLEAR_PACKET_LOSS_PERCENT = 1;
+const DECREASE_FACTOR = 0.6;
+const INCREASE_STEP = 0.1;
+const MIN_BITRATE_FACTOR = 0.2;
+
+// Below this share of the preset's bitrate, the resolution is halved as well
+export const HALF_RESOLUTION_FACTOR = 0.5;
+
+// Ideal rather than exact values, so cameras that can't do the size still start
+export function getCaptureConstraints(preset: QualityPreset): MediaTrackConstraints {
+  const { height, frameRate } = QUALITY_PRESETS[preset];
+  return {
+    width: { ideal: Math.round((height * 16) / 9) },
+    height: { ideal: height },
+    frameRate: { ideal: frameRate },
+  };
+}
+
+// The share of the preset's bitrate to send a viewer next, given their latest report
+export function nextBitrateFactor(factor: number, stats: PeerStats) {
+  if (
+    stats.packetLossPercent >= CONGESTED_PACKET_LOSS_PERCENT ||
+    (stats.roundTripMs ?? 0) >= CONGESTED_ROUND_TRIP_MS
+  ) {
+    return Math.max(MIN_BITRATE_FACTOR, factor * DECREASE_FACTOR);
+  }
+  if (stats.packetLossPercent < CLEAR_PACKET_LOSS_PERCENT) {
+    // Rounded so that repeated steps land on 1 exactly
+    return Math.min(1, Math.round((factor + INCREASE_STEP) * 100) / 100);
+  }
+  return factor;
+}
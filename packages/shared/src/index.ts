@@ -4,6 +4,7 @@ export interface User {
   username: string;
   role: 'broadcaster' | 'viewer';
   roomId: string;
+  guest?: boolean; // joined without an account; id is then per-session, not an account id
 }
 
 export interface Room {
@@ -11,6 +12,64 @@ export interface Room {
   name: string;
   broadcaster?: string; // userId of the broadcaster
   viewers: string[]; // array of viewer userIds
+  allowGuests?: boolean; // whether users without an account may join
+  private?: boolean; // hidden from the room list; joining needs an invite or the password
+  hasPassword?: boolean; // joining needs the password or an invite
+  moderators?: string[]; // userIds the broadcaster has delegated moderation to
+  mutes?: RoomMute[];
+  topic?: string; // set with /topic
+  mode?: StreamMode; // mesh when absent
+}
+
+// How media gets to viewers: straight from the broadcaster's browser to each of them (mesh),
+// or uploaded once to the server, which forwards it (sfu)
+export type StreamMode = 'mesh' | 'sfu';
+
+// A user barred from chatting, see MUTE_USER and TIMEOUT_USER
+export interface RoomMute {
+  userId: string;
+  until?: string; // end of a timeout; muted until unmuted when absent
+}
+
+// A user barred from joining, see BAN_USER; only sent to moderators
+export interface RoomBan {
+  roomId: string;
+  userId: string;
+  username: string;
+  guest?: boolean; // guests are matched by username since their ids don't outlive a session
+  reason?: string;
+  bannedBy: string; // username of the moderator
+  bannedAt: string;
+}
+
+// An invite to a private or password-protected room, see CREATE_INVITE
+export interface RoomInvite {
+  token: string;
+  roomId: string;
+  expiresAt: string;
+  maxUses?: number; // unlimited when absent
+  uses: number;
+}
+
+// Room as sent to clients, with the full user objects resolved
+export interface RoomDetails extends Room {
+  users: User[];
+}
+
+// Accounts, see the /api/auth endpoints
+export interface AccountInfo {
+  id: string;
+  username: string;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+export interface AuthResponse {
+  token: string; // pass as ?token= on the WebSocket URL or as a Bearer token
+  account: AccountInfo;
 }
 
 // Chat message types
@@ -23,63 +82,251 @@ export interface ChatMessage {
   type: 'public' | 'private';
   recipientId?: string;
   timestamp: string;
+  editedAt?: string;
+  deleted?: boolean; // retracted; the content is gone and it can't be edited or reacted to
+  reactions?: MessageReaction[];
+  readAt?: string; // private messages only: when the recipient first saw it
+  attachments?: Attachment[];
+  kind?: 'action' | 'system'; // action: sent with /me; system: a notice from the server itself
 }
 
-// WebSocket message types
-export type WSMessageType =
-  | 'JOIN_ROOM'
-  | 'LEAVE_ROOM'
-  | 'ROOM_JOINED'
-  | 'ROOM_STATE'
-  | 'OFFER'
-  | 'ANSWER'
-  | 'ICE_CANDIDATE'
-  | 'USER_JOINED'
-  | 'USER_LEFT'
-  | 'ERROR'
-  | 'STREAM_READY'
-  | 'VIEWER_READY'
-  | 'BROADCASTER_READY'
-  | 'CHAT_MESSAGE'
-  | 'CHAT_MESSAGE_RECEIVED';
-
-export interface WSMessage {
-  type: WSMessageType;
-  payload: unknown;
+// A file shared in room chat, see POST /api/rooms/:roomId/attachments
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // bytes
+  url: string; // path on the API server; the random id is what keeps it from being guessed
+}
+
+// A slash command typed into room chat. The server's registry decides what exists; clients
+// only use this list to suggest commands
+export interface ChatCommand {
+  name: string; // without the slash
+  usage: string; // e.g. "/w <user> <message>"
+  description: string;
+  permission: 'everyone' | 'moderator'; // moderator also covers the broadcaster
+}
+
+// Everyone who reacted to a message with the same emoji
+export interface MessageReaction {
+  emoji: string;
+  userIds: string[];
+}
+
+// A message in a one-to-one conversation; unlike room chat it isn't tied to a room
+export interface DirectMessage {
+  id: string;
+  senderId: string;
+  senderUsername: string;
+  recipientId: string;
+  content: string;
   timestamp: string;
 }
 
+// A conversation as seen by one of its two participants
+export interface DirectThread {
+  peer: { id: string; username: string };
+  lastMessage?: DirectMessage;
+  unreadCount: number; // messages from the peer after the last one marked read
+}
+
+// A page of room chat history, oldest message first. Pages are addressed by message id:
+// `before` pages back through older history, `after` forward from a known message
+export interface MessagePage {
+  messages: ChatMessage[];
+  total: number; // messages in the whole history that the requester may see
+  hasMore: boolean; // more messages lie beyond this page in the direction it was requested
+}
+
+// How a viewer's connection to the broadcaster is doing, from its getStats() over the last
+// few seconds
+export interface PeerStats {
+  bitrateKbps: number; // audio and video received
+  packetLossPercent: number;
+  jitterMs: number;
+  roundTripMs?: number;
+  width?: number; // of the video received
+  height?: number;
+  framesPerSecond?: number;
+  candidateType?: 'host' | 'srflx' | 'prflx' | 'relay'; // relay: the media goes through TURN
+}
+
+// A viewer's latest stats report
+export interface ViewerStats {
+  userId: string;
+  username: string;
+  stats: PeerStats;
+  reportedAt: string;
+}
+
+// The latest report of every viewer in a room, from GET /api/rooms/:roomId/stats
+export interface RoomStats {
+  roomId: string;
+  viewers: ViewerStats[];
+}
+
+// The part of a chat message a client supplies; the server fills in the rest
+export interface ChatMessageDraft {
+  content: string; // may be empty when there are attachments
+  type: 'public' | 'private';
+  recipientId?: string;
+  roomId?: string;
+  attachmentIds?: string[]; // uploads of the sender's that haven't been sent yet
+}
+
+// WebRTC signaling data, structurally compatible with the DOM's
+// RTCSessionDescriptionInit and RTCIceCandidateInit
+export interface SessionDescriptionData {
+  type: 'offer' | 'answer' | 'pranswer' | 'rollback';
+  sdp?: string;
+}
+
+export interface IceCandidateData {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+export type RTCSignalData = SessionDescriptionData | IceCandidateData;
+
 // WebRTC signaling message payloads
 export interface JoinRoomPayload {
   roomId: string;
-  username: string;
+  username?: string; // required for guests; account holders join under their account name
   role: 'broadcaster' | 'viewer';
+  allowGuests?: boolean; // when creating the room
+  private?: boolean; // when creating the room
+  mode?: StreamMode; // when creating the room
+  password?: string; // for rooms with a password
+  invite?: string; // invite token, admits to private and password-protected rooms
+}
+
+export interface UpdateRoomPayload {
+  roomId: string;
+  private?: boolean;
+  password?: string | null; // null removes the password
+}
+
+// Moderation requests; only the broadcaster and moderators may send them
+export interface ModerationTargetPayload {
+  roomId: string;
+  userId: string;
+  reason?: string;
+}
+
+export interface MuteUserPayload extends ModerationTargetPayload {
+  muted: boolean;
+}
+
+export interface TimeoutUserPayload extends ModerationTargetPayload {
+  durationMs: number;
+}
+
+export interface UnbanUserPayload {
+  roomId: string;
+  userId: string;
+}
+
+// Only the broadcaster may delegate moderation
+export interface SetModeratorPayload {
+  roomId: string;
+  userId: string;
+  moderator: boolean;
+}
+
+// Tells a user a moderator acted on them
+export interface ModerationActionPayload {
+  action: 'kick' | 'ban' | 'mute' | 'unmute' | 'timeout';
+  roomId: string;
+  moderator: string; // username
+  reason?: string;
+  until?: string; // end of a timeout
+}
+
+export interface BanListPayload {
+  roomId: string;
+  bans: RoomBan[];
+}
+
+export interface CreateInvitePayload {
+  roomId: string;
+  expiresInMs: number;
+  maxUses?: number;
+}
+
+export interface InviteCreatedPayload {
+  invite: RoomInvite;
+}
+
+// Sent on connect and then every interval; a client that hears nothing from the server for
+// longer than intervalMs should treat the connection as dead
+export interface HeartbeatPayload {
+  intervalMs: number;
+}
+
+export interface LeaveRoomPayload {
+  roomId: string;
 }
 
 export interface RoomJoinedPayload {
-  room: Room;
+  room: RoomDetails;
   user: User;
   messages: ChatMessage[];
+  hasMoreMessages: boolean; // older history can be loaded with GET_CHAT_HISTORY
+  resumeToken: string; // presented in RESUME_SESSION after a dropped connection
+  commands: ChatCommand[]; // slash commands the server knows, whoever may use them
+}
+
+export interface ResumeSessionPayload {
+  token: string;
+  lastMessageId?: string; // last chat message the client saw, to replay what it missed
+}
+
+export interface SessionResumedPayload {
+  room: RoomDetails;
+  user: User;
+  messages: ChatMessage[]; // chat messages sent while the client was away
+  resumeToken: string; // replaces the token that was just used
 }
 
 export interface RoomStatePayload {
-  room: Room;
+  room: RoomDetails;
 }
 
 export interface UserJoinedPayload {
   user: User;
 }
 
+export interface UserReconnectedPayload {
+  user: User;
+}
+
 export interface UserLeftPayload {
   user: User;
-  room: Room;
+  room: RoomDetails | null;
 }
 
-export interface RTCSignalPayload {
+// In sfu rooms, signals between a user and the server's forwarding unit carry this as the
+// receiver or sender
+export const SFU_USER_ID = 'sfu';
+
+export interface RTCSignalPayload<T extends RTCSignalData = RTCSignalData> {
   sender: string;
   receiver: string;
   roomId: string;
-  data: any; // RTCSessionDescription or RTCIceCandidate
+  data: T;
+}
+
+export interface StreamReadyPayload {
+  roomId: string;
+  userId: string;
+}
+
+export interface ViewerReadyRequestPayload {
+  roomId: string;
+  userId: string;
 }
 
 export interface BroadcasterReadyPayload {
@@ -90,15 +337,248 @@ export interface ViewerReadyPayload {
   viewer: User;
 }
 
+// What the broadcaster is sending. Switching sources or devices replaces the outgoing tracks,
+// and muting disables them, so viewers keep their connection and only learn of the change
+// through MEDIA_STATE
+export interface MediaState {
+  source: 'camera' | 'screen' | 'composite'; // composite: the camera over the shared screen
+  muted: boolean; // the microphone sends silence
+  cameraOff: boolean; // the camera sends black frames
+}
+
+export interface MediaStatePayload {
+  roomId: string;
+  state: MediaState;
+}
+
+// Relays MEDIA_STATE to the room; viewers who join later get the latest one with BROADCASTER_READY
+export interface UserMediaStatePayload {
+  roomId: string;
+  userId: string;
+  state: MediaState;
+}
+
+// Viewers report their stats every few seconds
+export interface PeerStatsPayload {
+  roomId: string;
+  stats: PeerStats;
+}
+
+// Passes each report on to the broadcaster
+export interface ViewerStatsPayload {
+  roomId: string;
+  viewer: ViewerStats;
+}
+
 export interface ChatMessagePayload {
-  message: ChatMessage;
+  message: ChatMessageDraft;
 }
 
 export interface ChatMessageReceivedPayload {
   message: ChatMessage;
 }
 
+// Only the author may edit a message
+export interface ChatMessageEditPayload {
+  messageId: string;
+  content: string;
+}
+
+// The author, the broadcaster and moderators may delete a message
+export interface ChatMessageDeletePayload {
+  messageId: string;
+}
+
+export interface ChatReactionPayload {
+  messageId: string;
+  emoji: string;
+  reacted: boolean; // false takes the user's reaction back
+}
+
+// A message was edited, deleted or reacted to; replaces the client's copy
+export interface ChatMessageUpdatedPayload {
+  message: ChatMessage;
+}
+
+// TYPING_START is repeated while the user keeps typing; the server ends it by itself when
+// the repeats stop, so a lost TYPING_STOP doesn't leave anyone typing forever
+export interface TypingPayload {
+  roomId: string;
+}
+
+// Relays TYPING_START and TYPING_STOP to the rest of the room
+export interface UserTypingPayload {
+  roomId: string;
+  userId: string;
+  username: string;
+}
+
+// Everything in the room up to and including messageId counts as seen; the private messages
+// this covers get their readAt set
+export interface MarkMessagesReadPayload {
+  roomId: string;
+  messageId: string;
+}
+
+export interface GetChatHistoryPayload {
+  roomId: string;
+  before?: string; // message id
+  after?: string; // message id
+  limit?: number;
+}
+
+// Echoes the request's cursors so the client knows where the page goes
+export interface ChatHistoryPayload extends MessagePage {
+  roomId: string;
+  before?: string;
+  after?: string;
+}
+
+// The room's chat history was wiped with /clear
+export interface ChatClearedPayload {
+  roomId: string;
+  clearedBy: string; // username of the moderator
+}
+
+export interface SendDirectMessagePayload {
+  recipientId: string;
+  content: string;
+}
+
+// The most recent messages of a conversation, or the page before a message
+export interface GetDirectMessagesPayload {
+  peerId: string;
+  before?: string; // message id
+  limit?: number;
+}
+
+// Everything up to and including messageId counts as read
+export interface MarkThreadReadPayload {
+  peerId: string;
+  messageId: string;
+}
+
+// The user's conversations, sent after joining or resuming
+export interface DirectThreadsPayload {
+  threads: DirectThread[];
+}
+
+// Sent to both participants, each with their own view of the thread
+export interface DirectMessageReceivedPayload {
+  message: DirectMessage;
+  thread: DirectThread;
+}
+
+// Echoes the request's cursor so the client knows where the page goes
+export interface DirectMessagesPayload {
+  peerId: string;
+  before?: string;
+  messages: DirectMessage[];
+  hasMore: boolean; // older messages lie before this page
+}
+
 export interface ErrorPayload {
-  code: 'ROOM_NOT_FOUND' | 'BROADCASTER_EXISTS' | 'USER_EXISTS' | 'INVALID_ROLE';
+  code:
+    | 'ROOM_NOT_FOUND'
+    | 'USER_NOT_FOUND'
+    | 'MESSAGE_NOT_FOUND'
+    | 'INVALID_ATTACHMENT'
+    | 'BROADCASTER_EXISTS'
+    | 'USER_EXISTS'
+    | 'INVALID_ROLE'
+    | 'INVALID_MESSAGE'
+    | 'UNKNOWN_TYPE'
+    | 'SESSION_EXPIRED'
+    | 'AUTH_REQUIRED'
+    | 'INVALID_CREDENTIALS'
+    | 'ROOM_LOCKED'
+    | 'INVALID_INVITE'
+    | 'BANNED'
+    | 'MUTED'
+    | 'RATE_LIMITED';
   message: string;
-} 
\ No newline at end of file
+  field?: string; // path of the offending field, e.g. "payload.roomId"
+  retryAfterMs?: number; // with RATE_LIMITED, when the same message would be accepted again
+}
+
+// Payloads of messages sent from a client to the server, keyed by message type
+export interface ClientPayloadMap {
+  JOIN_ROOM: JoinRoomPayload;
+  LEAVE_ROOM: LeaveRoomPayload;
+  RESUME_SESSION: ResumeSessionPayload;
+  UPDATE_ROOM: UpdateRoomPayload;
+  CREATE_INVITE: CreateInvitePayload;
+  KICK_USER: ModerationTargetPayload;
+  BAN_USER: ModerationTargetPayload;
+  UNBAN_USER: UnbanUserPayload;
+  MUTE_USER: MuteUserPayload;
+  TIMEOUT_USER: TimeoutUserPayload;
+  SET_MODERATOR: SetModeratorPayload;
+  OFFER: RTCSignalPayload<SessionDescriptionData>;
+  ANSWER: RTCSignalPayload<SessionDescriptionData>;
+  ICE_CANDIDATE: RTCSignalPayload<IceCandidateData>;
+  STREAM_READY: StreamReadyPayload;
+  VIEWER_READY: ViewerReadyRequestPayload;
+  MEDIA_STATE: MediaStatePayload;
+  PEER_STATS: PeerStatsPayload;
+  CHAT_MESSAGE: ChatMessagePayload;
+  CHAT_MESSAGE_EDIT: ChatMessageEditPayload;
+  CHAT_MESSAGE_DELETE: ChatMessageDeletePayload;
+  CHAT_REACTION: ChatReactionPayload;
+  TYPING_START: TypingPayload;
+  TYPING_STOP: TypingPayload;
+  MARK_MESSAGES_READ: MarkMessagesReadPayload;
+  GET_CHAT_HISTORY: GetChatHistoryPayload;
+  SEND_DIRECT_MESSAGE: SendDirectMessagePayload;
+  GET_DIRECT_MESSAGES: GetDirectMessagesPayload;
+  MARK_THREAD_READ: MarkThreadReadPayload;
+}
+
+// Payloads of messages sent from the server to a client, keyed by message type
+export interface ServerPayloadMap {
+  ROOM_JOINED: RoomJoinedPayload;
+  SESSION_RESUMED: SessionResumedPayload;
+  ROOM_STATE: RoomStatePayload;
+  INVITE_CREATED: InviteCreatedPayload;
+  MODERATION_ACTION: ModerationActionPayload;
+  BAN_LIST: BanListPayload;
+  OFFER: RTCSignalPayload<SessionDescriptionData>;
+  ANSWER: RTCSignalPayload<SessionDescriptionData>;
+  ICE_CANDIDATE: RTCSignalPayload<IceCandidateData>;
+  USER_JOINED: UserJoinedPayload;
+  USER_RECONNECTED: UserReconnectedPayload;
+  USER_LEFT: UserLeftPayload;
+  ERROR: ErrorPayload;
+  BROADCASTER_READY: BroadcasterReadyPayload;
+  VIEWER_READY: ViewerReadyPayload;
+  MEDIA_STATE: UserMediaStatePayload;
+  PEER_STATS: ViewerStatsPayload;
+  CHAT_MESSAGE_RECEIVED: ChatMessageReceivedPayload;
+  CHAT_MESSAGE_UPDATED: ChatMessageUpdatedPayload;
+  TYPING_START: UserTypingPayload;
+  TYPING_STOP: UserTypingPayload;
+  CHAT_HISTORY: ChatHistoryPayload;
+  CHAT_CLEARED: ChatClearedPayload;
+  DIRECT_THREADS: DirectThreadsPayload;
+  DIRECT_MESSAGE_RECEIVED: DirectMessageReceivedPayload;
+  DIRECT_MESSAGES: DirectMessagesPayload;
+  HEARTBEAT: HeartbeatPayload;
+}
+
+// WebSocket message types
+export type ClientMessageType = keyof ClientPayloadMap;
+export type ServerMessageType = keyof ServerPayloadMap;
+export type WSMessageType = ClientMessageType | ServerMessageType;
+
+// Discriminated unions: narrowing on `type` narrows `payload` too
+export type ClientMessage<T extends ClientMessageType = ClientMessageType> = {
+  [K in T]: { type: K; payload: ClientPayloadMap[K]; timestamp: string };
+}[T];
+
+export type ServerMessage<T extends ServerMessageType = ServerMessageType> = {
+  [K in T]: { type: K; payload: ServerPayloadMap[K]; timestamp: string };
+}[T];
+
+export type WSMessage = ClientMessage | ServerMessage;
+
+export * from './validation.js';
@@ -0,0 +1,264 @@
+import { describe, expect, it } from 'vitest';
+import {
+  array,
+  emoji,
+  integer,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  parseClientMessage,
+  parseServerMessage,
+  string,
+} from './validation.js';
+
+describe('parseClientMessage', () => {
+  it('accepts a valid message and keeps its payload', () => {
+    const result = parseClientMessage(
+      JSON.stringify({
+        type: 'JOIN_ROOM',
+        payload: { roomId: 'room-1', role: 'viewer' },
+        timestamp: '2024-01-01T00:00:00.000Z',
+      })
+    );
+
+    expect(result).toEqual({
+      success: true,
+      message: {
+        type: 'JOIN_ROOM',
+        payload: { roomId: 'room-1', role: 'viewer' },
+        timestamp: '2024-01-01T00:00:00.000Z',
+      },
+    });
+  });
+
+  it('stamps messages that come without a timestamp', () => {
+    const result = parseClientMessage(
+      JSON.stringify({ type: 'LEAVE_ROOM', payload: { roomId: 'room-1' } })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.success && Date.parse(result.message.timestamp)).not.toBeNaN();
+  });
+
+  it('lets unknown payload fields through', () => {
+    const result = parseClientMessage(
+      JSON.stringify({ type: 'LEAVE_ROOM', payload: { roomId: 'room-1', extra: true } })
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it('refuses malformed JSON', () => {
+    expect(parseClientMessage('{"type": "JOIN_ROOM",')).toEqual({
+      success: false,
+      error: { code: 'INVALID_MESSAGE', message: 'Message is not valid JSON', field: undefined },
+    });
+  });
+
+  it.each(['null', '[]', '"JOIN_ROOM"', '42'])('refuses %s, which is not an object', (raw) => {
+    expect(parseClientMessage(raw)).toMatchObject({
+      success: false,
+      error: { code: 'INVALID_MESSAGE', message: 'Message must be a JSON object' },
+    });
+  });
+
+  it('refuses a message without a type', () => {
+    expect(parseClientMessage(JSON.stringify({ payload: {} }))).toMatchObject({
+      success: false,
+      error: { code: 'INVALID_MESSAGE', field: 'type' },
+    });
+  });
+
+  it('refuses unknown types', () => {
+    expect(parseClientMessage(JSON.stringify({ type: 'SELF_DESTRUCT', payload: {} }))).toEqual({
+      success: false,
+      error: {
+        code: 'UNKNOWN_TYPE',
+        message: 'Unknown message type: SELF_DESTRUCT',
+        field: 'type',
+      },
+    });
+  });
+
+  it('does not take inherited properties for message types', () => {
+    expect(parseClientMessage(JSON.stringify({ type: 'toString', payload: {} }))).toMatchObject({
+      success: false,
+      error: { code: 'UNKNOWN_TYPE' },
+    });
+  });
+
+  it('refuses server-only types', () => {
+    expect(
+      parseClientMessage(JSON.stringify({ type: 'ROOM_STATE', payload: { room: {} } }))
+    ).toMatchObject({ success: false, error: { code: 'UNKNOWN_TYPE' } });
+  });
+
+  it('names the offending field of an invalid payload', () => {
+    expect(
+      parseClientMessage(JSON.stringify({ type: 'JOIN_ROOM', payload: { roomId: 'room-1' } }))
+    ).toEqual({
+      success: false,
+      error: {
+        code: 'INVALID_MESSAGE',
+        message: 'Expected one of: broadcaster, viewer',
+        field: 'payload.role',
+      },
+    });
+  });
+
+  it('names nested fields and array items', () => {
+    const result = parseClientMessage(
+      JSON.stringify({
+        type: 'CHAT_MESSAGE',
+        payload: { message: { content: 'hi', type: 'public', attachmentIds: ['a', ''] } },
+      })
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      error: { code: 'INVALID_MESSAGE', field: 'payload.message.attachmentIds[1]' },
+    });
+  });
+
+  it('wants a recipient for private messages only', () => {
+    const chat = (message: object) =>
+      parseClientMessage(JSON.stringify({ type: 'CHAT_MESSAGE', payload: { message } }));
+
+    expect(chat({ content: 'hi', type: 'private' })).toMatchObject({
+      success: false,
+      error: { code: 'INVALID_MESSAGE', field: 'payload.message.recipientId' },
+    });
+    expect(chat({ content: 'hi', type: 'public', recipientId: 'user-1' })).toMatchObject({
+      success: false,
+      error: { code: 'INVALID_MESSAGE', field: 'payload.message.recipientId' },
+    });
+    expect(chat({ content: 'hi', type: 'private', recipientId: 'user-1' }).success).toBe(true);
+  });
+
+  it('trims the username of a guest before checking its length', () => {
+    const join = (username: string) =>
+      parseClientMessage(
+        JSON.stringify({
+          type: 'JOIN_ROOM',
+          payload: { roomId: 'room-1', username, role: 'viewer' },
+        })
+      );
+
+    expect(join(`  ${'a'.repeat(32)}  `)).toMatchObject({
+      success: true,
+      message: { payload: { username: 'a'.repeat(32), roomId: 'room-1' } },
+    });
+    expect(join('a'.repeat(33))).toMatchObject({
+      success: false,
+      error: { field: 'payload.username', message: 'Must be at most 32 characters' },
+    });
+    expect(join('   ')).toMatchObject({
+      success: false,
+      error: { field: 'payload.username', message: 'Must not be empty' },
+    });
+  });
+
+  it('refuses a missing payload', () => {
+    expect(parseClientMessage(JSON.stringify({ type: 'LEAVE_ROOM' }))).toMatchObject({
+      success: false,
+      error: { code: 'INVALID_MESSAGE', message: 'Expected an object', field: 'payload' },
+    });
+  });
+});
+
+describe('parseServerMessage', () => {
+  it('accepts a valid message', () => {
+    const result = parseServerMessage(
+      JSON.stringify({ type: 'HEARTBEAT', payload: { intervalMs: 5000 } })
+    );
+    expect(result).toMatchObject({ success: true, message: { type: 'HEARTBEAT' } });
+  });
+
+  it('names the offending field of an invalid payload', () => {
+    expect(
+      parseServerMessage(JSON.stringify({ type: 'HEARTBEAT', payload: { intervalMs: 0 } }))
+    ).toEqual({
+      success: false,
+      error: {
+        code: 'INVALID_MESSAGE',
+        message: 'Must be at least 1',
+        field: 'payload.intervalMs',
+      },
+    });
+  });
+
+  it('refuses client-only types', () => {
+    expect(
+      parseServerMessage(JSON.stringify({ type: 'LEAVE_ROOM', payload: { roomId: 'room-1' } }))
+    ).toMatchObject({ success: false, error: { code: 'UNKNOWN_TYPE' } });
+  });
+});
+
+describe('schemas', () => {
+  it('counts a string without its surrounding whitespace towards the minimum length', () => {
+    const schema = string({ minLength: 1, maxLength: 3 });
+    expect(schema('  ', 'name')).toEqual({
+      success: false,
+      field: 'name',
+      message: 'Must not be empty',
+    });
+    expect(schema('abcd', 'name')).toMatchObject({ success: false, field: 'name' });
+    expect(schema('abc', 'name')).toEqual({ success: true, data: 'abc' });
+    expect(schema(3, 'name')).toMatchObject({ success: false, message: 'Expected a string' });
+  });
+
+  it('keeps integers within their bounds', () => {
+    const schema = integer({ min: 1, max: 10 });
+    expect(schema(0, 'n')).toMatchObject({ success: false, message: 'Must be at least 1' });
+    expect(schema(11, 'n')).toMatchObject({ success: false, message: 'Must be at most 10' });
+    expect(schema(1.5, 'n')).toMatchObject({ success: false, message: 'Expected an integer' });
+    expect(schema(10, 'n')).toEqual({ success: true, data: 10 });
+  });
+
+  it('tells optional from nullable', () => {
+    expect(optional(string())(undefined, 'x')).toEqual({ success: true, data: undefined });
+    expect(optional(string())(null, 'x')).toMatchObject({ success: false });
+    expect(nullable(string())(null, 'x')).toEqual({ success: true, data: null });
+    expect(nullable(string())(undefined, 'x')).toMatchObject({ success: false });
+  });
+
+  it('limits arrays and reports the index of a bad item', () => {
+    const schema = array(oneOf('a', 'b'), { maxLength: 2 });
+    expect(schema(['a', 'c'], 'list')).toMatchObject({ success: false, field: 'list[1]' });
+    expect(schema(['a', 'b', 'a'], 'list')).toMatchObject({
+      success: false,
+      field: 'list',
+      message: 'Must have at most 2 items',
+    });
+  });
+
+  it('reports the first offending field of an object', () => {
+    const schema = object<{ a: string; b: { c: number } }>({
+      a: string(),
+      b: object<{ c: number }>({ c: integer() }),
+    });
+    expect(schema({ a: 'x', b: { c: 'y' } }, '')).toMatchObject({ success: false, field: 'b.c' });
+    expect(schema([], '')).toMatchObject({ success: false, message: 'Expected an object' });
+  });
+
+  it('returns trimmed strings in place, leaving the rest of the object alone', () => {
+    const schema = object<{ name: string; tags: string[] }>({
+      name: string({ trim: true }),
+      tags: array(string({ trim: true })),
+    });
+    const value = { name: ' Ann ', tags: ['a', ' b'], extra: 1 };
+    expect(schema(value, '')).toEqual({
+      success: true,
+      data: { name: 'Ann', tags: ['a', 'b'], extra: 1 },
+    });
+    expect(value).toEqual({ name: ' Ann ', tags: ['a', ' b'], extra: 1 });
+  });
+
+  it.each(['😀', '👍🏽', '❤️', '👨‍👩‍👧', '🏴󠁧󠁢󠁳󠁣󠁴󠁿'])('takes %s for an emoji', (value) => {
+    expect(emoji()(value, 'emoji')).toEqual({ success: true, data: value });
+  });
+
+  it.each(['😀abc', '😀😀', 'a', ' 😀', '😀 ', ':)'])('does not take %s for an emoji', (value) => {
+    expect(emoji()(value, 'emoji')).toMatchObject({ success: false, message: 'Expected an emoji' });
+  });
+});
@@ -0,0 +1,731 @@
+import type {
+  WSMessage,
+  ClientMessage,
+  ServerMessage,
+  ClientMessageType,
+  ServerMessageType,
+  ClientPayloadMap,
+  ServerPayloadMap,
+  User,
+  Room,
+  AccountInfo,
+  Credentials,
+  AuthResponse,
+  RoomDetails,
+  RoomInvite,
+  RoomMute,
+  StreamMode,
+  RoomBan,
+  ModerationTargetPayload,
+  MuteUserPayload,
+  TimeoutUserPayload,
+  UnbanUserPayload,
+  SetModeratorPayload,
+  ModerationActionPayload,
+  BanListPayload,
+  UpdateRoomPayload,
+  CreateInvitePayload,
+  InviteCreatedPayload,
+  HeartbeatPayload,
+  ChatMessage,
+  MessageReaction,
+  Attachment,
+  DirectMessage,
+  DirectThread,
+  ChatMessageDraft,
+  SessionDescriptionData,
+  IceCandidateData,
+  RTCSignalData,
+  RTCSignalPayload,
+  JoinRoomPayload,
+  LeaveRoomPayload,
+  RoomJoinedPayload,
+  ChatCommand,
+  ResumeSessionPayload,
+  SessionResumedPayload,
+  UserReconnectedPayload,
+  RoomStatePayload,
+  UserJoinedPayload,
+  UserLeftPayload,
+  StreamReadyPayload,
+  ViewerReadyRequestPayload,
+  BroadcasterReadyPayload,
+  ViewerReadyPayload,
+  MediaState,
+  MediaStatePayload,
+  UserMediaStatePayload,
+  PeerStats,
+  ViewerStats,
+  PeerStatsPayload,
+  ViewerStatsPayload,
+  ChatMessagePayload,
+  ChatMessageReceivedPayload,
+  ChatMessageEditPayload,
+  ChatMessageDeletePayload,
+  ChatReactionPayload,
+  ChatMessageUpdatedPayload,
+  TypingPayload,
+  UserTypingPayload,
+  MarkMessagesReadPayload,
+  GetChatHistoryPayload,
+  ChatHistoryPayload,
+  ChatClearedPayload,
+  SendDirectMessagePayload,
+  GetDirectMessagesPayload,
+  MarkThreadReadPayload,
+  DirectThreadsPayload,
+  DirectMessageReceivedPayload,
+  DirectMessagesPayload,
+  ErrorPayload,
+} from './index.js';
+
+// Result of running a schema against an untrusted value
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; field: string; message: string };
+
+// A schema checks an unknown value and reports the first offending field
+export type Schema<T> = (value: unknown, path: string) => ValidationResult<T>;
+
+function fail<T>(field: string, message: string): ValidationResult<T> {
+  return { success: false, field, message };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Schema primitives
+// With trim, the surrounding whitespace is dropped before the maximum is checked, too
+export function string(
+  options: { minLength?: number; maxLength?: number; trim?: boolean } = {}
+): Schema<string> {
+  const { minLength = 0, maxLength, trim = false } = options;
+  return (raw, path) => {
+    if (typeof raw !== 'string') return fail(path, 'Expected a string');
+    const value = trim ? raw.trim() : raw;
+    if (value.trim().length < minLength) {
+      return fail(
+        path,
+        minLength === 1 ? 'Must not be empty' : `Must be at least ${minLength} characters`
+      );
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      return fail(path, `Must be at most ${maxLength} characters`);
+    }
+    return { success: true, data: value };
+  };
+}
+
+export function number(): Schema<number> {
+  return (value, path) =>
+    typeof value === 'number' && Number.isFinite(value)
+      ? { success: true, data: value }
+      : fail(path, 'Expected a number');
+}
+
+export function integer(options: { min?: number; max?: number } = {}): Schema<number> {
+  const { min = -Infinity, max = Infinity } = options;
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      return fail(path, 'Expected an integer');
+    }
+    if (value < min) return fail(path, `Must be at least ${min}`);
+    if (value > max) return fail(path, `Must be at most ${max}`);
+    return { success: true, data: value };
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, path) =>
+    typeof value === 'boolean' ? { success: true, data: value } : fail(path, 'Expected a boolean');
+}
+
+export function oneOf<T extends string>(...values: T[]): Schema<T> {
+  return (value, path) =>
+    typeof value === 'string' && (values as string[]).includes(value)
+      ? { success: true, data: value as T }
+      : fail(path, `Expected one of: ${values.join(', ')}`);
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) =>
+    value === undefined ? { success: true, data: undefined } : schema(value, path);
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === null ? { success: true, data: null } : schema(value, path));
+}
+
+export function array<T>(schema: Schema<T>, options: { maxLength?: number } = {}): Schema<T[]> {
+  const { maxLength } = options;
+  return (value, path) => {
+    if (!Array.isArray(value)) return fail(path, 'Expected an array');
+    if (maxLength !== undefined && value.length > maxLength) {
+      return fail(path, `Must have at most ${maxLength} items`);
+    }
+    let data = value as T[];
+    for (let i = 0; i < value.length; i++) {
+      const result = schema(value[i], `${path}[${i}]`);
+      if (!result.success) return result;
+      // Copied only when an item schema changed the item, e.g. trimmed it
+      if (result.data !== value[i]) {
+        if (data === value) data = [...data];
+        data[i] = result.data;
+      }
+    }
+    return { success: true, data };
+  };
+}
+
+// Unknown keys are allowed through so older clients keep working when fields are added
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    if (!isPlainObject(value)) return fail(path, 'Expected an object');
+    let data = value;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const result = shape[key](value[key], path ? `${path}.${key}` : key);
+      if (!result.success) return result;
+      if (result.data !== value[key]) data = { ...data, [key]: result.data };
+    }
+    return { success: true, data: data as T };
+  };
+}
+
+// Domain schemas
+const role = oneOf('broadcaster', 'viewer');
+const streamMode = oneOf<StreamMode>('mesh', 'sfu');
+
+export const userSchema = object<User>({
+  id: string({ minLength: 1 }),
+  username: string({ minLength: 1 }),
+  role,
+  roomId: string({ minLength: 1 }),
+  guest: optional(boolean()),
+});
+
+export const roomMuteSchema = object<RoomMute>({
+  userId: string({ minLength: 1 }),
+  until: optional(string()),
+});
+
+export const roomBanSchema = object<RoomBan>({
+  roomId: string({ minLength: 1 }),
+  userId: string({ minLength: 1 }),
+  username: string(),
+  guest: optional(boolean()),
+  reason: optional(string()),
+  bannedBy: string(),
+  bannedAt: string(),
+});
+
+export const roomSchema = object<Room>({
+  id: string({ minLength: 1 }),
+  name: string(),
+  broadcaster: optional(string()),
+  viewers: array(string()),
+  allowGuests: optional(boolean()),
+  private: optional(boolean()),
+  hasPassword: optional(boolean()),
+  moderators: optional(array(string())),
+  mutes: optional(array(roomMuteSchema)),
+  topic: optional(string()),
+  mode: optional(streamMode),
+});
+
+export const roomDetailsSchema = object<RoomDetails>({
+  id: string({ minLength: 1 }),
+  name: string(),
+  broadcaster: optional(string()),
+  viewers: array(string()),
+  allowGuests: optional(boolean()),
+  private: optional(boolean()),
+  hasPassword: optional(boolean()),
+  moderators: optional(array(string())),
+  mutes: optional(array(roomMuteSchema)),
+  topic: optional(string()),
+  mode: optional(streamMode),
+  users: array(userSchema),
+});
+
+export const roomInviteSchema = object<RoomInvite>({
+  token: string({ minLength: 1 }),
+  roomId: string({ minLength: 1 }),
+  expiresAt: string(),
+  maxUses: optional(integer({ min: 1 })),
+  uses: integer({ min: 0 }),
+});
+
+export const accountInfoSchema = object<AccountInfo>({
+  id: string({ minLength: 1 }),
+  username: string({ minLength: 1 }),
+});
+
+export const credentialsSchema = object<Credentials>({
+  username: string({ minLength: 3, maxLength: 32 }),
+  password: string({ minLength: 8, maxLength: 128 }),
+});
+
+export const authResponseSchema = object<AuthResponse>({
+  token: string({ minLength: 1 }),
+  account: accountInfoSchema,
+});
+
+// The whole string must be one emoji: a pictograph with its optional variation selector,
+// skin tone and tags, or several joined into one, such as family emoji
+const emojiPart = '\\p{Extended_Pictographic}\\uFE0F?\\p{Emoji_Modifier}?[\\u{E0020}-\\u{E007F}]*';
+const singleEmoji = new RegExp(`^${emojiPart}(?:\\u200D${emojiPart})*$`, 'u');
+
+export function emoji(): Schema<string> {
+  const text = string({ minLength: 1, maxLength: 16 });
+  return (value, path) => {
+    const result = text(value, path);
+    if (result.success && !singleEmoji.test(result.data)) {
+      return fail(path, 'Expected an emoji');
+    }
+    return result;
+  };
+}
+
+export const messageReactionSchema = object<MessageReaction>({
+  emoji: string({ minLength: 1 }),
+  userIds: array(string({ minLength: 1 })),
+});
+
+export const attachmentSchema = object<Attachment>({
+  id: string({ minLength: 1 }),
+  name: string(),
+  mimeType: string({ minLength: 1 }),
+  size: integer({ min: 0 }),
+  url: string({ minLength: 1 }),
+});
+
+export const chatMessageSchema = object<ChatMessage>({
+  id: string({ minLength: 1 }),
+  senderId: string({ minLength: 1 }),
+  senderUsername: string(),
+  roomId: string({ minLength: 1 }),
+  content: string(),
+  type: oneOf('public', 'private'),
+  recipientId: optional(string()),
+  timestamp: string(),
+  editedAt: optional(string()),
+  deleted: optional(boolean()),
+  reactions: optional(array(messageReactionSchema)),
+  readAt: optional(string()),
+  attachments: optional(array(attachmentSchema)),
+  kind: optional(oneOf('action', 'system')),
+});
+
+export const chatCommandSchema = object<ChatCommand>({
+  name: string({ minLength: 1 }),
+  usage: string(),
+  description: string(),
+  permission: oneOf('everyone', 'moderator'),
+});
+
+export const directMessageSchema = object<DirectMessage>({
+  id: string({ minLength: 1 }),
+  senderId: string({ minLength: 1 }),
+  senderUsername: string(),
+  recipientId: string({ minLength: 1 }),
+  content: string(),
+  timestamp: string(),
+});
+
+export const directThreadSchema = object<DirectThread>({
+  peer: object<DirectThread['peer']>({ id: string({ minLength: 1 }), username: string() }),
+  lastMessage: optional(directMessageSchema),
+  unreadCount: integer({ min: 0 }),
+});
+
+export const sessionDescriptionSchema = object<SessionDescriptionData>({
+  type: oneOf('offer', 'answer', 'pranswer', 'rollback'),
+  sdp: optional(string()),
+});
+
+export const iceCandidateSchema = object<IceCandidateData>({
+  candidate: string(),
+  sdpMid: optional(nullable(string())),
+  sdpMLineIndex: optional(nullable(number())),
+  usernameFragment: optional(nullable(string())),
+});
+
+function rtcSignalSchema<T extends RTCSignalData>(data: Schema<T>): Schema<RTCSignalPayload<T>> {
+  return object<RTCSignalPayload<T>>({
+    sender: string(),
+    receiver: string({ minLength: 1 }),
+    roomId: string({ minLength: 1 }),
+    data,
+  });
+}
+
+export const joinRoomSchema = object<JoinRoomPayload>({
+  roomId: string({ minLength: 1, maxLength: 64 }),
+  username: optional(string({ minLength: 1, maxLength: 32, trim: true })),
+  role,
+  allowGuests: optional(boolean()),
+  private: optional(boolean()),
+  mode: optional(streamMode),
+  password: optional(string({ maxLength: 128 })),
+  invite: optional(string({ maxLength: 128 })),
+});
+
+// Longest chat message the server accepts
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+// Most files one chat message can carry
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+// Longest room topic /topic accepts
+export const MAX_TOPIC_LENGTH = 200;
+
+// Most chat messages served in one page of history
+export const MAX_MESSAGE_PAGE_SIZE = 200;
+
+const chatMessageDraftFields = object<ChatMessageDraft>({
+  content: string({ maxLength: MAX_CHAT_MESSAGE_LENGTH }),
+  type: oneOf('public', 'private'),
+  recipientId: optional(string({ minLength: 1 })),
+  roomId: optional(string()),
+  attachmentIds: optional(
+    array(string({ minLength: 1 }), { maxLength: MAX_ATTACHMENTS_PER_MESSAGE })
+  ),
+});
+
+// A private message names its recipient and a public one doesn't
+const chatMessageDraftSchema: Schema<ChatMessageDraft> = (value, path) => {
+  const result = chatMessageDraftFields(value, path);
+  if (!result.success) return result;
+
+  const { type, recipientId } = result.data;
+  if (type === 'private' && recipientId === undefined) {
+    return fail(`${path}.recipientId`, 'Required for private messages');
+  }
+  if (type === 'public' && recipientId !== undefined) {
+    return fail(`${path}.recipientId`, 'Only private messages have a recipient');
+  }
+  return result;
+};
+
+export const chatMessagePayloadSchema = object<ChatMessagePayload>({
+  message: chatMessageDraftSchema,
+});
+
+export const chatMessageEditSchema = object<ChatMessageEditPayload>({
+  messageId: string({ minLength: 1 }),
+  content: string({ minLength: 1, maxLength: MAX_CHAT_MESSAGE_LENGTH }),
+});
+
+export const chatReactionSchema = object<ChatReactionPayload>({
+  messageId: string({ minLength: 1 }),
+  emoji: emoji(),
+  reacted: boolean(),
+});
+
+const typingSchema = object<TypingPayload>({ roomId: string({ minLength: 1 }) });
+
+const userTypingSchema = object<UserTypingPayload>({
+  roomId: string({ minLength: 1 }),
+  userId: string({ minLength: 1 }),
+  username: string(),
+});
+
+const roomPasswordSchema = string({ minLength: 1, maxLength: 128 });
+
+// Invites last between a minute and 30 days
+const MAX_INVITE_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const updateRoomSchema = object<UpdateRoomPayload>({
+  roomId: string({ minLength: 1 }),
+  private: optional(boolean()),
+  password: optional(nullable(roomPasswordSchema)),
+});
+
+export const createInviteSchema = object<CreateInvitePayload>({
+  roomId: string({ minLength: 1 }),
+  expiresInMs: integer({ min: 60_000, max: MAX_INVITE_LIFETIME_MS }),
+  maxUses: optional(integer({ min: 1, max: 1000 })),
+});
+
+const moderationReason = optional(string({ maxLength: 200 }));
+
+export const moderationTargetSchema = object<ModerationTargetPayload>({
+  roomId: string({ minLength: 1 }),
+  userId: string({ minLength: 1 }),
+  reason: moderationReason,
+});
+
+// Timeouts last between ten seconds and a day
+const MAX_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+const readyRequestSchema = object<StreamReadyPayload & ViewerReadyRequestPayload>({
+  roomId: string({ minLength: 1 }),
+  userId: string({ minLength: 1 }),
+});
+
+export const mediaStateSchema = object<MediaState>({
+  source: oneOf('camera', 'screen', 'composite'),
+  muted: boolean(),
+  cameraOff: boolean(),
+});
+
+const peerStatsSchema = object<PeerStats>({
+  bitrateKbps: number(),
+  packetLossPercent: number(),
+  jitterMs: number(),
+  roundTripMs: optional(number()),
+  width: optional(integer({ min: 0 })),
+  height: optional(integer({ min: 0 })),
+  framesPerSecond: optional(number()),
+  candidateType: optional(oneOf('host', 'srflx', 'prflx', 'relay')),
+});
+
+const errorSchema = object<ErrorPayload>({
+  code: oneOf(
+    'ROOM_NOT_FOUND',
+    'USER_NOT_FOUND',
+    'MESSAGE_NOT_FOUND',
+    'INVALID_ATTACHMENT',
+    'BROADCASTER_EXISTS',
+    'USER_EXISTS',
+    'INVALID_ROLE',
+    'INVALID_MESSAGE',
+    'UNKNOWN_TYPE',
+    'SESSION_EXPIRED',
+    'AUTH_REQUIRED',
+    'INVALID_CREDENTIALS',
+    'ROOM_LOCKED',
+    'INVALID_INVITE',
+    'BANNED',
+    'MUTED',
+    'RATE_LIMITED'
+  ),
+  message: string(),
+  field: optional(string()),
+  retryAfterMs: optional(number()),
+});
+
+// Payload schemas for messages a client may send to the server
+export const clientMessageSchemas: { [K in ClientMessageType]: Schema<ClientPayloadMap[K]> } = {
+  JOIN_ROOM: joinRoomSchema,
+  LEAVE_ROOM: object<LeaveRoomPayload>({ roomId: string({ minLength: 1 }) }),
+  RESUME_SESSION: object<ResumeSessionPayload>({
+    token: string({ minLength: 1 }),
+    lastMessageId: optional(string()),
+  }),
+  UPDATE_ROOM: updateRoomSchema,
+  CREATE_INVITE: createInviteSchema,
+  KICK_USER: moderationTargetSchema,
+  BAN_USER: moderationTargetSchema,
+  UNBAN_USER: object<UnbanUserPayload>({
+    roomId: string({ minLength: 1 }),
+    userId: string({ minLength: 1 }),
+  }),
+  MUTE_USER: object<MuteUserPayload>({
+    roomId: string({ minLength: 1 }),
+    userId: string({ minLength: 1 }),
+    reason: moderationReason,
+    muted: boolean(),
+  }),
+  TIMEOUT_USER: object<TimeoutUserPayload>({
+    roomId: string({ minLength: 1 }),
+    userId: string({ minLength: 1 }),
+    reason: moderationReason,
+    durationMs: integer({ min: 10_000, max: MAX_TIMEOUT_MS }),
+  }),
+  SET_MODERATOR: object<SetModeratorPayload>({
+    roomId: string({ minLength: 1 }),
+    userId: string({ minLength: 1 }),
+    moderator: boolean(),
+  }),
+  OFFER: rtcSignalSchema(sessionDescriptionSchema),
+  ANSWER: rtcSignalSchema(sessionDescriptionSchema),
+  ICE_CANDIDATE: rtcSignalSchema(iceCandidateSchema),
+  STREAM_READY: readyRequestSchema,
+  VIEWER_READY: readyRequestSchema,
+  MEDIA_STATE: object<MediaStatePayload>({
+    roomId: string({ minLength: 1 }),
+    state: mediaStateSchema,
+  }),
+  PEER_STATS: object<PeerStatsPayload>({
+    roomId: string({ minLength: 1 }),
+    stats: peerStatsSchema,
+  }),
+  CHAT_MESSAGE: chatMessagePayloadSchema,
+  CHAT_MESSAGE_EDIT: chatMessageEditSchema,
+  CHAT_MESSAGE_DELETE: object<ChatMessageDeletePayload>({ messageId: string({ minLength: 1 }) }),
+  CHAT_REACTION: chatReactionSchema,
+  TYPING_START: typingSchema,
+  TYPING_STOP: typingSchema,
+  MARK_MESSAGES_READ: object<MarkMessagesReadPayload>({
+    roomId: string({ minLength: 1 }),
+    messageId: string({ minLength: 1 }),
+  }),
+  GET_CHAT_HISTORY: object<GetChatHistoryPayload>({
+    roomId: string({ minLength: 1 }),
+    before: optional(string({ minLength: 1 })),
+    after: optional(string({ minLength: 1 })),
+    limit: optional(integer({ min: 1, max: MAX_MESSAGE_PAGE_SIZE })),
+  }),
+  SEND_DIRECT_MESSAGE: object<SendDirectMessagePayload>({
+    recipientId: string({ minLength: 1 }),
+    content: string({ minLength: 1, maxLength: MAX_CHAT_MESSAGE_LENGTH }),
+  }),
+  GET_DIRECT_MESSAGES: object<GetDirectMessagesPayload>({
+    peerId: string({ minLength: 1 }),
+    before: optional(string({ minLength: 1 })),
+    limit: optional(integer({ min: 1, max: MAX_MESSAGE_PAGE_SIZE })),
+  }),
+  MARK_THREAD_READ: object<MarkThreadReadPayload>({
+    peerId: string({ minLength: 1 }),
+    messageId: string({ minLength: 1 }),
+  }),
+};
+
+// Payload schemas for messages the server may send to a client
+export const serverMessageSchemas: { [K in ServerMessageType]: Schema<ServerPayloadMap[K]> } = {
+  ROOM_JOINED: object<RoomJoinedPayload>({
+    room: roomDetailsSchema,
+    user: userSchema,
+    messages: array(chatMessageSchema),
+    hasMoreMessages: boolean(),
+    resumeToken: string({ minLength: 1 }),
+    commands: array(chatCommandSchema),
+  }),
+  SESSION_RESUMED: object<SessionResumedPayload>({
+    room: roomDetailsSchema,
+    user: userSchema,
+    messages: array(chatMessageSchema),
+    resumeToken: string({ minLength: 1 }),
+  }),
+  ROOM_STATE: object<RoomStatePayload>({ room: roomDetailsSchema }),
+  INVITE_CREATED: object<InviteCreatedPayload>({ invite: roomInviteSchema }),
+  MODERATION_ACTION: object<ModerationActionPayload>({
+    action: oneOf('kick', 'ban', 'mute', 'unmute', 'timeout'),
+    roomId: string({ minLength: 1 }),
+    moderator: string(),
+    reason: optional(string()),
+    until: optional(string()),
+  }),
+  BAN_LIST: object<BanListPayload>({
+    roomId: string({ minLength: 1 }),
+    bans: array(roomBanSchema),
+  }),
+  OFFER: rtcSignalSchema(sessionDescriptionSchema),
+  ANSWER: rtcSignalSchema(sessionDescriptionSchema),
+  ICE_CANDIDATE: rtcSignalSchema(iceCandidateSchema),
+  USER_JOINED: object<UserJoinedPayload>({ user: userSchema }),
+  USER_RECONNECTED: object<UserReconnectedPayload>({ user: userSchema }),
+  USER_LEFT: object<UserLeftPayload>({ user: userSchema, room: nullable(roomDetailsSchema) }),
+  ERROR: errorSchema,
+  BROADCASTER_READY: object<BroadcasterReadyPayload>({ broadcaster: userSchema }),
+  VIEWER_READY: object<ViewerReadyPayload>({ viewer: userSchema }),
+  MEDIA_STATE: object<UserMediaStatePayload>({
+    roomId: string({ minLength: 1 }),
+    userId: string({ minLength: 1 }),
+    state: mediaStateSchema,
+  }),
+  PEER_STATS: object<ViewerStatsPayload>({
+    roomId: string({ minLength: 1 }),
+    viewer: object<ViewerStats>({
+      userId: string({ minLength: 1 }),
+      username: string(),
+      stats: peerStatsSchema,
+      reportedAt: string(),
+    }),
+  }),
+  CHAT_MESSAGE_RECEIVED: object<ChatMessageReceivedPayload>({ message: chatMessageSchema }),
+  CHAT_MESSAGE_UPDATED: object<ChatMessageUpdatedPayload>({ message: chatMessageSchema }),
+  TYPING_START: userTypingSchema,
+  TYPING_STOP: userTypingSchema,
+  CHAT_HISTORY: object<ChatHistoryPayload>({
+    roomId: string({ minLength: 1 }),
+    before: optional(string()),
+    after: optional(string()),
+    messages: array(chatMessageSchema),
+    total: integer({ min: 0 }),
+    hasMore: boolean(),
+  }),
+  CHAT_CLEARED: object<ChatClearedPayload>({
+    roomId: string({ minLength: 1 }),
+    clearedBy: string(),
+  }),
+  DIRECT_THREADS: object<DirectThreadsPayload>({ threads: array(directThreadSchema) }),
+  DIRECT_MESSAGE_RECEIVED: object<DirectMessageReceivedPayload>({
+    message: directMessageSchema,
+    thread: directThreadSchema,
+  }),
+  DIRECT_MESSAGES: object<DirectMessagesPayload>({
+    peerId: string({ minLength: 1 }),
+    before: optional(string()),
+    messages: array(directMessageSchema),
+    hasMore: boolean(),
+  }),
+  HEARTBEAT: object<HeartbeatPayload>({ intervalMs: integer({ min: 1 }) }),
+};
+
+export type ParseMessageResult<M> =
+  | { success: true; message: M }
+  | { success: false; error: ErrorPayload };
+
+function invalid<M>(field: string | undefined, message: string): ParseMessageResult<M> {
+  return { success: false, error: { code: 'INVALID_MESSAGE', message, field } };
+}
+
+function parseMessage<M extends WSMessage>(
+  raw: string,
+  schemas: Record<string, Schema<unknown>>
+): ParseMessageResult<M> {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return invalid(undefined, 'Message is not valid JSON');
+  }
+
+  if (!isPlainObject(value)) {
+    return invalid(undefined, 'Message must be a JSON object');
+  }
+  if (typeof value.type !== 'string') {
+    return invalid('type', 'Expected a string');
+  }
+
+  const schema = Object.prototype.hasOwnProperty.call(schemas, value.type)
+    ? schemas[value.type]
+    : undefined;
+  if (!schema) {
+    return {
+      success: false,
+      error: {
+        code: 'UNKNOWN_TYPE',
+        message: `Unknown message type: ${value.type}`,
+        field: 'type',
+      },
+    };
+  }
+
+  const result = schema(value.payload, 'payload');
+  if (!result.success) {
+    return invalid(result.field, result.message);
+  }
+
+  return {
+    success: true,
+    message: {
+      type: value.type,
+      payload: result.data,
+      timestamp: typeof value.timestamp === 'string' ? value.timestamp : new Date().toISOString(),
+    } as M,
+  };
+}
+
+// Validate a raw message received by the server
+export function parseClientMessage(raw: string): ParseMessageResult<ClientMessage> {
+  return parseMessage<ClientMessage>(raw, clientMessageSchemas);
+}
+
+// Validate a raw message received by a client
+export function parseServerMessage(raw: string): ParseMessageResult<ServerMessage> {
+  return parseMessage<ServerMessage>(raw, serverMessageSchemas);
+}